@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// The CLI and the sdk ship TypeScript source; tsx compiles both on load.
+import { register } from "tsx/esm/api";
+
+register();
+await import("../src/main.ts");
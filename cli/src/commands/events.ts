@@ -0,0 +1,54 @@
+import { bpsToPercent, feeToPercent, type HookEvent } from "@crosspool/sdk";
+import { resolvePoolId, type Context } from "../context";
+import { printJson } from "../output";
+
+export interface EventsOptions {
+  fromBlock?: string;
+  toBlock?: string;
+}
+
+export function parseBlock(value: string, flag: string): bigint {
+  if (!/^\d+$/.test(value)) throw new Error(`${flag} must be a block number, got ${value}`);
+  return BigInt(value);
+}
+
+/** One line per event, e.g. `DynamicFeeApplied fee 1.00% impact 2.50%` */
+export function describeEvent(event: HookEvent): string {
+  if (event.type === "fee") {
+    return `DynamicFeeApplied fee ${feeToPercent(event.fee!)} impact ${bpsToPercent(event.impactBps)}`;
+  }
+  return (
+    `CircuitBreakerHit impact ${bpsToPercent(event.impactBps)}` +
+    ` reference move ${bpsToPercent(event.refPriceChangeBps!)}`
+  );
+}
+
+/**
+ * `events [poolId] --from-block`: the hook's decoded events for the pool,
+ * oldest first, from the deployment block unless told otherwise
+ */
+export async function events(ctx: Context, poolIdArg: string | undefined, options: EventsOptions) {
+  const poolId = resolvePoolId(ctx.deployment, poolIdArg);
+  const fromBlock =
+    options.fromBlock !== undefined
+      ? parseBlock(options.fromBlock, "--from-block")
+      : ctx.deployment.startBlock;
+  const toBlock =
+    options.toBlock !== undefined ? parseBlock(options.toBlock, "--to-block") : undefined;
+  if (toBlock !== undefined && toBlock < fromBlock) {
+    throw new Error("--to-block is before --from-block");
+  }
+
+  const found = await ctx.hook.getEvents(poolId, fromBlock, toBlock);
+  if (ctx.json) {
+    printJson(found);
+    return;
+  }
+  if (found.length === 0) {
+    console.log(`No hook events for ${poolId} from block ${fromBlock}`);
+    return;
+  }
+  for (const event of found) {
+    console.log(`${event.blockNumber}  ${event.txHash}  ${describeEvent(event)}`);
+  }
+}
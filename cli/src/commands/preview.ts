@@ -0,0 +1,126 @@
+import { parseUnits } from "viem";
+import {
+  bpsToPercent,
+  feeToPercent,
+  formatUnitsSignificant,
+  type PoolKey,
+} from "@crosspool/sdk";
+import { poolKeyFor, readTokens, resolvePoolId, type Context, type Token } from "../context";
+import { formatRows, printJson } from "../output";
+
+export interface PreviewOptions {
+  /** Whole tokens: the input for exact-input swaps, the output for exact-output ones */
+  amount?: string;
+  direction?: string;
+  exactOutput: boolean;
+  /**
+   * Overrides the token's decimals; required for pools the deployment does not
+   * list and for tokens whose decimals() cannot be read
+   */
+  decimals?: string;
+}
+
+/** `zeroForOne` or `oneForZero`, as in the hook's config and SwapParams */
+export function parseDirection(value: string | undefined): boolean {
+  if (value === "zeroForOne") return true;
+  if (value === "oneForZero") return false;
+  throw new Error(`--direction must be zeroForOne or oneForZero, got ${value ?? "nothing"}`);
+}
+
+export function parseAmount(value: string | undefined, decimals: number): bigint {
+  if (value === undefined) throw new Error("--amount is required");
+  let amount: bigint;
+  try {
+    amount = parseUnits(value, decimals);
+  } catch {
+    throw new Error(`Invalid --amount ${value}`);
+  }
+  if (amount <= 0n) throw new Error("--amount must be positive");
+  return amount;
+}
+
+function parseDecimals(value: string): number {
+  const decimals = Number(value);
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+    throw new Error(`Invalid --decimals ${value}`);
+  }
+  return decimals;
+}
+
+/** Currencies the swap takes and gives, or null for pools the deployment does not list */
+async function swapTokens(
+  ctx: Context,
+  key: PoolKey | undefined,
+  zeroForOne: boolean
+): Promise<{ tokenIn: Token; tokenOut: Token } | null> {
+  if (!key) return null;
+  const tokens = await readTokens(ctx.publicClient, [key.currency0, key.currency1]);
+  const [token0, token1] = [tokens.get(key.currency0)!, tokens.get(key.currency1)!];
+  return zeroForOne ? { tokenIn: token0, tokenOut: token1 } : { tokenIn: token1, tokenOut: token0 };
+}
+
+/** `preview [poolId] --amount --direction`: the hook's tier and fee for a router swap right now */
+export async function preview(ctx: Context, poolIdArg: string | undefined, options: PreviewOptions) {
+  const poolId = resolvePoolId(ctx.deployment, poolIdArg);
+  const zeroForOne = parseDirection(options.direction);
+  const { exactOutput } = options;
+  // With --decimals the amount's scale is given, so token metadata is optional
+  const tokens = await swapTokens(ctx, poolKeyFor(ctx.deployment, poolId), zeroForOne).catch(
+    (err: Error) => {
+      if (options.decimals === undefined) throw new Error(`${err.message}; pass --decimals`);
+      return null;
+    }
+  );
+  if (!tokens && options.decimals === undefined) {
+    throw new Error(`Pool ${poolId} is not in the deployment file; pass --decimals`);
+  }
+  const specified = exactOutput ? tokens?.tokenOut : tokens?.tokenIn;
+  const decimals =
+    options.decimals !== undefined ? parseDecimals(options.decimals) : specified!.decimals;
+  const amount = parseAmount(options.amount, decimals);
+
+  const { blockNumber, decision, quote } = await ctx.hook.previewSwap(poolId, {
+    zeroForOne,
+    amount,
+    exactOutput,
+  });
+
+  if (ctx.json) {
+    printJson({ blockNumber, poolId, zeroForOne, exactOutput, amount, decision, quote });
+    return;
+  }
+
+  // Quotes are in each token's own units; without metadata, in the --decimals units
+  const format = (value: bigint, token: Token | undefined) =>
+    `${formatUnitsSignificant(value, token?.decimals ?? decimals)} ${token?.symbol ?? ""}`.trim();
+  const side = exactOutput ? "Buying" : "Selling";
+  const direction = tokens
+    ? `${tokens.tokenIn.symbol} -> ${tokens.tokenOut.symbol}`
+    : zeroForOne
+      ? "zeroForOne"
+      : "oneForZero";
+  console.log(`${side} ${format(amount, specified)} (${direction}) at block ${blockNumber}`);
+
+  const aligned = decision.alignedMoves.length;
+  console.log(
+    formatRows([
+      ["Tier", decision.tier],
+      [
+        "Fee",
+        decision.fee === null ? "none: reverts with CircuitBreakerTriggered" : feeToPercent(decision.fee),
+      ],
+      ["Swap impact", bpsToPercent(decision.swapImpactBps)],
+      ["Reference move", `${bpsToPercent(decision.refPriceChangeBps)} (${aligned} aligned)`],
+      ["Unexplained impact", bpsToPercent(decision.unexplainedImpactBps)],
+      ...(quote
+        ? ([
+            ["Estimated in", format(quote.amountIn, tokens?.tokenIn)],
+            ["Estimated out", format(quote.amountOut, tokens?.tokenOut)],
+          ] as [string, string][])
+        : []),
+    ])
+  );
+  if (decision.fee !== null && !quote) {
+    console.log("\nThe current tick range cannot fill this amount; no estimate");
+  }
+}
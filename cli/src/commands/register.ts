@@ -0,0 +1,92 @@
+import { readFileSync } from "node:fs";
+import { createWalletClient, http, isAddressEqual, isHex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  diffPoolConfig,
+  hookAbi,
+  registrationCall,
+  registrationConfig,
+  toPoolId,
+  validateRegistration,
+} from "@crosspool/sdk";
+import type { Context } from "../context";
+import { printJson, toJson } from "../output";
+import { parseRegistrationFile } from "../registrationFile";
+
+export interface RegisterOptions {
+  config?: string;
+  dryRun: boolean;
+}
+
+function readConfig(path: string | undefined): unknown {
+  if (!path) throw new Error("--config is required");
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    throw new Error(`Could not read ${path}: ${(err as Error).message}`);
+  }
+}
+
+/** The owner's key comes from PRIVATE_KEY so it stays out of shell history */
+function ownerAccount() {
+  const key = process.env.PRIVATE_KEY;
+  if (!key) throw new Error("Set PRIVATE_KEY to the hook owner's key, or pass --dry-run");
+  if (!isHex(key) || key.length !== 66) throw new Error("PRIVATE_KEY must be 32 bytes of hex");
+  return privateKeyToAccount(key);
+}
+
+/**
+ * `register --config <file>`: validate the config, show what it changes
+ * against the current registration, then send registerPool or
+ * registerPoolMultiRef from the hook owner and wait for the receipt
+ */
+export async function register(ctx: Context, options: RegisterOptions) {
+  const { hook: hookAddress } = ctx.deployment.addresses;
+  const registration = parseRegistrationFile(readConfig(options.config), ctx.deployment);
+  const errors = validateRegistration(registration, hookAddress);
+  if (errors.length > 0) throw new Error(`Invalid registration:\n  ${errors.join("\n  ")}`);
+
+  const poolId = toPoolId(registration.protectedPoolKey);
+  const current = await ctx.hook.getPoolConfig(poolId);
+  const changes = diffPoolConfig(current, registrationConfig(registration));
+  const call = registrationCall(registration);
+
+  const report = (result: object) => {
+    if (ctx.json) printJson({ poolId, changes, functionName: call.functionName, ...result });
+  };
+
+  if (!ctx.json) {
+    console.log(`${current ? "Updating" : "Registering"} pool ${poolId} with ${call.functionName}`);
+    for (const { field, from, to } of changes) {
+      console.log(`  ${field}: ${from ?? "(none)"} -> ${to ?? "(removed)"}`);
+    }
+  }
+  if (changes.length === 0) {
+    if (!ctx.json) console.log("  Already registered with this config; nothing to send");
+    report({ sent: false });
+    return;
+  }
+  if (options.dryRun) {
+    if (!ctx.json) console.log(`\nDry run; call arguments:\n${toJson(call.args, 2)}`);
+    report({ sent: false, args: call.args });
+    return;
+  }
+
+  const account = ownerAccount();
+  const owner = await ctx.publicClient.readContract({
+    address: hookAddress,
+    abi: hookAbi,
+    functionName: "owner",
+  });
+  if (!isAddressEqual(owner, account.address)) {
+    throw new Error(`${account.address} is not the hook owner (${owner})`);
+  }
+
+  const wallet = createWalletClient({ account, chain: ctx.publicClient.chain, transport: http() });
+  const txHash = await ctx.hook.register(wallet, registration);
+  if (!ctx.json) console.log(`\nSent ${txHash}`);
+  const receipt = await ctx.publicClient.waitForTransactionReceipt({ hash: txHash });
+  if (!ctx.json) console.log(`Included in block ${receipt.blockNumber}: ${receipt.status}`);
+  report({ sent: true, txHash, blockNumber: receipt.blockNumber, status: receipt.status });
+  if (receipt.status !== "success") process.exitCode = 1;
+}
@@ -0,0 +1,141 @@
+import type { Address, Hex } from "viem";
+import {
+  aggregationLabel,
+  bpsToPercent,
+  checkReferenceDirection,
+  feeToPercent,
+  formatPrice,
+  priceChangeBps,
+  priceFromSqrtPriceX96,
+  type PoolKey,
+  type PoolSnapshot,
+  type ReferenceState,
+} from "@crosspool/sdk";
+import { poolKeyFor, readTokens, resolvePoolId, type Context, type Token } from "../context";
+import { formatRows, printJson, signedPercent } from "../output";
+
+export interface ReferenceStatus extends ReferenceState {
+  /** Signed live move since the hook's cached price, as the hook measures it */
+  moveBps: number;
+  /** Set when the deployment lists the reference and its flag contradicts the currency order */
+  directionProblem: string | null;
+}
+
+/** Signed version of the hook's _calculatePriceChangeBps from cached to live */
+export function referenceMoveBps(
+  ref: Pick<ReferenceState, "sqrtPriceX96" | "cachedSqrtPriceX96">
+): number {
+  const bps = priceChangeBps(ref.cachedSqrtPriceX96, ref.sqrtPriceX96);
+  return ref.sqrtPriceX96 < ref.cachedSqrtPriceX96 ? -bps : bps;
+}
+
+export function referenceStatuses(
+  snapshot: PoolSnapshot,
+  protectedKey: PoolKey | undefined,
+  keyOf: (id: Hex) => PoolKey | undefined
+): ReferenceStatus[] {
+  return snapshot.references.map((ref) => {
+    const key = keyOf(ref.id);
+    return {
+      ...ref,
+      moveBps: referenceMoveBps(ref),
+      directionProblem:
+        protectedKey && key ? checkReferenceDirection(protectedKey, key, ref.zeroForOne) : null,
+    };
+  });
+}
+
+/** `SYM0/SYM1 poolId`, or just the PoolId when the deployment does not list the pool */
+function poolLabel(id: Hex, key: PoolKey | undefined, tokens: Map<Address, Token>): string {
+  if (!key) return id;
+  return `${tokens.get(key.currency0)!.symbol}/${tokens.get(key.currency1)!.symbol} ${id}`;
+}
+
+/** Price as currency1 per currency0; raw 18/18 units when the pool's tokens are unknown */
+function priceLabel(
+  sqrtPriceX96: bigint,
+  key: PoolKey | undefined,
+  tokens: Map<Address, Token>
+): string {
+  if (sqrtPriceX96 === 0n) return "not initialized";
+  if (!key) return `${formatPrice(priceFromSqrtPriceX96(sqrtPriceX96))} (raw)`;
+  const [token0, token1] = [tokens.get(key.currency0)!, tokens.get(key.currency1)!];
+  const price = priceFromSqrtPriceX96(sqrtPriceX96, token0.decimals, token1.decimals);
+  return `${formatPrice(price)} ${token1.symbol}/${token0.symbol}`;
+}
+
+/** `status [poolId]`: pool state, registration and every reference against the hook's cache */
+export async function status(ctx: Context, poolIdArg?: string) {
+  const poolId = resolvePoolId(ctx.deployment, poolIdArg);
+  const snapshot = await ctx.hook.getSnapshot(poolId);
+  const keyOf = (id: Hex) => poolKeyFor(ctx.deployment, id);
+  const protectedKey = keyOf(poolId);
+  const references = referenceStatuses(snapshot, protectedKey, keyOf);
+
+  if (ctx.json) {
+    printJson({
+      blockNumber: snapshot.blockNumber,
+      poolId,
+      pool: snapshot.protectedPool,
+      config: snapshot.config,
+      references,
+    });
+    return;
+  }
+
+  const keys = [protectedKey, ...references.map((ref) => keyOf(ref.id))].filter(
+    (key): key is PoolKey => key !== undefined
+  );
+  const tokens = await readTokens(
+    ctx.publicClient,
+    [...new Set(keys.flatMap((key) => [key.currency0, key.currency1]))]
+  );
+  const pool = snapshot.protectedPool;
+
+  console.log(`Pool ${poolLabel(poolId, protectedKey, tokens)} at block ${snapshot.blockNumber}`);
+  console.log(
+    formatRows([
+      ["Price", priceLabel(pool.sqrtPriceX96, protectedKey, tokens)],
+      ["Tick", String(pool.tick)],
+      ["LP fee", feeToPercent(pool.lpFee)],
+      ["Liquidity", pool.liquidity.toString()],
+    ])
+  );
+
+  const config = snapshot.config;
+  if (!config) {
+    console.log("\nNot registered with the hook");
+    return;
+  }
+  console.log("\nProtection");
+  console.log(
+    formatRows([
+      ["Base fee", feeToPercent(config.baseFee)],
+      [
+        "High impact fee",
+        `${feeToPercent(config.highImpactFee)} from ${bpsToPercent(config.highImpactThresholdBps)} unexplained impact`,
+      ],
+      ["Circuit breaker", bpsToPercent(config.circuitBreakerBps)],
+      ["Ref move cap", config.maxRefMoveBps === 0 ? "uncapped" : bpsToPercent(config.maxRefMoveBps)],
+      ["Aggregation", aggregationLabel(config.aggregationMode)],
+    ])
+  );
+
+  console.log(`\nReferences (${references.length})`);
+  references.forEach((ref, i) => {
+    const key = keyOf(ref.id);
+    console.log(`  #${i + 1} ${poolLabel(ref.id, key, tokens)}`);
+    console.log(
+      formatRows(
+        [
+          ["zeroForOne", String(ref.zeroForOne)],
+          ["Live", priceLabel(ref.sqrtPriceX96, key, tokens)],
+          ["Cached", priceLabel(ref.cachedSqrtPriceX96, key, tokens)],
+          ["Move", signedPercent(ref.moveBps)],
+          ...(ref.directionProblem ? [["Warning", ref.directionProblem] as [string, string]] : []),
+        ],
+        "     "
+      )
+    );
+  });
+}
@@ -0,0 +1,139 @@
+import {
+  bpsToPercent,
+  diffPoolConfig,
+  type ConfigChange,
+  type HookEvent,
+  type PoolSnapshot,
+} from "@crosspool/sdk";
+import { resolvePoolId, type Context } from "../context";
+import { toJson } from "../output";
+import { describeEvent } from "./events";
+import { referenceMoveBps } from "./status";
+
+// Streams alerts for one pool as blocks arrive. CircuitBreakerHit is emitted
+// in the reverting call, so blocked swaps never reach the chain; what watch
+// can see is elevated fees being charged, references drifting from the
+// prices the hook cached (the headroom an attacker would use) and
+// registration changes.
+
+export interface WatchOptions {
+  /** Seconds between polls for new blocks */
+  interval?: string;
+}
+
+export interface WatchAlert {
+  blockNumber: bigint;
+  level: "info" | "warn";
+  kind: "event" | "referenceMove" | "configChange";
+  message: string;
+  event?: HookEvent;
+  /** 1-based, as in `status` */
+  reference?: number;
+  moveBps?: number;
+  changes?: ConfigChange[];
+}
+
+/**
+ * Alerts for the step from `previous` to `next` (null on the first block).
+ * Reference moves alert when they reach the elevated-fee threshold and again
+ * when the hook's cache catches up, not on every block in between.
+ */
+export function watchAlerts(
+  previous: PoolSnapshot | null,
+  next: PoolSnapshot,
+  events: HookEvent[]
+): WatchAlert[] {
+  const alerts: WatchAlert[] = [];
+  const { blockNumber, config } = next;
+
+  for (const event of events) {
+    const elevated = event.type === "breaker" || (config !== null && event.fee! > config.baseFee);
+    alerts.push({
+      blockNumber: event.blockNumber,
+      level: elevated ? "warn" : "info",
+      kind: "event",
+      message: `${describeEvent(event)} in ${event.txHash}`,
+      event,
+    });
+  }
+
+  if (previous && config) {
+    const changes = diffPoolConfig(previous.config, config);
+    if (changes.length > 0) {
+      alerts.push({
+        blockNumber,
+        level: "warn",
+        kind: "configChange",
+        message: `Registration changed: ${changes.map((change) => change.field).join(", ")}`,
+        changes,
+      });
+    }
+  }
+  if (!config) return alerts;
+
+  const threshold = config.highImpactThresholdBps;
+  next.references.forEach((ref, i) => {
+    const moveBps = referenceMoveBps(ref);
+    const before = previous?.references.find((old) => old.id === ref.id);
+    const wasAbove = before !== undefined && Math.abs(referenceMoveBps(before)) >= threshold;
+    const isAbove = Math.abs(moveBps) >= threshold;
+    if (isAbove === wasAbove) return;
+    alerts.push({
+      blockNumber,
+      level: isAbove ? "warn" : "info",
+      kind: "referenceMove",
+      message: isAbove
+        ? `Reference #${i + 1} is ${bpsToPercent(Math.abs(moveBps))} from the hook's cached price ` +
+          `(elevated threshold ${bpsToPercent(threshold)})`
+        : `Reference #${i + 1} is back within ${bpsToPercent(threshold)} of the hook's cached price`,
+      reference: i + 1,
+      moveBps,
+    });
+  });
+  return alerts;
+}
+
+function printAlert(ctx: Context, alert: WatchAlert) {
+  if (ctx.json) console.log(toJson(alert));
+  else console.log(`[block ${alert.blockNumber}] ${alert.level.toUpperCase()} ${alert.message}`);
+}
+
+/** `watch [poolId]`: poll for blocks and print alerts until interrupted */
+export async function watch(ctx: Context, poolIdArg: string | undefined, options: WatchOptions) {
+  const poolId = resolvePoolId(ctx.deployment, poolIdArg);
+  const seconds = Number(options.interval ?? 4);
+  if (!Number.isInteger(seconds) || seconds < 1) {
+    throw new Error(`--interval must be a whole number of seconds, got ${options.interval}`);
+  }
+
+  let previous = await ctx.hook.getSnapshot(poolId);
+  if (!previous.config) throw new Error(`Pool ${poolId} is not registered with the hook`);
+  if (!ctx.json) console.log(`Watching ${poolId} from block ${previous.blockNumber} (Ctrl-C to stop)`);
+  for (const alert of watchAlerts(null, previous, [])) printAlert(ctx, alert);
+
+  // Blocks are handled one at a time; a slow RPC delays alerts instead of reordering them
+  let queue = Promise.resolve();
+  const sync = async (head: bigint) => {
+    if (head <= previous.blockNumber) return;
+    const found = await ctx.hook.getEvents(poolId, previous.blockNumber + 1n, head);
+    const next = await ctx.hook.getSnapshot(poolId, head);
+    for (const alert of watchAlerts(previous, next, found)) printAlert(ctx, alert);
+    previous = next;
+  };
+
+  await new Promise<void>((resolve) => {
+    const unwatch = ctx.publicClient.watchBlockNumber({
+      pollingInterval: seconds * 1000,
+      onBlockNumber: (head) => {
+        queue = queue
+          .then(() => sync(head))
+          .catch((err) => console.error(`Block ${head}: ${(err as Error).message}`));
+      },
+      onError: (err) => console.error(err.message),
+    });
+    process.once("SIGINT", () => {
+      unwatch();
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,158 @@
+import { readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  createPublicClient,
+  defineChain,
+  http,
+  isHex,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import * as chains from "viem/chains";
+import {
+  CrossPoolOracleClient,
+  erc20Abi,
+  parseDeployment,
+  shortenAddress,
+  ZERO_ADDRESS,
+  type Deployment,
+  type PoolKey,
+} from "@crosspool/sdk";
+
+// What every command needs: the deployment file, a client for its chain and
+// the hook client on top. The deployment picks the chain and supplies the
+// default pool; --rpc-url (or RPC_URL) picks the node.
+
+export interface GlobalOptions {
+  /** Path to a deployments/*.json file */
+  deployment?: string;
+  rpcUrl?: string;
+  json: boolean;
+}
+
+export interface Context {
+  deployment: Deployment;
+  publicClient: PublicClient;
+  hook: CrossPoolOracleClient;
+  json: boolean;
+}
+
+export interface Token {
+  address: Address;
+  symbol: string;
+  decimals: number;
+}
+
+const DEFAULT_DEPLOYMENT = resolve(
+  dirname(fileURLToPath(import.meta.url)),
+  "../../deployments/sepolia.json"
+);
+
+/** Deployed at the same address on every chain viem knows and on Sepolia forks */
+const MULTICALL3: Address = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export function loadDeploymentFile(path: string): Deployment {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    throw new Error(`Could not read deployment ${path}: ${(err as Error).message}`);
+  }
+  return parseDeployment(raw);
+}
+
+/** viem's chain for the deployment, pointed at `rpcUrl` and with Multicall3 set */
+export function chainFor(deployment: Deployment, rpcUrl?: string): Chain {
+  const known = Object.values(chains).find((chain) => chain.id === deployment.chainId);
+  const base: Chain = known ?? {
+    id: deployment.chainId,
+    name: deployment.network,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: { default: { http: [] } },
+  };
+  const url = rpcUrl ?? base.rpcUrls.default.http[0];
+  if (!url) throw new Error(`No RPC URL for chain ${deployment.chainId}; pass --rpc-url`);
+  return defineChain({
+    ...base,
+    rpcUrls: { default: { http: [url] } },
+    contracts: { ...base.contracts, multicall3: base.contracts?.multicall3 ?? { address: MULTICALL3 } },
+  });
+}
+
+export function createContext(options: GlobalOptions): Context {
+  const deployment = loadDeploymentFile(
+    resolve(options.deployment ?? process.env.DEPLOYMENT ?? DEFAULT_DEPLOYMENT)
+  );
+  const chain = chainFor(deployment, options.rpcUrl ?? process.env.RPC_URL);
+  const publicClient = createPublicClient({ chain, transport: http() }) as PublicClient;
+  return {
+    deployment,
+    publicClient,
+    hook: CrossPoolOracleClient.fromDeployment(publicClient, deployment),
+    json: options.json,
+  };
+}
+
+/** The given PoolId, or the deployment's protected pool when omitted */
+export function resolvePoolId(deployment: Deployment, poolId?: string): Hex {
+  if (poolId === undefined) return deployment.protectedPool.id;
+  if (!isHex(poolId) || poolId.length !== 66) {
+    throw new Error(`Invalid PoolId ${poolId}: expected 32 bytes of hex`);
+  }
+  return poolId.toLowerCase() as Hex;
+}
+
+/** Pool key for a PoolId the deployment lists; undefined for other pools */
+export function poolKeyFor(deployment: Deployment, poolId: Hex): PoolKey | undefined {
+  return [deployment.protectedPool, ...deployment.referencePools].find(
+    (pool) => pool.id.toLowerCase() === poolId.toLowerCase()
+  )?.key;
+}
+
+/**
+ * Symbol and decimals for each currency. A token without symbol() is shown
+ * by its shortened address; one whose decimals() cannot be read throws,
+ * since any amount in it would be scaled wrongly.
+ */
+export async function readTokens(
+  client: PublicClient,
+  addresses: Address[]
+): Promise<Map<Address, Token>> {
+  const erc20s = addresses.filter((address) => address !== ZERO_ADDRESS);
+  const results = await client.multicall({
+    contracts: erc20s.flatMap((address) => [
+      { address, abi: erc20Abi, functionName: "symbol" } as const,
+      { address, abi: erc20Abi, functionName: "decimals" } as const,
+    ]),
+  });
+
+  const tokens = new Map<Address, Token>();
+  if (addresses.includes(ZERO_ADDRESS)) {
+    tokens.set(ZERO_ADDRESS, { address: ZERO_ADDRESS, symbol: "ETH", decimals: 18 });
+  }
+  erc20s.forEach((address, i) => {
+    const [symbol, decimals] = [results[2 * i], results[2 * i + 1]];
+    if (decimals.status !== "success") {
+      throw new Error(`Could not read decimals() of token ${address}`);
+    }
+    tokens.set(address, {
+      address,
+      symbol: symbol.status === "success" ? (symbol.result as string) : shortenAddress(address),
+      decimals: Number(decimals.result),
+    });
+  });
+  return tokens;
+}
+
+/** Both currencies of `key`; null when the deployment does not list the pool */
+export async function readPair(
+  client: PublicClient,
+  key: PoolKey | undefined
+): Promise<[Token, Token] | null> {
+  if (!key) return null;
+  const tokens = await readTokens(client, [key.currency0, key.currency1]);
+  return [tokens.get(key.currency0)!, tokens.get(key.currency1)!];
+}
@@ -0,0 +1,98 @@
+import { parseArgs } from "node:util";
+import { events } from "./commands/events";
+import { preview } from "./commands/preview";
+import { register } from "./commands/register";
+import { status } from "./commands/status";
+import { watch } from "./commands/watch";
+import { createContext } from "./context";
+
+const USAGE = `Usage: crosspool <command> [poolId] [options]
+
+Commands (poolId defaults to the deployment's protected pool):
+  status [poolId]        Pool price, registration, references and the hook's cached prices
+  preview [poolId]       Tier and fee the hook would charge for a swap
+      --amount <n>         Whole tokens in (or out with --exact-output)
+      --direction <d>      zeroForOne or oneForZero
+      --exact-output       Amount is the output
+      --decimals <n>       Token decimals, for pools not in the deployment file
+                           or tokens whose decimals() cannot be read
+  events [poolId]        Decoded DynamicFeeApplied / CircuitBreakerHit events
+      --from-block <n>     Default: the deployment's startBlock
+      --to-block <n>       Default: head
+  register               Register or update a pool as the hook owner (key in PRIVATE_KEY)
+      --config <file>      Registration JSON
+      --dry-run            Show the changes and call without sending
+  watch [poolId]         Stream alerts for new blocks until Ctrl-C
+      --interval <s>       Seconds between polls (default 4)
+
+Options:
+  --deployment <file>    deployments/*.json file (default: $DEPLOYMENT or deployments/sepolia.json)
+  --rpc-url <url>        Node to read from (default: $RPC_URL or the chain's public RPC)
+  --json                 Machine-readable output; watch prints one object per line
+  -h, --help             Show this help`;
+
+const COMMANDS = ["status", "preview", "events", "register", "watch"];
+
+function parseCommandLine() {
+  return parseArgs({
+    allowPositionals: true,
+    options: {
+      deployment: { type: "string" },
+      "rpc-url": { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+      amount: { type: "string" },
+      direction: { type: "string" },
+      "exact-output": { type: "boolean", default: false },
+      decimals: { type: "string" },
+      "from-block": { type: "string" },
+      "to-block": { type: "string" },
+      config: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      interval: { type: "string" },
+    },
+  });
+}
+
+async function run(): Promise<void> {
+  const { values, positionals } = parseCommandLine();
+  const [command, poolId, ...extra] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (!COMMANDS.includes(command)) throw new Error(`Unknown command ${command}\n\n${USAGE}`);
+  if (extra.length > 0 || (command === "register" && poolId !== undefined)) {
+    throw new Error(`Unexpected argument ${command === "register" ? poolId : extra[0]}`);
+  }
+
+  const ctx = createContext({
+    deployment: values.deployment,
+    rpcUrl: values["rpc-url"],
+    json: values.json,
+  });
+  switch (command) {
+    case "status":
+      return status(ctx, poolId);
+    case "preview":
+      return preview(ctx, poolId, {
+        amount: values.amount,
+        direction: values.direction,
+        exactOutput: values["exact-output"],
+        decimals: values.decimals,
+      });
+    case "events":
+      return events(ctx, poolId, { fromBlock: values["from-block"], toBlock: values["to-block"] });
+    case "register":
+      return register(ctx, { config: values.config, dryRun: values["dry-run"] });
+    case "watch":
+      return watch(ctx, poolId, { interval: values.interval });
+  }
+}
+
+try {
+  await run();
+} catch (err) {
+  console.error(`crosspool: ${(err as Error).message}`);
+  process.exitCode = 1;
+}
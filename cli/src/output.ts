@@ -0,0 +1,26 @@
+// Human and JSON output. JSON goes to stdout with bigints as decimal strings
+// so scripts can pipe it through jq without losing precision; watch prints
+// one object per line.
+
+export function toJson(value: unknown, indent?: number): string {
+  return JSON.stringify(
+    value,
+    (_, inner) => (typeof inner === "bigint" ? inner.toString() : inner),
+    indent
+  );
+}
+
+export function printJson(value: unknown) {
+  console.log(toJson(value, 2));
+}
+
+/** `label  value` rows with the values aligned, indented under a heading */
+export function formatRows(rows: [string, string][], indent = "  "): string {
+  const width = Math.max(0, ...rows.map(([label]) => label.length));
+  return rows.map(([label, value]) => `${indent}${label.padEnd(width)}  ${value}`).join("\n");
+}
+
+/** Signed percentage of a bps change, e.g. +1.25% */
+export function signedPercent(bps: number): string {
+  return `${bps >= 0 ? "+" : "-"}${(Math.abs(bps) / 100).toFixed(2)}%`;
+}
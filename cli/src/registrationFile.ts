@@ -0,0 +1,63 @@
+import {
+  asRecord,
+  detectReferenceDirection,
+  invalidField,
+  readNumber,
+  readPoolKey,
+  type Deployment,
+  type Registration,
+} from "@crosspool/sdk";
+
+// JSON config for `crosspool register`: the Registration shape, with the
+// protected pool defaulting to the deployment's and each reference's
+// zeroForOne inferred from the currency order when omitted.
+//
+//   {
+//     "references": [{ "key": { "currency0": "0x…", "currency1": "0x…",
+//                               "fee": 3000, "tickSpacing": 60, "hooks": "0x0…0" } }],
+//     "baseFee": 3000, "highImpactFee": 10000, "highImpactThresholdBps": 200,
+//     "circuitBreakerBps": 1000, "maxRefMoveBps": 10000, "aggregationMode": 1
+//   }
+
+const SOURCE = "Registration config";
+
+/**
+ * Parse a register config into a Registration. Only the shape is checked
+ * here; validateRegistration checks the values.
+ */
+export function parseRegistrationFile(value: unknown, deployment: Deployment): Registration {
+  const raw = asRecord(value);
+  if (!raw) throw new Error("Registration config must be a JSON object");
+  const protectedPoolKey =
+    raw.protectedPoolKey === undefined
+      ? deployment.protectedPool.key
+      : readPoolKey(SOURCE, "protectedPoolKey", raw.protectedPoolKey);
+  if (!Array.isArray(raw.references)) invalidField(SOURCE, "references");
+
+  const references = raw.references.map((entry: unknown, i) => {
+    const field = `references[${i}]`;
+    const ref = asRecord(entry) ?? invalidField(SOURCE, field);
+    const key = readPoolKey(SOURCE, `${field}.key`, ref.key);
+    if (ref.zeroForOne !== undefined && typeof ref.zeroForOne !== "boolean") {
+      invalidField(SOURCE, `${field}.zeroForOne`);
+    }
+    const zeroForOne = ref.zeroForOne ?? detectReferenceDirection(protectedPoolKey, key).zeroForOne;
+    if (zeroForOne === null) {
+      throw new Error(
+        `Registration config: ${field} shares no currency with the protected pool; set zeroForOne`
+      );
+    }
+    return { key, zeroForOne };
+  });
+
+  return {
+    protectedPoolKey,
+    references,
+    baseFee: readNumber(SOURCE, "baseFee", raw.baseFee),
+    highImpactFee: readNumber(SOURCE, "highImpactFee", raw.highImpactFee),
+    highImpactThresholdBps: readNumber(SOURCE, "highImpactThresholdBps", raw.highImpactThresholdBps),
+    circuitBreakerBps: readNumber(SOURCE, "circuitBreakerBps", raw.circuitBreakerBps),
+    maxRefMoveBps: readNumber(SOURCE, "maxRefMoveBps", raw.maxRefMoveBps),
+    aggregationMode: readNumber(SOURCE, "aggregationMode", raw.aggregationMode),
+  };
+}
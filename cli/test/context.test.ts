@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import type { Address, PublicClient } from "viem";
+import { ZERO_ADDRESS } from "@crosspool/sdk";
+import { readTokens } from "../src/context";
+
+const USDC = "0x1000000000000000000000000000000000000001" as Address;
+const BROKEN = "0x2000000000000000000000000000000000000002" as Address;
+
+/** Multicall answering symbol() and decimals() from a table; missing entries fail */
+function metadataClient(tokens: Record<Address, { symbol?: string; decimals?: number }>) {
+  return {
+    multicall: async ({ contracts }: { contracts: { address: Address; functionName: string }[] }) =>
+      contracts.map(({ address, functionName }) => {
+        const result = tokens[address]?.[functionName as "symbol" | "decimals"];
+        return result === undefined
+          ? { status: "failure", error: new Error("execution reverted") }
+          : { status: "success", result };
+      }),
+  } as unknown as PublicClient;
+}
+
+describe("readTokens", () => {
+  it("reads symbol and decimals, naming tokens without symbol() by address", async () => {
+    const client = metadataClient({
+      [USDC]: { symbol: "USDC", decimals: 6 },
+      [BROKEN]: { decimals: 18 },
+    });
+    const tokens = await readTokens(client, [ZERO_ADDRESS, USDC, BROKEN]);
+    expect(tokens.get(ZERO_ADDRESS)).toMatchObject({ symbol: "ETH", decimals: 18 });
+    expect(tokens.get(USDC)).toMatchObject({ symbol: "USDC", decimals: 6 });
+    expect(tokens.get(BROKEN)).toMatchObject({ symbol: "0x2000...0002", decimals: 18 });
+  });
+
+  it("fails instead of assuming 18 decimals", async () => {
+    const client = metadataClient({ [BROKEN]: { symbol: "BRK" } });
+    await expect(readTokens(client, [BROKEN])).rejects.toThrow(
+      `Could not read decimals() of token ${BROKEN}`
+    );
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseAmount, parseDirection } from "../src/commands/preview";
+import { toJson } from "../src/output";
+
+describe("parseDirection", () => {
+  it("accepts the hook's direction names", () => {
+    expect(parseDirection("zeroForOne")).toBe(true);
+    expect(parseDirection("oneForZero")).toBe(false);
+  });
+
+  it.each([undefined, "buy", "0for1"])("rejects %s", (value) => {
+    expect(() => parseDirection(value)).toThrow("--direction must be zeroForOne or oneForZero");
+  });
+});
+
+describe("parseAmount", () => {
+  it("scales whole tokens by the token's decimals", () => {
+    expect(parseAmount("1.5", 18)).toBe(1_500_000_000_000_000_000n);
+    expect(parseAmount("2500", 6)).toBe(2_500_000_000n);
+  });
+
+  it.each([
+    [undefined, "--amount is required"],
+    ["abc", "Invalid --amount abc"],
+    ["0", "--amount must be positive"],
+    ["-1", "--amount must be positive"],
+  ])("rejects %s", (value, message) => {
+    expect(() => parseAmount(value, 18)).toThrow(message);
+  });
+});
+
+describe("toJson", () => {
+  it("writes bigints as decimal strings", () => {
+    expect(toJson({ amount: 2n ** 128n, fee: 3000 })).toBe(
+      '{"amount":"340282366920938463463374607431768211456","fee":3000}'
+    );
+  });
+});
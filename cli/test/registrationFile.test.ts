@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import sepoliaDeployment from "../../deployments/sepolia.json";
+import { parseDeployment, validateRegistration, ZERO_ADDRESS } from "@crosspool/sdk";
+import { parseRegistrationFile } from "../src/registrationFile";
+
+const sepolia = parseDeployment(sepoliaDeployment);
+const reference = sepolia.referencePools[0].key;
+
+// The registration DeployCrossPoolOracle.s.sol makes, as a config file
+const config = {
+  references: [{ key: reference }],
+  baseFee: 3000,
+  highImpactFee: 10000,
+  highImpactThresholdBps: 200,
+  circuitBreakerBps: 1000,
+  maxRefMoveBps: 10000,
+  aggregationMode: 1,
+};
+
+describe("parseRegistrationFile", () => {
+  it("defaults to the deployment's protected pool and infers zeroForOne", () => {
+    const registration = parseRegistrationFile(config, sepolia);
+    expect(registration.protectedPoolKey).toEqual(sepolia.protectedPool.key);
+    expect(registration.references).toEqual([{ key: reference, zeroForOne: true }]);
+    expect(validateRegistration(registration, sepolia.addresses.hook)).toEqual([]);
+  });
+
+  it("keeps an explicit zeroForOne and checksums addresses", () => {
+    const lowercase = {
+      ...reference,
+      currency0: reference.currency0.toLowerCase(),
+      currency1: reference.currency1.toLowerCase(),
+    };
+    const registration = parseRegistrationFile(
+      { ...config, references: [{ key: lowercase, zeroForOne: false }] },
+      sepolia
+    );
+    expect(registration.references).toEqual([{ key: reference, zeroForOne: false }]);
+  });
+
+  it.each([
+    ["a missing fee field", { baseFee: undefined }, '"baseFee"'],
+    ["a fee given as a string", { highImpactFee: "10000" }, '"highImpactFee"'],
+    ["references that are not a list", { references: {} }, '"references"'],
+    ["a reference that is not an object", { references: ["0x12"] }, '"references[0]"'],
+    [
+      "a non-integer fee in a key",
+      { references: [{ key: { ...reference, fee: 0.5 } }] },
+      '"references[0].key.fee"',
+    ],
+    [
+      "a bad currency address",
+      { references: [{ key: { ...reference, currency0: "0x1234" } }] },
+      '"references[0].key.currency0"',
+    ],
+    [
+      "a non-boolean zeroForOne",
+      { references: [{ key: reference, zeroForOne: "yes" }] },
+      '"references[0].zeroForOne"',
+    ],
+  ])("rejects %s", (_, override, field) => {
+    expect(() => parseRegistrationFile({ ...config, ...override }, sepolia)).toThrow(field);
+  });
+
+  it("asks for zeroForOne when the reference shares no currency", () => {
+    const unrelated = {
+      ...reference,
+      currency0: "0x1000000000000000000000000000000000000001",
+      currency1: "0x1000000000000000000000000000000000000002",
+      hooks: ZERO_ADDRESS,
+    };
+    expect(() =>
+      parseRegistrationFile({ ...config, references: [{ key: unrelated }] }, sepolia)
+    ).toThrow("shares no currency with the protected pool; set zeroForOne");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import type { Hex } from "viem";
+import type { HookEvent, PoolConfig, PoolSnapshot } from "@crosspool/sdk";
+import { watchAlerts } from "../src/commands/watch";
+
+const Q96 = 1n << 96n;
+const POOL = `0x${"11".repeat(32)}` as Hex;
+const REF = `0x${"22".repeat(32)}` as Hex;
+
+const CONFIG: PoolConfig = {
+  referencePoolIds: [REF],
+  referenceZeroForOne: [true],
+  baseFee: 3000,
+  highImpactFee: 10000,
+  highImpactThresholdBps: 200,
+  circuitBreakerBps: 1000,
+  maxRefMoveBps: 10000,
+  aggregationMode: 1,
+};
+
+const state = { tick: 0, protocolFee: 0, lpFee: 0, liquidity: 10n ** 21n };
+
+/** Snapshot whose reference sits `sqrtMoveBps` (in sqrt terms) from its cached price */
+function snapshot(
+  blockNumber: bigint,
+  sqrtMoveBps: bigint,
+  config: PoolConfig = CONFIG
+): PoolSnapshot {
+  return {
+    blockNumber,
+    protectedPool: { id: POOL, sqrtPriceX96: Q96, ...state },
+    config,
+    references: [
+      {
+        id: REF,
+        sqrtPriceX96: (10000n + sqrtMoveBps) << 80n,
+        cachedSqrtPriceX96: 10000n << 80n,
+        zeroForOne: true,
+        ...state,
+      },
+    ],
+    pools: new Map(),
+  };
+}
+
+function feeEvent(fee: number): HookEvent {
+  return {
+    id: `0xabc-${fee}`,
+    type: "fee",
+    poolId: POOL,
+    fee,
+    impactBps: 250n,
+    blockNumber: 11n,
+    blockHash: "0x01",
+    txHash: "0xabc",
+    logIndex: 0,
+  };
+}
+
+describe("watchAlerts", () => {
+  it("reports every event, warning on fees above the base fee", () => {
+    const alerts = watchAlerts(snapshot(10n, 0n), snapshot(11n, 0n), [
+      feeEvent(3000),
+      feeEvent(10000),
+    ]);
+    expect(alerts.map((alert) => [alert.kind, alert.level])).toEqual([
+      ["event", "info"],
+      ["event", "warn"],
+    ]);
+    expect(alerts[1].message).toBe("DynamicFeeApplied fee 1.00% impact 2.50% in 0xabc");
+  });
+
+  it("alerts once when a reference crosses the elevated threshold and once when it is back", () => {
+    // A 150 bps sqrt move is a 300 bps price move, above the 200 bps threshold
+    expect(watchAlerts(snapshot(10n, 0n), snapshot(11n, 150n), [])).toMatchObject([
+      { kind: "referenceMove", level: "warn", reference: 1, moveBps: 300 },
+    ]);
+    expect(watchAlerts(snapshot(11n, 150n), snapshot(12n, 160n), [])).toEqual([]);
+    expect(watchAlerts(snapshot(12n, 160n), snapshot(13n, 0n), [])).toMatchObject([
+      { kind: "referenceMove", level: "info", reference: 1, moveBps: 0 },
+    ]);
+  });
+
+  it("counts a downward move the same way", () => {
+    expect(watchAlerts(null, snapshot(10n, -150n), [])).toMatchObject([
+      { kind: "referenceMove", level: "warn", moveBps: -300 },
+    ]);
+    expect(watchAlerts(null, snapshot(10n, 50n), [])).toEqual([]);
+  });
+
+  it("reports registration changes", () => {
+    const raised = { ...CONFIG, circuitBreakerBps: 2000 };
+    expect(watchAlerts(snapshot(10n, 0n), snapshot(11n, 0n, raised), [])).toMatchObject([
+      {
+        kind: "configChange",
+        level: "warn",
+        message: "Registration changed: circuitBreakerBps",
+        changes: [{ field: "circuitBreakerBps", from: "10.00%", to: "20.00%" }],
+      },
+    ]);
+  });
+});
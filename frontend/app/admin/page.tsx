@@ -0,0 +1,47 @@
+"use client";
+
+import Link from "next/link";
+import { useAccount } from "wagmi";
+import { ConnectButton } from "@/components/ConnectButton";
+import { AdminConsole, useIsHookOwner } from "@/components/AdminConsole";
+import { useDeployment } from "@/components/DeploymentProvider";
+import { usePoolSnapshot } from "@/components/PoolSnapshotProvider";
+import { shortenAddress } from "@crosspool/sdk";
+
+export default function AdminPage() {
+  const { isConnected } = useAccount();
+  const isOwner = useIsHookOwner();
+  const { addresses, network } = useDeployment();
+  const { snapshot } = usePoolSnapshot();
+
+  return (
+    <main className="max-w-3xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-bold">Hook admin</h1>
+          <p className="text-gray-400 text-sm">
+            Register pools on {shortenAddress(addresses.hook)} ({network})
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Link href="/" className="text-sm text-gray-400 hover:text-gray-200">
+            Back
+          </Link>
+          <ConnectButton />
+        </div>
+      </div>
+
+      {!isConnected ? (
+        <p className="text-gray-400 text-sm">Connect the hook owner&apos;s wallet.</p>
+      ) : !isOwner ? (
+        <p className="text-gray-400 text-sm">
+          The connected account is not the hook owner.
+        </p>
+      ) : !snapshot ? (
+        <p className="text-gray-400 text-sm">Loading the registered config...</p>
+      ) : (
+        <AdminConsole />
+      )}
+    </main>
+  );
+}
@@ -1,11 +1,23 @@
+"use client";
+
+import Link from "next/link";
 import { PoolCard } from "@/components/PoolCard";
 import { SwapPanel } from "@/components/SwapPanel";
 import { EventLog } from "@/components/EventLog";
 import { ConnectButton } from "@/components/ConnectButton";
 import { EnsPanel } from "@/components/EnsPanel";
-import { REFERENCE_POOL_ID, PROTECTED_POOL_ID } from "@/lib/contracts";
+import {
+  DeploymentSelector,
+  useDeployment,
+} from "@/components/DeploymentProvider";
+import { usePoolSnapshot } from "@/components/PoolSnapshotProvider";
+import { useIsHookOwner } from "@/components/AdminConsole";
 
 export default function Home() {
+  const deployment = useDeployment();
+  const { snapshot } = usePoolSnapshot();
+  const isOwner = useIsHookOwner();
+
   return (
     <main className="max-w-5xl mx-auto px-4 py-8">
       <div className="flex items-center justify-between mb-8">
@@ -15,7 +27,18 @@ export default function Home() {
             Cross-pool price oracle for manipulation protection
           </p>
         </div>
-        <ConnectButton />
+        <div className="flex items-center gap-2">
+          {isOwner && (
+            <Link
+              href="/admin"
+              className="px-3 py-2 text-sm text-gray-400 hover:text-gray-200"
+            >
+              Admin
+            </Link>
+          )}
+          <DeploymentSelector />
+          <ConnectButton />
+        </div>
       </div>
 
       {/* How it works */}
@@ -47,18 +70,21 @@ export default function Home() {
 
       {/* Pool cards */}
       <div className="grid md:grid-cols-2 gap-4 mb-6">
-        <PoolCard
-          title="Reference Pool"
-          poolId={REFERENCE_POOL_ID}
-          token0Symbol="USDC"
-          token1Symbol="WETH"
-          isProtected={false}
-        />
+        {deployment.referencePools.map((ref, i) => (
+          <PoolCard
+            key={ref.id}
+            title={
+              deployment.referencePools.length > 1
+                ? `Reference Pool #${i + 1}`
+                : "Reference Pool"
+            }
+            pool={ref}
+            isProtected={false}
+          />
+        ))}
         <PoolCard
           title="Protected Pool"
-          poolId={PROTECTED_POOL_ID}
-          token0Symbol="NEW"
-          token1Symbol="WETH"
+          pool={deployment.protectedPool}
           isProtected={true}
         />
       </div>
@@ -71,7 +97,8 @@ export default function Home() {
 
       {/* Footer */}
       <div className="mt-8 text-center text-xs text-gray-600">
-        Sepolia testnet | HackMoney 2026
+        <span className="capitalize">{deployment.network}</span> testnet |
+        {snapshot && <> Block {snapshot.blockNumber.toString()} |</>} HackMoney 2026
       </div>
     </main>
   );
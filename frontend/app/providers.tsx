@@ -3,13 +3,20 @@
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { WagmiProvider, createConfig, http } from "wagmi";
 import { mainnet, sepolia } from "wagmi/chains";
-import { injected } from "wagmi/connectors";
+import { injected, mock } from "wagmi/connectors";
 import { type ReactNode, useState } from "react";
+import { ANVIL_ACCOUNT, ANVIL_RPC, localChain } from "@/lib/localChain";
+import { DeploymentProvider } from "@/components/DeploymentProvider";
+import { TokenMetadataProvider } from "@/components/TokenMetadataProvider";
+import { PoolSnapshotProvider } from "@/components/PoolSnapshotProvider";
 
+// Local mode puts anvil first, so the mock connector starts on it with
+// anvil's funded account and no wallet extension is needed
 const config = createConfig({
-  chains: [sepolia, mainnet],
-  connectors: [injected()],
+  chains: ANVIL_RPC ? [localChain, sepolia, mainnet] : [sepolia, mainnet],
+  connectors: ANVIL_RPC ? [mock({ accounts: [ANVIL_ACCOUNT] }), injected()] : [injected()],
   transports: {
+    [localChain.id]: http(localChain.rpcUrls.default.http[0]),
     [mainnet.id]: http(
       process.env.NEXT_PUBLIC_MAINNET_RPC ||
         "https://ethereum-rpc.publicnode.com",
@@ -26,7 +33,13 @@ export function Providers({ children }: { children: ReactNode }) {
 
   return (
     <WagmiProvider config={config}>
-      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+      <QueryClientProvider client={queryClient}>
+        <DeploymentProvider>
+          <TokenMetadataProvider>
+            <PoolSnapshotProvider>{children}</PoolSnapshotProvider>
+          </TokenMetadataProvider>
+        </DeploymentProvider>
+      </QueryClientProvider>
     </WagmiProvider>
   );
 }
@@ -0,0 +1,453 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  useAccount,
+  useReadContract,
+  useWaitForTransactionReceipt,
+  useWriteContract,
+} from "wagmi";
+import { getAddress } from "viem";
+import {
+  AGGREGATION_MEDIAN,
+  bpsToPercent,
+  checkReferenceDirection,
+  decodePoolConfig,
+  detectReferenceDirection,
+  diffPoolConfig,
+  errorMessage,
+  feeToPercent,
+  hookAbi,
+  MAX_REFERENCES,
+  type PoolConfig,
+  type PoolKey,
+  type Registration,
+  registrationCall,
+  registrationConfig,
+  toPoolId,
+  validateRegistration,
+  ZERO_ADDRESS,
+} from "@crosspool/sdk";
+import { useDeployment } from "@/components/DeploymentProvider";
+import { usePoolSnapshot } from "@/components/PoolSnapshotProvider";
+import { ReferenceDiscoveryPanel } from "@/components/ReferenceDiscoveryPanel";
+import { useToken } from "@/components/TokenMetadataProvider";
+
+/** Whether the connected account is the hook's owner() */
+export function useIsHookOwner(): boolean {
+  const { address } = useAccount();
+  const { chainId, addresses } = useDeployment();
+  const { data: owner } = useReadContract({
+    address: addresses.hook,
+    abi: hookAbi,
+    functionName: "owner",
+    chainId,
+  });
+  return !!address && !!owner && owner.toLowerCase() === address.toLowerCase();
+}
+
+type KeyFields = Record<keyof PoolKey, string>;
+
+interface ReferenceFields extends KeyFields {
+  zeroForOne: boolean;
+}
+
+const PARAMS = [
+  ["baseFee", "Base fee", "hundredths of a bip"],
+  ["highImpactFee", "High impact fee", "hundredths of a bip"],
+  ["highImpactThresholdBps", "High impact threshold", "bps"],
+  ["circuitBreakerBps", "Circuit breaker", "bps"],
+  ["maxRefMoveBps", "Max reference move", "bps, 0 = uncapped"],
+] as const;
+
+type ParamName = (typeof PARAMS)[number][0];
+
+function keyFields(key: PoolKey): KeyFields {
+  return {
+    currency0: key.currency0,
+    currency1: key.currency1,
+    fee: String(key.fee),
+    tickSpacing: String(key.tickSpacing),
+    hooks: key.hooks,
+  };
+}
+
+/** Parse a key from the form; returns a message naming the bad field instead */
+function parseKey(fields: KeyFields, label: string): PoolKey | string {
+  const address = (name: "currency0" | "currency1" | "hooks") => {
+    try {
+      return getAddress(fields[name].trim());
+    } catch {
+      return null;
+    }
+  };
+  const currency0 = address("currency0");
+  const currency1 = address("currency1");
+  const hooks = address("hooks");
+  const fee = Number(fields.fee);
+  const tickSpacing = Number(fields.tickSpacing);
+  if (!currency0) return `${label}: currency0 is not an address`;
+  if (!currency1) return `${label}: currency1 is not an address`;
+  if (!hooks) return `${label}: hooks is not an address`;
+  if (fields.fee.trim() === "" || !Number.isInteger(fee)) return `${label}: fee is not an integer`;
+  if (fields.tickSpacing.trim() === "" || !Number.isInteger(tickSpacing)) {
+    return `${label}: tickSpacing is not an integer`;
+  }
+  return { currency0, currency1, fee, tickSpacing, hooks };
+}
+
+function KeyInputs({
+  fields,
+  onChange,
+}: {
+  fields: KeyFields;
+  onChange: (fields: KeyFields) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {(Object.keys(fields) as (keyof PoolKey)[]).map((name) => (
+        <label
+          key={name}
+          className={`text-xs text-gray-400 ${
+            name === "fee" || name === "tickSpacing" ? "" : "col-span-2"
+          }`}
+        >
+          {name}
+          <input
+            type="text"
+            value={fields[name]}
+            onChange={(e) => onChange({ ...fields, [name]: e.target.value })}
+            className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 font-mono text-xs"
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/** Direction inferred from the shared currency, with a button to apply it */
+function DirectionHint({
+  protectedKey,
+  referenceKey,
+  zeroForOne,
+  onApply,
+}: {
+  protectedKey: PoolKey;
+  referenceKey: PoolKey;
+  zeroForOne: boolean;
+  onApply: (zeroForOne: boolean) => void;
+}) {
+  const detected = detectReferenceDirection(protectedKey, referenceKey);
+  const shared = useToken(detected.sharedCurrency ?? ZERO_ADDRESS);
+  const mismatch = checkReferenceDirection(protectedKey, referenceKey, zeroForOne);
+
+  return (
+    <div className="text-xs space-y-0.5">
+      {detected.sharedCurrency && (
+        <p className="text-gray-500">
+          Shared currency {shared.symbol}: referenceZeroForOne should be{" "}
+          {String(detected.zeroForOne)}
+        </p>
+      )}
+      {detected.warnings.map((warning) => (
+        <p key={warning} className="text-yellow-400">
+          {warning}
+        </p>
+      ))}
+      {mismatch && (
+        <p className="text-red-400">
+          {mismatch}{" "}
+          <button
+            onClick={() => onApply(detected.zeroForOne!)}
+            className="underline hover:text-red-300"
+          >
+            Use {String(detected.zeroForOne)}
+          </button>
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Form for registerPool / registerPoolMultiRef. Prefilled from the deployment
+ * file and the registered config; shows the change against getPoolConfig
+ * before submitting.
+ */
+export function AdminConsole() {
+  const deployment = useDeployment();
+  const { chainId, addresses } = deployment;
+  const { snapshot, refetch } = usePoolSnapshot();
+  // Prefill from what is registered for the deployment's protected pool
+  const current = snapshot?.config ?? null;
+
+  const [protectedKey, setProtectedKey] = useState<KeyFields>(() =>
+    keyFields(deployment.protectedPool.key)
+  );
+  const [references, setReferences] = useState<ReferenceFields[]>(() =>
+    deployment.referencePools.map((ref) => ({
+      ...keyFields(ref.key),
+      zeroForOne:
+        current?.referenceZeroForOne[current.referencePoolIds.indexOf(ref.id)] ??
+        detectReferenceDirection(deployment.protectedPool.key, ref.key).zeroForOne ??
+        true,
+    }))
+  );
+  const [params, setParams] = useState<Record<ParamName, string>>(() => {
+    const c: Partial<PoolConfig> = current ?? {};
+    return {
+      baseFee: String(c.baseFee ?? 3000),
+      highImpactFee: String(c.highImpactFee ?? 10000),
+      highImpactThresholdBps: String(c.highImpactThresholdBps ?? 200),
+      circuitBreakerBps: String(c.circuitBreakerBps ?? 1000),
+      maxRefMoveBps: String(c.maxRefMoveBps ?? 10000),
+    };
+  });
+  const [aggregationMode, setAggregationMode] = useState(
+    String(current?.aggregationMode ?? AGGREGATION_MEDIAN)
+  );
+
+  const register = useWriteContract();
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash: register.data,
+  });
+
+  // Config currently registered for the pool in the form
+  const parsedProtectedKey = useMemo(() => {
+    const key = parseKey(protectedKey, "");
+    return typeof key === "string" ? null : key;
+  }, [protectedKey]);
+  const formProtectedId = parsedProtectedKey && toPoolId(parsedProtectedKey);
+  const { data: registeredResult, refetch: refetchRegistered } = useReadContract({
+    address: addresses.hook,
+    abi: hookAbi,
+    functionName: "getPoolConfig",
+    args: [formProtectedId!],
+    chainId,
+    query: { enabled: formProtectedId !== null },
+  });
+
+  // Show the new config once the registration is mined
+  useEffect(() => {
+    if (isSuccess) {
+      refetch();
+      refetchRegistered();
+    }
+    // refetch functions change identity on every render; only react to isSuccess
+  }, [isSuccess]);
+
+  // Parse the form, then validate the registration it describes
+  const { registration, problems } = useMemo(() => {
+    const parsed = [
+      parseKey(protectedKey, "Protected pool"),
+      ...references.map((ref, i) => parseKey(ref, `Reference #${i + 1}`)),
+    ];
+    const parseErrors = parsed.filter((p): p is string => typeof p === "string");
+    if (parseErrors.length > 0) return { registration: null, problems: parseErrors };
+
+    const [protectedPoolKey, ...referenceKeys] = parsed as PoolKey[];
+    const r: Registration = {
+      protectedPoolKey,
+      references: referenceKeys.map((key, i) => ({ key, zeroForOne: references[i].zeroForOne })),
+      baseFee: Number(params.baseFee),
+      highImpactFee: Number(params.highImpactFee),
+      highImpactThresholdBps: Number(params.highImpactThresholdBps),
+      circuitBreakerBps: Number(params.circuitBreakerBps),
+      maxRefMoveBps: Number(params.maxRefMoveBps),
+      aggregationMode: Number(aggregationMode),
+    };
+    return { registration: r, problems: validateRegistration(r, addresses.hook) };
+  }, [protectedKey, references, params, aggregationMode, addresses.hook]);
+
+  const registered = registeredResult ? decodePoolConfig(registeredResult) : null;
+  const changes =
+    registration && problems.length === 0
+      ? diffPoolConfig(registered, registrationConfig(registration))
+      : [];
+
+  function submit() {
+    if (!registration || problems.length > 0) return;
+    const call = registrationCall(registration);
+    // Branch so each call type-checks against its own function's args
+    if (call.functionName === "registerPool") {
+      register.writeContract({ address: addresses.hook, abi: hookAbi, ...call, chainId });
+    } else {
+      register.writeContract({ address: addresses.hook, abi: hookAbi, ...call, chainId });
+    }
+  }
+
+  function updateReference(i: number, next: ReferenceFields) {
+    setReferences((refs) => refs.map((ref, j) => (j === i ? next : ref)));
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-xl border border-gray-700 p-6 space-y-3">
+        <h2 className="text-lg font-semibold">Protected pool</h2>
+        <KeyInputs fields={protectedKey} onChange={setProtectedKey} />
+        {formProtectedId && (
+          <p className="text-xs text-gray-500 font-mono break-all">PoolId {formProtectedId}</p>
+        )}
+      </section>
+
+      <ReferenceDiscoveryPanel
+        protectedKey={parsedProtectedKey}
+        targetBps={Number(params.circuitBreakerBps)}
+        onUse={(recommended) =>
+          setReferences(
+            recommended.map((ref) => ({ ...keyFields(ref.key), zeroForOne: ref.zeroForOne }))
+          )
+        }
+      />
+
+      <section className="rounded-xl border border-gray-700 p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold">Reference pools</h2>
+          <button
+            onClick={() =>
+              setReferences((refs) => [
+                ...refs,
+                {
+                  ...keyFields({
+                    ...deployment.protectedPool.key,
+                    fee: 3000,
+                    hooks: ZERO_ADDRESS,
+                  }),
+                  zeroForOne: true,
+                },
+              ])
+            }
+            disabled={references.length >= MAX_REFERENCES}
+            className="px-2 py-1 rounded text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+          >
+            Add reference
+          </button>
+        </div>
+        {references.map((ref, i) => {
+          const key = registration?.references[i]?.key;
+          return (
+            <div key={i} className="space-y-2 border-t border-gray-800 pt-3">
+              <div className="flex justify-between items-center text-sm">
+                <span>Reference #{i + 1}</span>
+                <span className="flex gap-3 items-center text-xs">
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={ref.zeroForOne}
+                      onChange={(e) => updateReference(i, { ...ref, zeroForOne: e.target.checked })}
+                    />
+                    referenceZeroForOne
+                  </label>
+                  <button
+                    onClick={() => setReferences((refs) => refs.filter((_, j) => j !== i))}
+                    className="text-gray-500 hover:text-red-400"
+                  >
+                    Remove
+                  </button>
+                </span>
+              </div>
+              <KeyInputs fields={ref} onChange={(fields) => updateReference(i, { ...ref, ...fields })} />
+              {key && (
+                <p className="text-xs text-gray-500 font-mono break-all">PoolId {toPoolId(key)}</p>
+              )}
+              {key && registration && (
+                <DirectionHint
+                  protectedKey={registration.protectedPoolKey}
+                  referenceKey={key}
+                  zeroForOne={ref.zeroForOne}
+                  onApply={(zeroForOne) => updateReference(i, { ...ref, zeroForOne })}
+                />
+              )}
+            </div>
+          );
+        })}
+      </section>
+
+      <section className="rounded-xl border border-gray-700 p-6 space-y-3">
+        <h2 className="text-lg font-semibold">Parameters</h2>
+        <div className="grid grid-cols-2 gap-3">
+          {PARAMS.map(([name, label, unit]) => {
+            const value = Number(params[name]);
+            return (
+              <label key={name} className="text-xs text-gray-400">
+                {label} <span className="text-gray-600">({unit})</span>
+                <input
+                  type="text"
+                  value={params[name]}
+                  onChange={(e) => setParams((p) => ({ ...p, [name]: e.target.value }))}
+                  className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 font-mono text-xs"
+                />
+                {Number.isFinite(value) && (
+                  <span className="text-gray-600">
+                    = {name.endsWith("Fee") ? feeToPercent(value) : bpsToPercent(value)}
+                  </span>
+                )}
+              </label>
+            );
+          })}
+          <label className="text-xs text-gray-400">
+            Aggregation mode
+            <select
+              value={aggregationMode}
+              onChange={(e) => setAggregationMode(e.target.value)}
+              className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs"
+            >
+              <option value="0">0 = max</option>
+              <option value="1">1 = median</option>
+            </select>
+          </label>
+        </div>
+      </section>
+
+      <section className="rounded-xl border border-gray-700 p-6 space-y-3">
+        <h2 className="text-lg font-semibold">Review</h2>
+        {problems.length > 0 ? (
+          <ul className="text-sm text-red-400 list-disc pl-5 space-y-1">
+            {problems.map((problem) => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-gray-400">Matches the registered config; nothing to change.</p>
+        ) : (
+          <table className="w-full text-xs font-mono">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="text-left font-normal">Field</th>
+                <th className="text-left font-normal">Registered</th>
+                <th className="text-left font-normal">New</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map((change) => (
+                <tr key={change.field} className="align-top">
+                  <td className="pr-2 text-gray-400">{change.field}</td>
+                  <td className="pr-2 text-red-400 break-all">{change.from ?? "-"}</td>
+                  <td className="text-green-400 break-all">{change.to ?? "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <button
+          onClick={submit}
+          disabled={problems.length > 0 || changes.length === 0 || register.isPending || isConfirming}
+          className="w-full px-3 py-2 rounded text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50"
+        >
+          {register.isPending
+            ? "Confirm in wallet..."
+            : isConfirming
+            ? "Waiting for confirmation..."
+            : references.length === 1
+            ? "Submit registerPool"
+            : "Submit registerPoolMultiRef"}
+        </button>
+        {isSuccess && <p className="text-sm text-green-400">Registration confirmed.</p>}
+        {register.error && (
+          <p className="text-sm text-red-400 break-words">{errorMessage(register.error)}</p>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useAccount, useConnect, useDisconnect } from "wagmi";
-import { shortenAddress } from "@/lib/utils";
+import { shortenAddress } from "@crosspool/sdk";
 
 export function ConnectButton() {
   const { address, isConnected } = useAccount();
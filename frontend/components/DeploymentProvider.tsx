@@ -0,0 +1,64 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useState,
+  type ReactNode,
+} from "react";
+import type { Deployment } from "@crosspool/sdk";
+import { DEPLOYMENTS, DEFAULT_CHAIN_ID } from "@/lib/deployments";
+
+interface DeploymentContextValue {
+  deployment: Deployment;
+  selectDeployment: (chainId: number) => void;
+}
+
+const DeploymentContext = createContext<DeploymentContextValue | null>(null);
+
+export function DeploymentProvider({ children }: { children: ReactNode }) {
+  const [chainId, setChainId] = useState(() =>
+    DEPLOYMENTS.has(DEFAULT_CHAIN_ID)
+      ? DEFAULT_CHAIN_ID
+      : DEPLOYMENTS.keys().next().value!
+  );
+
+  const deployment = DEPLOYMENTS.get(chainId)!;
+
+  function selectDeployment(next: number) {
+    if (DEPLOYMENTS.has(next)) setChainId(next);
+  }
+
+  return (
+    <DeploymentContext.Provider value={{ deployment, selectDeployment }}>
+      {children}
+    </DeploymentContext.Provider>
+  );
+}
+
+/** The deployment the UI is currently pointed at */
+export function useDeployment(): Deployment {
+  const ctx = useContext(DeploymentContext);
+  if (!ctx) throw new Error("useDeployment must be used within DeploymentProvider");
+  return ctx.deployment;
+}
+
+/** Dropdown for switching deployments; hidden when only one is configured */
+export function DeploymentSelector() {
+  const ctx = useContext(DeploymentContext);
+  if (!ctx || DEPLOYMENTS.size < 2) return null;
+
+  return (
+    <select
+      value={ctx.deployment.chainId}
+      onChange={(e) => ctx.selectDeployment(Number(e.target.value))}
+      className="bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+    >
+      {Array.from(DEPLOYMENTS.values()).map((d) => (
+        <option key={d.chainId} value={d.chainId}>
+          {d.network}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -5,7 +5,7 @@ import { useAccount, useEnsAddress, useEnsName } from "wagmi";
 import { mainnet } from "wagmi/chains";
 import { isAddress } from "viem";
 import { normalize } from "viem/ens";
-import { shortenAddress } from "@/lib/utils";
+import { shortenAddress } from "@crosspool/sdk";
 
 function normalizeEnsName(value: string) {
   try {
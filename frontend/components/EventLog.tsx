@@ -1,216 +1,271 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { usePublicClient } from "wagmi";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useChains, usePublicClient } from "wagmi";
 import { mainnet } from "wagmi/chains";
-import { parseAbiItem, type Hex } from "viem";
-import { ADDRESSES, PROTECTED_POOL_ID } from "@/lib/contracts";
-import { bpsToPercent, feeToPercent } from "@/lib/utils";
-
-interface LogEntry {
-  id: string;
-  type: "fee" | "breaker";
-  fee?: number;
-  impactBps: bigint;
-  refMoveBps?: bigint;
-  txHash: Hex;
-  blockNumber: bigint;
-  sender?: Hex;
-}
+import type { Hex } from "viem";
+import {
+  bpsToPercent,
+  emptyIndexerState,
+  errorMessage,
+  feeToPercent,
+  type IndexerState,
+  syncHookEvents,
+} from "@crosspool/sdk";
+import {
+  eventStoreKey,
+  loadIndexerState,
+  saveIndexerState,
+} from "@/lib/eventStore";
+import { useDeployment } from "@/components/DeploymentProvider";
 
-const feeEvent = parseAbiItem(
-  "event DynamicFeeApplied(bytes32 indexed poolId, uint24 fee, uint256 impactBps)"
-);
-const breakerEvent = parseAbiItem(
-  "event CircuitBreakerHit(bytes32 indexed poolId, uint256 impactBps, uint256 refPriceChangeBps)"
-);
+const MAX_SHOWN = 200;
+/** Senders are looked up (and ENS-resolved) for this many of the newest events */
+const MAX_SENDER_LOOKUPS = 50;
 
-export function EventLog() {
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [ensByAddress, setEnsByAddress] = useState<Record<string, string>>({});
-  const client = usePublicClient();
-  const ensClient = usePublicClient({ chainId: mainnet.id });
+/**
+ * Indexed hook events for the protected pool: resumes from IndexedDB,
+ * backfills from the deployment block and re-syncs on every new block.
+ */
+function useHookEvents() {
+  const { chainId, addresses, protectedPool, startBlock } = useDeployment();
+  const client = usePublicClient({ chainId });
+  const [state, setState] = useState<IndexerState>(emptyIndexerState);
+  const [head, setHead] = useState<bigint | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!client) return;
 
-    let cancelled = false;
+    const source = { hook: addresses.hook, poolId: protectedPool.id, startBlock };
+    const key = eventStoreKey(chainId, addresses.hook, protectedPool.id);
+    const abort = new AbortController();
+    let current = emptyIndexerState();
+    let running = false;
+    let pending = false;
+
+    setState(current);
+    setError(null);
 
-    async function fetchLogs() {
-      if (!client || cancelled) return;
+    function persist(next: IndexerState) {
+      current = next;
+      setState(next);
+      saveIndexerState(key, next).catch((e) =>
+        setError(`Could not save event history: ${errorMessage(e)}`)
+      );
+    }
 
+    async function sync() {
+      if (!client || abort.signal.aborted) return;
+      if (running) {
+        pending = true;
+        return;
+      }
+      running = true;
       try {
-        const currentBlock = await client.getBlockNumber();
-        // Look back ~1000 blocks
-        const fromBlock = currentBlock > 1000n ? currentBlock - 1000n : 0n;
-
-        const [feeLogs, breakerLogs] = await Promise.all([
-          client.getLogs({
-            address: ADDRESSES.hook,
-            event: feeEvent,
-            args: { poolId: PROTECTED_POOL_ID },
-            fromBlock,
-            toBlock: currentBlock,
-          }),
-          client.getLogs({
-            address: ADDRESSES.hook,
-            event: breakerEvent,
-            args: { poolId: PROTECTED_POOL_ID },
-            fromBlock,
-            toBlock: currentBlock,
-          }),
-        ]);
-
-        if (cancelled) return;
-
-        const entries: LogEntry[] = [
-          ...feeLogs.map((log) => ({
-            id: `${log.transactionHash}-${log.logIndex}`,
-            type: "fee" as const,
-            fee: Number(log.args.fee ?? 0),
-            impactBps: log.args.impactBps ?? 0n,
-            txHash: log.transactionHash as Hex,
-            blockNumber: log.blockNumber,
-          })),
-          ...breakerLogs.map((log) => ({
-            id: `${log.transactionHash}-${log.logIndex}`,
-            type: "breaker" as const,
-            impactBps: log.args.impactBps ?? 0n,
-            refMoveBps: log.args.refPriceChangeBps ?? 0n,
-            txHash: log.transactionHash as Hex,
-            blockNumber: log.blockNumber,
-          })),
-        ];
-
-        entries.sort((a, b) => Number(b.blockNumber - a.blockNumber));
-        const sliced = entries.slice(0, 50);
-
-        // Fetch senders for unique transactions
-        const uniqueTx = Array.from(new Set(sliced.map((entry) => entry.txHash)));
-        const txs = await Promise.all(
-          uniqueTx.map((hash) =>
-            client
-              .getTransaction({ hash: hash as `0x${string}` })
-              .then((tx) => ({ hash, from: tx.from }))
-              .catch(() => ({ hash, from: undefined }))
-          )
+        persist(
+          await syncHookEvents(client, source, current, persist, abort.signal)
         );
-
-        const senderByTx: Record<string, Hex> = {};
-        const senders = new Set<string>();
-        for (const tx of txs) {
-          if (tx.from) {
-            senderByTx[tx.hash] = tx.from;
-            senders.add(tx.from.toLowerCase());
-          }
-        }
-
-        const withSenders = sliced.map((entry) => ({
-          ...entry,
-          sender: senderByTx[entry.txHash],
-        }));
-
-        // Resolve ENS names on mainnet
-        if (ensClient) {
-          const missing = Array.from(senders).filter(
-            (addr) => !ensByAddress[addr]
-          );
-          if (missing.length > 0) {
-            const resolved = await Promise.all(
-              missing.map((addr) =>
-                ensClient
-                  .getEnsName({ address: addr as `0x${string}` })
-                  .then((name) => ({ addr, name }))
-                  .catch(() => ({ addr, name: null }))
-              )
-            );
-            if (!cancelled) {
-              setEnsByAddress((prev) => {
-                const next = { ...prev };
-                for (const item of resolved) {
-                  if (item.name) next[item.addr] = item.name;
-                }
-                return next;
-              });
-            }
-          }
-        }
-
-        setLogs(withSenders);
-      } catch {
-        // RPC may not support large ranges; silently ignore
+        setError(null);
+      } catch (e) {
+        if (!abort.signal.aborted) setError(errorMessage(e));
+      } finally {
+        running = false;
+      }
+      if (pending) {
+        pending = false;
+        sync();
       }
     }
 
-    fetchLogs();
-    const interval = setInterval(fetchLogs, 15000);
+    let unwatch: (() => void) | undefined;
+    loadIndexerState(key)
+      .catch((e) => {
+        setError(`Could not load saved event history: ${errorMessage(e)}`);
+        return null;
+      })
+      .then((stored) => {
+        if (abort.signal.aborted) return;
+        if (stored) {
+          current = stored;
+          setState(stored);
+        }
+        unwatch = client.watchBlockNumber({
+          emitOnBegin: true,
+          onBlockNumber: (blockNumber) => {
+            setHead(blockNumber);
+            sync();
+          },
+          onError: (e) => setError(errorMessage(e)),
+        });
+      });
 
     return () => {
-      cancelled = true;
-      clearInterval(interval);
+      abort.abort();
+      unwatch?.();
     };
-  }, [client, ensClient, ensByAddress]);
+  }, [client, chainId, addresses.hook, protectedPool.id, startBlock]);
+
+  return { ...state, head, startBlock, error };
+}
+
+export function EventLog() {
+  const { chainId } = useDeployment();
+  const client = usePublicClient({ chainId });
+  const explorerUrl = useChains().find((chain) => chain.id === chainId)
+    ?.blockExplorers?.default.url;
+  const ensClient = usePublicClient({ chainId: mainnet.id });
+  const { events, syncedBlock, head, startBlock, error } = useHookEvents();
+  const [senderByTx, setSenderByTx] = useState<Record<string, Hex>>({});
+  const [ensByAddress, setEnsByAddress] = useState<Record<string, string>>({});
+
+  // Newest first
+  const shown = useMemo(() => events.slice(-MAX_SHOWN).reverse(), [events]);
+
+  // Look up each transaction's sender, and each sender's ENS name, once
+  const requestedTxs = useRef(new Set<string>());
+  const requestedNames = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!client) return;
+    const missing = Array.from(
+      new Set(shown.slice(0, MAX_SENDER_LOOKUPS).map((event) => event.txHash))
+    ).filter((hash) => !requestedTxs.current.has(hash));
+    if (missing.length === 0) return;
+    missing.forEach((hash) => requestedTxs.current.add(hash));
+
+    Promise.all(
+      missing.map((hash) =>
+        client
+          .getTransaction({ hash })
+          .then((tx) => ({ hash, from: tx.from }))
+          .catch(() => ({ hash, from: undefined }))
+      )
+    ).then((txs) =>
+      setSenderByTx((prev) => {
+        const next = { ...prev };
+        for (const tx of txs) if (tx.from) next[tx.hash] = tx.from;
+        return next;
+      })
+    );
+  }, [client, shown]);
+
+  // Resolve ENS names on mainnet
+  useEffect(() => {
+    if (!ensClient) return;
+    const missing = Array.from(
+      new Set(Object.values(senderByTx).map((addr) => addr.toLowerCase()))
+    ).filter((addr) => !requestedNames.current.has(addr));
+    if (missing.length === 0) return;
+    missing.forEach((addr) => requestedNames.current.add(addr));
+
+    Promise.all(
+      missing.map((addr) =>
+        ensClient
+          .getEnsName({ address: addr as `0x${string}` })
+          .then((name) => ({ addr, name }))
+          .catch(() => ({ addr, name: null }))
+      )
+    ).then((resolved) =>
+      setEnsByAddress((prev) => {
+        const next = { ...prev };
+        for (const item of resolved) {
+          if (item.name) next[item.addr] = item.name;
+        }
+        return next;
+      })
+    );
+  }, [ensClient, senderByTx]);
+
+  const backfilling = head !== null && (syncedBlock ?? startBlock - 1n) < head - 1n;
+  const progress =
+    backfilling && head! > startBlock
+      ? Number((((syncedBlock ?? startBlock) - startBlock) * 100n) / (head! - startBlock))
+      : 100;
 
   return (
     <div className="rounded-xl border border-gray-700 p-6">
-      <h2 className="text-lg font-semibold mb-4">Hook Events</h2>
-      {logs.length === 0 ? (
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-lg font-semibold">Hook Events</h2>
+        <span className="text-xs text-gray-500">
+          {syncedBlock === null
+            ? "Loading history..."
+            : backfilling
+            ? `Backfilling ${progress}% (block ${syncedBlock.toString()})`
+            : `${events.length} events | synced to ${syncedBlock.toString()}`}
+        </span>
+      </div>
+      {error && (
+        <p className="text-xs text-red-400 break-all mb-2">
+          Event sync failed: {error}. Retrying on the next block.
+        </p>
+      )}
+      {shown.length === 0 ? (
         <p className="text-gray-500 text-sm">
-          No recent events. Swap on the protected pool to generate events.
+          No events since block {startBlock.toString()}. Swap on the protected
+          pool to generate events.
         </p>
       ) : (
         <div className="space-y-2 max-h-64 overflow-y-auto">
-          {logs.map((log) => (
-            <div
-              key={log.id}
-              className={`text-sm px-3 py-2 rounded ${
-                log.type === "breaker"
-                  ? "bg-red-900/30 border border-red-700/50"
-                  : "bg-gray-800/50 border border-gray-700/50"
-              }`}
-            >
-              {log.type === "fee" ? (
-                <span>
-                  Fee:{" "}
-                  <span className="font-mono text-yellow-400">
-                    {feeToPercent(log.fee!)}
-                  </span>{" "}
-                  | Impact:{" "}
-                  <span className="font-mono">
-                    {bpsToPercent(log.impactBps)}
-                  </span>
-                </span>
-              ) : (
-                <span className="text-red-400">
-                  CIRCUIT BREAKER | Impact:{" "}
-                  <span className="font-mono">
-                    {bpsToPercent(log.impactBps)}
+          {shown.map((log) => {
+            const sender = senderByTx[log.txHash];
+            return (
+              <div
+                key={log.id}
+                className={`text-sm px-3 py-2 rounded ${
+                  log.type === "breaker"
+                    ? "bg-red-900/30 border border-red-700/50"
+                    : "bg-gray-800/50 border border-gray-700/50"
+                }`}
+              >
+                {log.type === "fee" ? (
+                  <span>
+                    Fee:{" "}
+                    <span className="font-mono text-yellow-400">
+                      {feeToPercent(log.fee!)}
+                    </span>{" "}
+                    | Impact:{" "}
+                    <span className="font-mono">
+                      {bpsToPercent(log.impactBps)}
+                    </span>
                   </span>
-                  {" "} | Ref move:{" "}
-                  <span className="font-mono">
-                    {bpsToPercent(log.refMoveBps ?? 0n)}
+                ) : (
+                  <span className="text-red-400">
+                    CIRCUIT BREAKER | Impact:{" "}
+                    <span className="font-mono">
+                      {bpsToPercent(log.impactBps)}
+                    </span>
+                    {" "} | Ref move:{" "}
+                    <span className="font-mono">
+                      {bpsToPercent(log.refPriceChangeBps ?? 0n)}
+                    </span>
                   </span>
-                </span>
-              )}
-              {log.sender && (
-                <span className="ml-2 text-xs text-gray-500">
-                  Sender:{" "}
-                  <span className="font-mono">
-                    {ensByAddress[log.sender.toLowerCase()] ??
-                      `${log.sender.slice(0, 6)}…${log.sender.slice(-4)}`}
+                )}
+                {sender && (
+                  <span className="ml-2 text-xs text-gray-500">
+                    Sender:{" "}
+                    <span className="font-mono">
+                      {ensByAddress[sender.toLowerCase()] ??
+                        `${sender.slice(0, 6)}…${sender.slice(-4)}`}
+                    </span>
                   </span>
-                </span>
-              )}
-              <a
-                href={`https://sepolia.etherscan.io/tx/${log.txHash}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-gray-500 ml-2 text-xs hover:text-gray-300"
-              >
-                block {log.blockNumber.toString()}
-              </a>
-            </div>
-          ))}
+                )}
+                <a
+                  href={explorerUrl ? `${explorerUrl}/tx/${log.txHash}` : undefined}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-gray-500 ml-2 text-xs hover:text-gray-300"
+                >
+                  block {log.blockNumber.toString()}
+                </a>
+              </div>
+            );
+          })}
+          {events.length > shown.length && (
+            <p className="text-xs text-gray-500">
+              Showing the latest {shown.length} of {events.length} events
+            </p>
+          )}
         </div>
       )}
     </div>
@@ -1,68 +1,57 @@
 "use client";
 
-import { useReadContract } from "wagmi";
-import { sepolia } from "wagmi/chains";
+import { useState } from "react";
+import { useDeployment } from "@/components/DeploymentProvider";
+import { useToken } from "@/components/TokenMetadataProvider";
+import { usePoolSnapshot } from "@/components/PoolSnapshotProvider";
+import { pairStatus } from "@/lib/tokens";
 import {
-  ADDRESSES,
-  poolManagerAbi,
-  hookAbi,
-} from "@/lib/contracts";
-import {
-  parseSlot0,
-  sqrtPriceToPrice,
-  formatPrice,
+  aggregationLabel,
   bpsToPercent,
+  checkReferenceDirection,
   feeToPercent,
-  getSlot0StorageSlot,
-} from "@/lib/utils";
+  formatPrice,
+  invertPrice,
+  type PoolKey,
+  priceFromSqrtPriceX96,
+  shortenAddress,
+  ZERO_ADDRESS,
+} from "@crosspool/sdk";
 import type { Hex } from "viem";
 
 interface PoolCardProps {
   title: string;
-  poolId: Hex;
-  token0Symbol: string;
-  token1Symbol: string;
+  pool: { key: PoolKey; id: Hex };
   isProtected: boolean;
 }
 
-export function PoolCard({
-  title,
-  poolId,
-  token0Symbol,
-  token1Symbol,
-  isProtected,
-}: PoolCardProps) {
-  const slot = getSlot0StorageSlot(poolId);
-
-  const { data: slot0Data, isError: slot0Error } = useReadContract({
-    address: ADDRESSES.poolManager,
-    abi: poolManagerAbi,
-    functionName: "extsload",
-    args: [slot],
-    chainId: sepolia.id,
-    query: { refetchInterval: 10000 },
-  });
-
-  const { data: configData } = useReadContract({
-    address: ADDRESSES.hook,
-    abi: hookAbi,
-    functionName: "poolConfigs",
-    args: [poolId],
-    chainId: sepolia.id,
-    query: { enabled: isProtected },
-  });
+export function PoolCard({ title, pool, isProtected }: PoolCardProps) {
+  const [inverted, setInverted] = useState(false);
+  const { referencePools } = useDeployment();
+  const poolId = pool.id;
+  const token0 = useToken(pool.key.currency0);
+  const token1 = useToken(pool.key.currency1);
+  const { snapshot, isError: slot0Error } = usePoolSnapshot();
 
-  const { data: lastRefPrice } = useReadContract({
-    address: ADDRESSES.hook,
-    abi: hookAbi,
-    functionName: "lastReferenceSqrtPrice",
-    args: [poolId],
-    chainId: sepolia.id,
-    query: { enabled: isProtected, refetchInterval: 10000 },
-  });
+  const slot0 = snapshot?.pools.get(poolId) ?? null;
+  const config = isProtected ? snapshot?.config ?? null : null;
+  const references = (config ? snapshot!.references : []).map((ref) => ({
+    id: ref.id,
+    poolKey: referencePools.find((known) => known.id === ref.id)?.key,
+    zeroForOne: ref.zeroForOne,
+    sqrtPriceX96: ref.sqrtPriceX96,
+    cachedSqrtPriceX96: ref.cachedSqrtPriceX96,
+  }));
 
-  const slot0 = slot0Data ? parseSlot0(slot0Data) : null;
-  const price = slot0 ? sqrtPriceToPrice(slot0.sqrtPriceX96) : null;
+  // Prices are only scaled once both tokens' decimals are known
+  const metadata = pairStatus(token0, token1);
+  const price =
+    slot0 && metadata === "loaded"
+      ? priceFromSqrtPriceX96(slot0.sqrtPriceX96, token0.decimals, token1.decimals)
+      : null;
+  const [baseSymbol, quoteSymbol] = inverted
+    ? [token1.symbol, token0.symbol]
+    : [token0.symbol, token1.symbol];
 
   return (
     <div
@@ -74,16 +63,39 @@ export function PoolCard({
     >
       <h2 className="text-lg font-semibold mb-1">{title}</h2>
       <p className="text-sm text-gray-400 mb-4">
-        {token0Symbol} / {token1Symbol}
+        {token0.symbol} / {token1.symbol}
       </p>
 
       {slot0 ? (
         <div className="space-y-3">
           <div>
-            <span className="text-sm text-gray-400">Price</span>
-            <p className="text-2xl font-mono">
-              {formatPrice(price!)} {token1Symbol}/{token0Symbol}
-            </p>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-400">Price</span>
+              <button
+                onClick={() => setInverted((v) => !v)}
+                className="text-xs text-gray-500 hover:text-gray-300"
+                title="Invert price"
+              >
+                ⇄
+              </button>
+            </div>
+            {price ? (
+              <p className="text-2xl font-mono">
+                {formatPrice(inverted ? invertPrice(price) : price)}{" "}
+                {quoteSymbol}/{baseSymbol}
+              </p>
+            ) : metadata === "failed" ? (
+              <p className="text-sm text-red-400">
+                Could not read decimals for{" "}
+                {[token0, token1]
+                  .filter((token) => token.status === "failed")
+                  .map((token) => token.symbol)
+                  .join(" and ")}
+                ; price unavailable
+              </p>
+            ) : (
+              <p className="text-2xl font-mono text-gray-500">...</p>
+            )}
           </div>
           <div className="flex gap-6 text-sm">
             <div>
@@ -102,7 +114,7 @@ export function PoolCard({
         <p className="text-gray-500">Loading...</p>
       )}
 
-      {isProtected && configData && (
+      {isProtected && config && (
         <div className="mt-4 pt-4 border-t border-gray-700/50">
           <h3 className="text-sm font-semibold text-orange-400 mb-2">
             Hook Protection
@@ -110,37 +122,116 @@ export function PoolCard({
           <div className="grid grid-cols-2 gap-2 text-sm">
             <div>
               <span className="text-gray-400">Base Fee</span>
-              <p className="font-mono">
-                {feeToPercent(Number(configData[2]))}
-              </p>
+              <p className="font-mono">{feeToPercent(config.baseFee)}</p>
             </div>
             <div>
               <span className="text-gray-400">High Impact Fee</span>
-              <p className="font-mono">
-                {feeToPercent(Number(configData[3]))}
-              </p>
+              <p className="font-mono">{feeToPercent(config.highImpactFee)}</p>
             </div>
             <div>
               <span className="text-gray-400">Elevated Threshold</span>
-              <p className="font-mono">{bpsToPercent(configData[4])}</p>
+              <p className="font-mono">
+                {bpsToPercent(config.highImpactThresholdBps)}
+              </p>
             </div>
             <div>
               <span className="text-gray-400">Circuit Breaker</span>
-              <p className="font-mono">{bpsToPercent(configData[5])}</p>
+              <p className="font-mono">{bpsToPercent(config.circuitBreakerBps)}</p>
             </div>
-          </div>
-          {lastRefPrice !== undefined && (
-            <div className="mt-2">
-              <span className="text-gray-400 text-sm">
-                Cached Ref sqrtPrice
-              </span>
-              <p className="font-mono text-xs truncate">
-                {lastRefPrice.toString()}
+            <div>
+              <span className="text-gray-400">Ref Move Cap</span>
+              <p className="font-mono">
+                {config.maxRefMoveBps === 0
+                  ? "Uncapped"
+                  : bpsToPercent(config.maxRefMoveBps)}
               </p>
             </div>
-          )}
+            <div>
+              <span className="text-gray-400">Aggregation</span>
+              <p className="font-mono">
+                {aggregationLabel(config.aggregationMode)}
+              </p>
+            </div>
+          </div>
+
+          <h4 className="text-sm text-gray-400 mt-3 mb-1">
+            References ({references.length})
+          </h4>
+          <div className="space-y-1">
+            {references.map((ref) => (
+              <ReferenceRow key={ref.id} protectedKey={pool.key} {...ref} />
+            ))}
+          </div>
         </div>
       )}
     </div>
   );
 }
+
+interface ReferenceRowProps {
+  id: Hex;
+  protectedKey: PoolKey;
+  /** Known when the reference is listed in the deployment file */
+  poolKey?: PoolKey;
+  zeroForOne: boolean;
+  sqrtPriceX96?: bigint;
+  cachedSqrtPriceX96?: bigint;
+}
+
+function ReferenceRow({
+  id,
+  protectedKey,
+  poolKey,
+  zeroForOne,
+  sqrtPriceX96,
+  cachedSqrtPriceX96,
+}: ReferenceRowProps) {
+  const token0 = useToken(poolKey?.currency0 ?? ZERO_ADDRESS);
+  const token1 = useToken(poolKey?.currency1 ?? ZERO_ADDRESS);
+  const decimals: [number, number] = poolKey
+    ? [token0.decimals, token1.decimals]
+    : [18, 18];
+  // Unlisted references are shown in raw 18/18 units; listed ones wait for
+  // their tokens' decimals
+  const metadata = poolKey ? pairStatus(token0, token1) : "loaded";
+  const formatRefPrice = (sqrtPriceX96: bigint | undefined) =>
+    metadata === "failed"
+      ? "decimals unavailable"
+      : sqrtPriceX96 === undefined || metadata === "loading"
+      ? "..."
+      : formatPrice(priceFromSqrtPriceX96(sqrtPriceX96, ...decimals));
+  // Only checkable when the deployment file lists the reference's pool key
+  const directionProblem = poolKey
+    ? checkReferenceDirection(protectedKey, poolKey, zeroForOne)
+    : null;
+
+  return (
+    <div className="text-xs bg-gray-800/50 border border-gray-700/50 rounded px-2 py-1.5">
+      <div className="flex justify-between">
+        <span className="font-mono">
+          {poolKey ? `${token0.symbol}/${token1.symbol}` : shortenAddress(id)}
+        </span>
+        <span className={directionProblem ? "text-red-400" : "text-gray-400"}>
+          zeroForOne: {zeroForOne ? "true" : "false"}
+        </span>
+      </div>
+      {directionProblem && (
+        <p className="text-red-400 mt-0.5">{directionProblem}</p>
+      )}
+      <div className="flex justify-between text-gray-400 mt-0.5">
+        <span>
+          Live:{" "}
+          <span className="font-mono text-gray-200">
+            {formatRefPrice(sqrtPriceX96)}
+          </span>
+        </span>
+        <span>
+          Cached:{" "}
+          <span className="font-mono text-gray-200">
+            {formatRefPrice(cachedSqrtPriceX96)}
+          </span>
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { createContext, useContext, type ReactNode } from "react";
+import { usePublicClient } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import { fetchPoolSnapshot, type PoolSnapshot } from "@crosspool/sdk";
+import { useDeployment } from "@/components/DeploymentProvider";
+
+interface PoolSnapshotContextValue {
+  snapshot: PoolSnapshot | undefined;
+  isError: boolean;
+  refetch: () => void;
+}
+
+const PoolSnapshotContext = createContext<PoolSnapshotContextValue | null>(null);
+
+/**
+ * Polls the protected pool, hook config and reference pools as one
+ * block-pinned multicall, so every component renders the same block.
+ */
+export function PoolSnapshotProvider({ children }: { children: ReactNode }) {
+  const deployment = useDeployment();
+  const client = usePublicClient({ chainId: deployment.chainId });
+
+  const { data, isError, refetch } = useQuery({
+    queryKey: ["poolSnapshot", deployment.chainId, deployment.protectedPool.id],
+    queryFn: () => fetchPoolSnapshot(client!, deployment),
+    enabled: !!client,
+    refetchInterval: 10000,
+  });
+
+  return (
+    <PoolSnapshotContext.Provider
+      value={{ snapshot: data, isError, refetch: () => void refetch() }}
+    >
+      {children}
+    </PoolSnapshotContext.Provider>
+  );
+}
+
+/** Latest pool snapshot for the selected deployment */
+export function usePoolSnapshot(): PoolSnapshotContextValue {
+  const ctx = useContext(PoolSnapshotContext);
+  if (!ctx) throw new Error("usePoolSnapshot must be used within PoolSnapshotProvider");
+  return ctx;
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { usePublicClient } from "wagmi";
+import {
+  bpsToPercent,
+  discoverReferences,
+  DYNAMIC_FEE_FLAG,
+  errorMessage,
+  feeToPercent,
+  formatUnitsSignificant,
+  MAX_REFERENCES,
+  type PoolKey,
+  recommendReferences,
+  type ReferenceCandidate,
+  type Registration,
+  scanInitializedPools,
+  toPoolId,
+} from "@crosspool/sdk";
+import { useDeployment } from "@/components/DeploymentProvider";
+import { useToken } from "@/components/TokenMetadataProvider";
+
+type Scan =
+  | { status: "idle" }
+  | { status: "scanning"; scannedTo: bigint | null; head: bigint | null }
+  | { status: "done"; candidates: ReferenceCandidate[] }
+  | { status: "failed"; message: string };
+
+function CandidateRow({
+  candidate,
+  recommended,
+}: {
+  candidate: ReferenceCandidate;
+  recommended: boolean;
+}) {
+  const { key } = candidate.pool;
+  const token0 = useToken(key.currency0);
+  const token1 = useToken(key.currency1);
+  const shared = useToken(candidate.sharedCurrency);
+  const format = (amount: bigint) =>
+    `${formatUnitsSignificant(amount, shared.decimals)} ${shared.symbol}`;
+
+  return (
+    <tr className="align-top border-t border-gray-800">
+      <td className="pr-2 py-1">
+        <span className={recommended ? "text-green-400" : "text-gray-300"}>
+          {token0.symbol}/{token1.symbol}
+        </span>{" "}
+        <span className="text-gray-500">
+          {key.fee === DYNAMIC_FEE_FLAG ? "dynamic" : feeToPercent(key.fee)}
+        </span>
+        {candidate.warnings.map((warning) => (
+          <p key={warning} className="text-yellow-400 font-sans break-words">
+            {warning}
+          </p>
+        ))}
+      </td>
+      <td className="pr-2 py-1 text-right">{format(candidate.depth)}</td>
+      <td className="pr-2 py-1 text-right">
+        {candidate.manipulationCost === null ? "unbounded" : format(candidate.manipulationCost)}
+      </td>
+      <td className="py-1 text-right">{String(candidate.zeroForOne)}</td>
+    </tr>
+  );
+}
+
+/**
+ * Scans the PoolManager's Initialize events for pools that share a currency
+ * with the protected pool and ranks them by the cost of moving their price by
+ * `targetBps`. "Use recommended" replaces the form's reference list.
+ */
+export function ReferenceDiscoveryPanel({
+  protectedKey,
+  targetBps,
+  onUse,
+}: {
+  protectedKey: PoolKey | null;
+  targetBps: number;
+  onUse: (references: Registration["references"]) => void;
+}) {
+  const { chainId, addresses, startBlock } = useDeployment();
+  const client = usePublicClient({ chainId });
+  const [fromBlock, setFromBlock] = useState(startBlock.toString());
+  const [scan, setScan] = useState<Scan>({ status: "idle" });
+  const abortRef = useRef<AbortController | null>(null);
+
+  const validTarget = Number.isInteger(targetBps) && targetBps > 0 && targetBps <= 10000;
+  const recommended =
+    scan.status === "done" ? recommendReferences(scan.candidates, MAX_REFERENCES) : [];
+  const recommendedIds = new Set(recommended.map((r) => toPoolId(r.key)));
+
+  async function run() {
+    if (!client || !protectedKey) return;
+    let from: bigint;
+    try {
+      from = BigInt(fromBlock);
+    } catch {
+      setScan({ status: "failed", message: "From block must be a block number" });
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setScan({ status: "scanning", scannedTo: null, head: null });
+    try {
+      const pools = await scanInitializedPools(
+        client,
+        addresses.poolManager,
+        from,
+        undefined,
+        (scannedTo, head) => setScan({ status: "scanning", scannedTo, head }),
+        controller.signal
+      );
+      const candidates = await discoverReferences(
+        client,
+        addresses.poolManager,
+        protectedKey,
+        pools,
+        targetBps
+      );
+      setScan({ status: "done", candidates });
+    } catch (e) {
+      setScan({
+        status: "failed",
+        message: controller.signal.aborted ? "Scan cancelled" : errorMessage(e),
+      });
+    }
+  }
+
+  return (
+    <section className="rounded-xl border border-gray-700 p-6 space-y-3">
+      <h2 className="text-lg font-semibold">Discover references</h2>
+      <p className="text-xs text-gray-500">
+        Pools sharing a currency with the protected pool, ranked by how much of
+        that currency a swap needs to move their price by{" "}
+        {validTarget ? bpsToPercent(targetBps) : "the circuit breaker"}. Costs use
+        the hook&apos;s impact estimate on in-range liquidity.
+      </p>
+      <div className="flex gap-2 items-end">
+        <label className="text-xs text-gray-400 flex-1">
+          Scan Initialize events from block
+          <input
+            type="text"
+            value={fromBlock}
+            onChange={(e) => setFromBlock(e.target.value)}
+            className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 font-mono text-xs"
+          />
+        </label>
+        {scan.status === "scanning" ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-3 py-1.5 rounded text-xs bg-gray-700 hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={run}
+            disabled={!client || !protectedKey || !validTarget}
+            className="px-3 py-1.5 rounded text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+          >
+            Scan
+          </button>
+        )}
+      </div>
+
+      {scan.status === "scanning" && (
+        <p className="text-xs text-gray-400">
+          {scan.head === null
+            ? "Starting scan..."
+            : `Scanned to block ${scan.scannedTo} of ${scan.head}`}
+        </p>
+      )}
+      {scan.status === "failed" && (
+        <p className="text-xs text-red-400 break-words">{scan.message}</p>
+      )}
+      {scan.status === "done" &&
+        (scan.candidates.length === 0 ? (
+          <p className="text-xs text-gray-400">No initialized pool shares a currency with it.</p>
+        ) : (
+          <>
+            <table className="w-full text-xs font-mono">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="text-left font-normal">Pool</th>
+                  <th className="text-right font-normal">Depth</th>
+                  <th className="text-right font-normal">Cost to move</th>
+                  <th className="text-right font-normal">zeroForOne</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scan.candidates.map((candidate) => (
+                  <CandidateRow
+                    key={candidate.pool.id}
+                    candidate={candidate}
+                    recommended={recommendedIds.has(candidate.pool.id)}
+                  />
+                ))}
+              </tbody>
+            </table>
+            <button
+              onClick={() => onUse(recommended)}
+              disabled={recommended.length === 0}
+              className="px-3 py-1.5 rounded text-xs bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50"
+            >
+              Use recommended ({recommended.length})
+            </button>
+          </>
+        ))}
+    </section>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useAccount, usePublicClient, useWriteContract } from "wagmi";
+import type { Hex } from "viem";
+import {
+  bpsToPercent,
+  errorMessage,
+  feeToPercent,
+  formatUnitsSignificant,
+  maximumAmountIn,
+  minimumAmountOut,
+  type SplitPlan,
+  swapDeadline,
+  swapRouterAbi,
+} from "@crosspool/sdk";
+import type { TokenMetadata } from "@/lib/tokens";
+import { useDeployment } from "@/components/DeploymentProvider";
+import { usePoolSnapshot } from "@/components/PoolSnapshotProvider";
+
+type Execution =
+  | { status: "idle" }
+  | { status: "running"; step: number; hashes: Hex[] }
+  | { status: "done"; hashes: Hex[] }
+  | { status: "aborted"; step: number; hashes: Hex[] }
+  | { status: "failed"; step: number; hashes: Hex[]; message: string };
+
+const limitsFor = (plan: SplitPlan, slippageBps: number) =>
+  plan.steps.map((step) =>
+    plan.exactOutput
+      ? maximumAmountIn(step.quote.amountIn, slippageBps)
+      : minimumAmountOut(step.quote.amountOut, slippageBps)
+  );
+
+export type SplitExecution = ReturnType<typeof useSplitExecution>;
+
+/**
+ * Execution state for a split plan, held by the swap form rather than the
+ * panel: each sub-swap moves the pool, which can drop the order to the base
+ * tier and unmount the panel mid-run. The run is aborted when the form
+ * unmounts.
+ */
+export function useSplitExecution() {
+  const { address } = useAccount();
+  const { chainId, addresses, protectedPool } = useDeployment();
+  const client = usePublicClient({ chainId });
+  const { refetch } = usePoolSnapshot();
+  const { writeContractAsync } = useWriteContract();
+  const [execution, setExecution] = useState<Execution>({ status: "idle" });
+  const [startedPlan, setStartedPlan] = useState<SplitPlan | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  async function execute(plan: SplitPlan, slippageBps: number, deadlineMinutes: number) {
+    if (!client || !address) return;
+    const { steps } = plan;
+    const stepLimits = limitsFor(plan, slippageBps);
+    const hashes: Hex[] = [];
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setStartedPlan(plan);
+
+    for (let i = 0; i < steps.length; i++) {
+      if (controller.signal.aborted) {
+        setExecution({ status: "aborted", step: i, hashes });
+        return;
+      }
+      setExecution({ status: "running", step: i, hashes: [...hashes] });
+      try {
+        const hash = await writeContractAsync({
+          address: addresses.swapRouter,
+          abi: swapRouterAbi,
+          functionName: plan.exactOutput
+            ? "swapTokensForExactTokens"
+            : "swapExactTokensForTokens",
+          args: [
+            steps[i].amount, stepLimits[i], plan.zeroForOne,
+            protectedPool.key,
+            "0x",
+            address,
+            swapDeadline(deadlineMinutes),
+          ],
+          chainId,
+          gas: 500000n,
+        });
+        hashes.push(hash);
+        const receipt = await client.waitForTransactionReceipt({ hash });
+        if (receipt.status !== "success") throw new Error(`Sub-swap ${i + 1} reverted`);
+        refetch();
+      } catch (e) {
+        setExecution({ status: "failed", step: i, hashes, message: errorMessage(e) });
+        return;
+      }
+    }
+    setExecution({ status: "done", hashes });
+  }
+
+  return {
+    execution,
+    startedPlan,
+    running: execution.status === "running",
+    execute,
+    abort: () => controllerRef.current?.abort(),
+  };
+}
+
+/**
+ * Split-order plan for a swap that would be charged the elevated fee or
+ * blocked, compared with the single swap and executable one sub-swap at a
+ * time. The plan is frozen when execution starts, so the panel stays up
+ * while a run is in progress even if there is no longer a current plan;
+ * abort stops before the next sub-swap is sent.
+ */
+export function SplitPlanPanel({
+  plan: currentPlan,
+  run,
+  inputToken,
+  outputToken,
+  slippageBps,
+  deadlineMinutes,
+  allowance,
+  disabled,
+}: {
+  plan: SplitPlan | null;
+  run: SplitExecution;
+  inputToken: TokenMetadata;
+  outputToken: TokenMetadata;
+  slippageBps: number;
+  deadlineMinutes: number;
+  allowance: bigint | undefined;
+  disabled: boolean;
+}) {
+  const { execution, startedPlan, running } = run;
+
+  // The pool moves after every sub-swap; keep showing the plan being executed
+  const plan = execution.status === "idle" ? currentPlan : startedPlan ?? currentPlan;
+  if (!plan) return null;
+  const { exactOutput, single } = plan;
+  const limits = limitsFor(plan, slippageBps);
+  const maxSpend = exactOutput
+    ? limits.reduce((sum, limit) => sum + limit, 0n)
+    : plan.amountIn;
+  const needsApproval = allowance !== undefined && allowance < maxSpend;
+  // Sub-swaps confirmed so far
+  const completed =
+    execution.status === "done"
+      ? plan.steps.length
+      : execution.status === "idle"
+      ? 0
+      : execution.step;
+
+  const formatIn = (amount: bigint) =>
+    `${formatUnitsSignificant(amount, inputToken.decimals)} ${inputToken.symbol}`;
+  const formatOut = (amount: bigint) =>
+    `${formatUnitsSignificant(amount, outputToken.decimals)} ${outputToken.symbol}`;
+
+  return (
+    <div className="text-sm rounded p-3 border bg-indigo-900/20 border-indigo-600/40 text-gray-300 space-y-1">
+      <div className="flex justify-between items-center">
+        <span className="font-semibold">
+          Split into {plan.steps.length} swaps at{" "}
+          {feeToPercent(plan.steps[0].decision.fee!)}
+        </span>
+        <span className="font-mono">
+          {exactOutput ? formatIn(plan.amountIn) : formatOut(plan.amountOut)}
+        </span>
+      </div>
+      <div className="flex justify-between items-center text-xs">
+        <span>Total cost (fees + impact)</span>
+        <span className="font-mono">
+          {bpsToPercent(plan.totalImpactBps)} vs{" "}
+          {single.quote
+            ? `${bpsToPercent(single.quote.totalImpactBps)} in one swap`
+            : "blocked in one swap"}
+        </span>
+      </div>
+      <div className="flex justify-between items-center text-xs">
+        <span>Fees paid</span>
+        <span className="font-mono">{formatIn(plan.feeAmount)}</span>
+      </div>
+
+      <ol className="text-xs text-gray-400 font-mono space-y-0.5 pt-1">
+        {plan.steps.map((step, i) => {
+          const state =
+            i < completed
+              ? "done"
+              : i === completed && execution.status === "running"
+              ? "pending"
+              : i === completed && execution.status === "failed"
+              ? "failed"
+              : "";
+          return (
+            <li key={i} className="flex justify-between">
+              <span>
+                {i + 1}. {exactOutput ? formatOut(step.amount) : formatIn(step.amount)}
+                {" -> "}
+                {exactOutput ? formatIn(step.quote.amountIn) : formatOut(step.quote.amountOut)}
+              </span>
+              <span
+                className={
+                  state === "done"
+                    ? "text-green-400"
+                    : state === "failed"
+                    ? "text-red-400"
+                    : "text-yellow-400"
+                }
+              >
+                {state}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+
+      <p className="text-xs text-gray-500">
+        Each swap is priced from the pool state the previous one leaves behind;
+        trades by others in between change the later steps.
+      </p>
+
+      {needsApproval && (
+        <p className="text-xs text-yellow-400">
+          Approve at least {formatIn(maxSpend)} to run the whole plan.
+        </p>
+      )}
+      {execution.status === "failed" && (
+        <p className="text-xs text-red-400 break-words">
+          Step {execution.step + 1} failed: {execution.message}
+        </p>
+      )}
+      {execution.status === "aborted" && (
+        <p className="text-xs text-yellow-400">
+          Aborted after {execution.step} of {plan.steps.length} swaps.
+        </p>
+      )}
+      {execution.status === "done" && (
+        <p className="text-xs text-green-400">All {execution.hashes.length} swaps confirmed.</p>
+      )}
+
+      <div className="flex gap-2 pt-1">
+        <button
+          onClick={() => currentPlan && run.execute(currentPlan, slippageBps, deadlineMinutes)}
+          disabled={running || disabled || needsApproval || !currentPlan}
+          className="flex-1 px-3 py-1.5 rounded text-sm bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50"
+        >
+          {running
+            ? `Swap ${completed + 1} of ${plan.steps.length}...`
+            : "Execute plan"}
+        </button>
+        {running && (
+          <button
+            onClick={run.abort}
+            className="px-3 py-1.5 rounded text-sm bg-gray-700 hover:bg-gray-600"
+          >
+            Abort
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
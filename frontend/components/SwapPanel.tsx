@@ -8,40 +8,63 @@ import {
   useReadContract,
   usePublicClient,
 } from "wagmi";
-import { sepolia } from "wagmi/chains";
-import { parseEther } from "viem";
+import { useQuery } from "@tanstack/react-query";
+import { formatUnits, maxUint256, parseUnits } from "viem";
 import {
-  ADDRESSES,
-  PROTECTED_POOL_KEY,
-  PROTECTED_POOL_ID,
+  bpsToPercent,
+  type DecodedRevert,
+  decodeRevert,
+  emptyTickData,
   erc20Abi,
+  errorMessage,
+  estimateExactInput,
+  estimateExactOutput,
+  feeToPercent,
+  formatUnitsSignificant,
+  maximumAmountIn,
+  minimumAmountOut,
   permit2Abi,
+  planSplitSwap,
+  quoteFromDelta,
+  quoteFromSimulation,
+  simulateHookDecision,
+  simulateSwapFromStorage,
+  swapDeadline,
   swapRouterAbi,
-  poolManagerAbi,
-  hookAbi,
-} from "@/lib/contracts";
-import {
-  getSlot0StorageSlot,
-  getLiquidityStorageSlot,
-  parseSlot0,
-  estimateSwapImpactBps,
-  predictFeeTier,
-  bpsToPercent,
-  feeToPercent,
-} from "@/lib/utils";
+  tradeHeadroom,
+  type TradeHeadroom,
+} from "@crosspool/sdk";
+import { useDeployment } from "@/components/DeploymentProvider";
+import { useToken } from "@/components/TokenMetadataProvider";
+import { usePoolSnapshot } from "@/components/PoolSnapshotProvider";
+import { SplitPlanPanel, useSplitExecution } from "@/components/SplitPlanPanel";
+
+/** Warn when the pool's curve alone costs more than this */
+const HIGH_AMM_IMPACT_BPS = 300;
+const MAX_SLIPPAGE_BPS = 5000;
+const NO_SIMULATION = { status: "idle" } as const;
 
 export function SwapPanel() {
   const { address, isConnected } = useAccount();
+  const { chainId, addresses, protectedPool } = useDeployment();
+  const poolKey = protectedPool.key;
   const [amount, setAmount] = useState("0.01");
+  const [slippage, setSlippage] = useState("0.5");
+  const [deadlineMinutes, setDeadlineMinutes] = useState("20");
   const [direction, setDirection] = useState<"buy" | "sell">("sell");
-  const [simStatus, setSimStatus] = useState<
-    "idle" | "ok" | "circuit-breaker"
-  >("idle");
-
-  const client = usePublicClient();
+  const [mode, setMode] = useState<"exactIn" | "exactOut">("exactIn");
+  const [simulationResult, setSimulation] = useState<
+    | { status: "idle" }
+    | { status: "ok"; inputs: string; delta: bigint }
+    | { status: "reverted"; inputs: string; revert: DecodedRevert | null; message: string }
+  >({ status: "idle" });
+
+  const client = usePublicClient({ chainId });
   const approveErc20 = useWriteContract();
   const approvePermit2 = useWriteContract();
   const swap = useWriteContract();
+  // Outlives the split panel, which unmounts once the order no longer needs splitting
+  const splitRun = useSplitExecution();
 
   const { isLoading: isSwapConfirming, isSuccess: isSwapSuccess } =
     useWaitForTransactionReceipt({ hash: swap.data });
@@ -53,25 +76,32 @@ export function SwapPanel() {
   });
 
   const zeroForOne = direction === "sell";
-  // Protected pool: currency0=NEWTOKEN, currency1=WETH
-  const inputToken = zeroForOne ? "NEW" : "WETH";
-  const outputToken = zeroForOne ? "WETH" : "NEW";
-  const tokenAddress = zeroForOne ? ADDRESSES.newtoken : ADDRESSES.weth;
+  const exactOutput = mode === "exactOut";
+  const token0 = useToken(poolKey.currency0);
+  const token1 = useToken(poolKey.currency1);
+  const inputToken = zeroForOne ? token0 : token1;
+  const outputToken = zeroForOne ? token1 : token0;
+  const tokenAddress = inputToken.address;
+  // Amounts are only scaled once both tokens' decimals are known
+  const decimalsReady = token0.status === "loaded" && token1.status === "loaded";
+  const unreadTokens = [token0, token1].filter((token) => token.status === "failed");
 
   // Read balances
-  const { data: wethBalance } = useReadContract({
-    address: ADDRESSES.weth,
+  const { data: token1Balance } = useReadContract({
+    address: poolKey.currency1,
     abi: erc20Abi,
     functionName: "balanceOf",
     args: [address!],
+    chainId,
     query: { enabled: !!address, refetchInterval: 10000 },
   });
 
-  const { data: newtokenBalance } = useReadContract({
-    address: ADDRESSES.newtoken,
+  const { data: token0Balance } = useReadContract({
+    address: poolKey.currency0,
     abi: erc20Abi,
     functionName: "balanceOf",
     args: [address!],
+    chainId,
     query: { enabled: !!address, refetchInterval: 10000 },
   });
 
@@ -80,142 +110,234 @@ export function SwapPanel() {
     address: tokenAddress,
     abi: erc20Abi,
     functionName: "allowance",
-    args: [address!, ADDRESSES.permit2],
+    args: [address!, addresses.permit2],
+    chainId,
     query: { enabled: !!address, refetchInterval: 10000 },
   });
 
-  // Read pool state: sqrtPrice and liquidity
-  const slot0Slot = getSlot0StorageSlot(PROTECTED_POOL_ID);
-  const liqSlot = getLiquidityStorageSlot(PROTECTED_POOL_ID);
-
-  const { data: slot0Data } = useReadContract({
-    address: ADDRESSES.poolManager,
-    abi: poolManagerAbi,
-    functionName: "extsload",
-    args: [slot0Slot],
-    chainId: sepolia.id,
-    query: { refetchInterval: 10000 },
-  });
-
-  const { data: liqData } = useReadContract({
-    address: ADDRESSES.poolManager,
-    abi: poolManagerAbi,
-    functionName: "extsload",
-    args: [liqSlot],
-    chainId: sepolia.id,
-    query: { refetchInterval: 10000 },
-  });
-
-  // Read hook config
-  const { data: configData } = useReadContract({
-    address: ADDRESSES.hook,
-    abi: hookAbi,
-    functionName: "poolConfigs",
-    args: [PROTECTED_POOL_ID],
-    chainId: sepolia.id,
-  });
-
-  // Read cached reference price
-  const { data: lastRefPrice } = useReadContract({
-    address: ADDRESSES.hook,
-    abi: hookAbi,
-    functionName: "lastReferenceSqrtPrice",
-    args: [PROTECTED_POOL_ID],
-    chainId: sepolia.id,
-    query: { refetchInterval: 10000 },
-  });
+  const { snapshot } = usePoolSnapshot();
 
-  const amountIn = useMemo(() => {
+  // Input amount in exact-input mode, desired output in exact-output mode
+  const amountTyped = useMemo(() => {
+    if (!decimalsReady) return 0n;
     try {
-      return parseEther(amount || "0");
+      return parseUnits(
+        amount || "0",
+        exactOutput ? outputToken.decimals : inputToken.decimals
+      );
     } catch {
       return 0n;
     }
-  }, [amount]);
-
-  const needsApproval =
-    erc20Allowance !== undefined && (erc20Allowance as bigint) < amountIn;
+  }, [amount, exactOutput, decimalsReady, inputToken.decimals, outputToken.decimals]);
 
   // Compute estimated impact from on-chain data
   const poolState = useMemo(() => {
-    if (!slot0Data || !liqData || !configData) return null;
-    const { sqrtPriceX96 } = parseSlot0(slot0Data);
-    const liquidity = BigInt(liqData) & ((1n << 128n) - 1n); // lower 128 bits
-    const highImpactThresholdBps = Number(configData[4]);
-    const circuitBreakerBps = Number(configData[5]);
-    const baseFee = Number(configData[2]);
-    const highImpactFee = Number(configData[3]);
+    if (!snapshot?.config) return null;
+    const { sqrtPriceX96, liquidity } = snapshot.protectedPool;
     return {
       sqrtPriceX96,
       liquidity,
-      highImpactThresholdBps,
-      circuitBreakerBps,
-      baseFee,
-      highImpactFee,
+      config: snapshot.config,
+      refPrices: snapshot.references.map((ref) => ref.sqrtPriceX96),
+      cachedRefPrices: snapshot.references.map((ref) => ref.cachedSqrtPriceX96),
     };
-  }, [slot0Data, liqData, configData]);
+  }, [snapshot]);
 
   const impactEstimate = useMemo(() => {
-    if (!poolState || amountIn === 0n) return null;
-    const impactBps = estimateSwapImpactBps(
-      amountIn,
-      poolState.liquidity,
-      poolState.sqrtPriceX96,
-      zeroForOne
+    if (!poolState || amountTyped === 0n) return null;
+    // The router passes exact-input swaps to the hook as a negative
+    // amountSpecified and exact-output swaps as a positive one
+    return simulateHookDecision(
+      poolState.config,
+      poolState.refPrices,
+      poolState.cachedRefPrices,
+      poolState,
+      { zeroForOne, amountSpecified: exactOutput ? amountTyped : -amountTyped }
     );
-    const tier = predictFeeTier(
-      impactBps,
-      poolState.highImpactThresholdBps,
-      poolState.circuitBreakerBps
+  }, [poolState, amountTyped, exactOutput, zeroForOne]);
+
+  // Largest amounts per direction before the fee rises or the breaker trips
+  const headroom = useMemo(() => {
+    if (!poolState) return null;
+    return [true, false].map((zfo) =>
+      tradeHeadroom(
+        poolState.config,
+        poolState.refPrices,
+        poolState.cachedRefPrices,
+        poolState,
+        zfo,
+        exactOutput
+      )
     );
-    return { impactBps, tier };
-  }, [poolState, amountIn, zeroForOne]);
+  }, [poolState, exactOutput]);
+
+  function fillAmount(h: TradeHeadroom, value: bigint) {
+    // Typed amounts are outputs in exact-output mode
+    const decimals = (h.zeroForOne !== h.exactOutput ? token0 : token1).decimals;
+    setDirection(h.zeroForOne ? "sell" : "buy");
+    setAmount(formatUnits(value, decimals));
+  }
+
+  // Tick data read at the current snapshot block, shared across amounts and
+  // dropped when the snapshot moves to a new block
+  const snapshotBlock = snapshot?.blockNumber;
+  const tickData = useMemo(
+    () => (snapshotBlock === undefined ? null : emptyTickData(poolKey.tickSpacing)),
+    [poolKey.tickSpacing, snapshotBlock]
+  );
+
+  // Off-chain tick walk: prices swaps that cross initialized ticks, which
+  // the single-range estimate cannot
+  const hookFee = impactEstimate?.fee ?? null;
+  const { data: tickWalk } = useQuery({
+    queryKey: [
+      "tickWalk",
+      chainId,
+      protectedPool.id,
+      snapshot?.blockNumber.toString(),
+      zeroForOne,
+      exactOutput,
+      amountTyped.toString(),
+      hookFee,
+    ],
+    queryFn: () =>
+      simulateSwapFromStorage(
+        client!,
+        addresses.poolManager,
+        protectedPool.id,
+        snapshot!.protectedPool,
+        {
+          zeroForOne,
+          amountSpecified: exactOutput ? amountTyped : -amountTyped,
+          fee: hookFee!,
+        },
+        tickData!,
+        snapshot!.blockNumber
+      ),
+    enabled: !!client && !!snapshot && !!tickData && amountTyped > 0n && hookFee !== null,
+    retry: false,
+  });
+
+  // Simulate swap for circuit breaker detection. Each result records the
+  // inputs it was run for: a slower simulation of earlier inputs can finish
+  // after a newer one, and only a result for the current inputs may set the
+  // swap's limit
+  const simulationInputs = `${amountTyped}:${zeroForOne}:${exactOutput}`;
+  const simulation =
+    simulationResult.status !== "idle" && simulationResult.inputs === simulationInputs
+      ? simulationResult
+      : NO_SIMULATION;
 
-  // Simulate swap for circuit breaker detection
   const simulateSwap = useCallback(async () => {
-    if (!client || !address || amountIn === 0n) return;
-    const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+    if (!client || !address || amountTyped === 0n) return;
+    const inputs = simulationInputs;
+    const deadline = swapDeadline(60);
     try {
-      await client.simulateContract({
-        address: ADDRESSES.swapRouter,
+      // Unbounded amountOutMin / amountInMax so the simulation returns the
+      // full delta as a quote
+      const { result } = await client.simulateContract({
+        address: addresses.swapRouter,
         abi: swapRouterAbi,
-        functionName: "swapExactTokensForTokens",
+        functionName: exactOutput
+          ? "swapTokensForExactTokens"
+          : "swapExactTokensForTokens",
         args: [
-          amountIn, 0n, zeroForOne,
-          {
-            currency0: PROTECTED_POOL_KEY.currency0,
-            currency1: PROTECTED_POOL_KEY.currency1,
-            fee: PROTECTED_POOL_KEY.fee,
-            tickSpacing: PROTECTED_POOL_KEY.tickSpacing,
-            hooks: PROTECTED_POOL_KEY.hooks,
-          },
+          amountTyped, exactOutput ? maxUint256 : 0n, zeroForOne,
+          poolKey,
           "0x" as `0x${string}`,
           address,
           deadline,
         ],
         account: address,
       });
-      setSimStatus("ok");
-    } catch (e: any) {
-      const msg = e?.message ?? "";
-      if (msg.includes("CircuitBreakerTriggered")) {
-        setSimStatus("circuit-breaker");
-      } else {
-        // Allowance or other errors — don't block
-        setSimStatus("ok");
-      }
+      setSimulation({ status: "ok", inputs, delta: result });
+    } catch (e) {
+      setSimulation({
+        status: "reverted",
+        inputs,
+        revert: decodeRevert(e),
+        message: errorMessage(e),
+      });
     }
-  }, [client, address, amountIn, zeroForOne]);
+  }, [client, address, amountTyped, exactOutput, zeroForOne, simulationInputs, addresses, poolKey]);
 
   useEffect(() => {
-    setSimStatus("idle");
-    if (amountIn > 0n) {
+    setSimulation({ status: "idle" });
+    if (amountTyped > 0n) {
       simulateSwap();
     }
-  }, [amountIn, zeroForOne, simulateSwap]);
+  }, [amountTyped, exactOutput, zeroForOne, simulateSwap]);
+
+  const simulatedRevert =
+    simulation.status === "reverted" ? simulation.revert : null;
+  const breakerConfirmed = simulatedRevert?.name === "CircuitBreakerTriggered";
+  const isBlocked = breakerConfirmed || impactEstimate?.tier === "blocked";
+
+  // Expected amounts: the simulated delta when available, then the tick walk,
+  // otherwise estimated from the pool state at the fee the hook is expected
+  // to charge
+  const quote = useMemo(() => {
+    if (!poolState || impactEstimate?.fee == null) return null;
+    if (simulation.status === "ok") {
+      return quoteFromDelta(
+        simulation.delta,
+        zeroForOne,
+        impactEstimate.fee,
+        poolState.sqrtPriceX96
+      );
+    }
+    if (tickWalk) {
+      return quoteFromSimulation(tickWalk, zeroForOne, impactEstimate.fee, poolState.sqrtPriceX96);
+    }
+    return exactOutput
+      ? estimateExactOutput(poolState, amountTyped, zeroForOne, impactEstimate.fee)
+      : estimateExactInput(poolState, amountTyped, zeroForOne, impactEstimate.fee);
+  }, [poolState, impactEstimate, simulation, tickWalk, amountTyped, exactOutput, zeroForOne]);
+
+  const slippageBps = Math.round(Number(slippage) * 100);
+  const deadline = Number(deadlineMinutes);
+  const settingsError =
+    slippage.trim() === "" ||
+    !Number.isFinite(slippageBps) ||
+    slippageBps < 0 ||
+    slippageBps > MAX_SLIPPAGE_BPS
+      ? `Slippage must be between 0% and ${bpsToPercent(MAX_SLIPPAGE_BPS)}`
+      : !Number.isFinite(deadline) || deadline <= 0
+      ? "Deadline must be a positive number of minutes"
+      : null;
+  // Slippage bound: minimum output for exact input, maximum input for exact output
+  const limit =
+    quote && !settingsError
+      ? exactOutput
+        ? maximumAmountIn(quote.amountIn, slippageBps)
+        : minimumAmountOut(quote.amountOut, slippageBps)
+      : null;
+
+  // Orders above the base fee tier can be split into base-fee sub-swaps
+  const splitPlan = useMemo(() => {
+    if (!poolState || !impactEstimate || impactEstimate.tier === "base") return null;
+    try {
+      return {
+        plan: planSplitSwap(
+          poolState.config,
+          poolState.refPrices,
+          poolState.cachedRefPrices,
+          poolState,
+          zeroForOne,
+          exactOutput,
+          amountTyped
+        ),
+        error: null,
+      };
+    } catch (e) {
+      return { plan: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [poolState, impactEstimate, zeroForOne, exactOutput, amountTyped]);
 
-  const isBlocked =
-    simStatus === "circuit-breaker" || impactEstimate?.tier === "blocked";
+  // The most the router may pull from the wallet for this swap
+  const maxSpend = exactOutput ? limit ?? 0n : amountTyped;
+  const needsApproval =
+    erc20Allowance !== undefined && (erc20Allowance as bigint) < maxSpend;
 
   // Approve handlers
   const isApproving =
@@ -223,26 +345,29 @@ export function SwapPanel() {
     approvePermit2.isPending || isPermitConfirming;
 
   function handleApprove() {
+    if (!decimalsReady) return;
     approveErc20.writeContract(
       {
         address: tokenAddress,
         abi: erc20Abi,
         functionName: "approve",
-        args: [ADDRESSES.permit2, parseEther("1000000")],
+        args: [addresses.permit2, parseUnits("1000000", inputToken.decimals)],
+        chainId,
       },
       {
         onSuccess: () => {
           approvePermit2.writeContract(
             {
-              address: ADDRESSES.permit2,
+              address: addresses.permit2,
               abi: permit2Abi,
               functionName: "approve",
               args: [
                 tokenAddress,
-                ADDRESSES.swapRouter,
+                addresses.swapRouter,
                 BigInt("1461501637330902918203684832716283019655932542975"),
                 281474976710655,
               ],
+              chainId,
             },
             { onSuccess: () => refetchAllowance() }
           );
@@ -252,25 +377,21 @@ export function SwapPanel() {
   }
 
   function handleSwap() {
-    if (!address || isBlocked) return;
-    const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+    if (!address || !decimalsReady || isBlocked || limit === null) return;
     swap.writeContract({
-      address: ADDRESSES.swapRouter,
+      address: addresses.swapRouter,
       abi: swapRouterAbi,
-      functionName: "swapExactTokensForTokens",
+      functionName: exactOutput
+        ? "swapTokensForExactTokens"
+        : "swapExactTokensForTokens",
       args: [
-        amountIn, 0n, zeroForOne,
-        {
-          currency0: PROTECTED_POOL_KEY.currency0,
-          currency1: PROTECTED_POOL_KEY.currency1,
-          fee: PROTECTED_POOL_KEY.fee,
-          tickSpacing: PROTECTED_POOL_KEY.tickSpacing,
-          hooks: PROTECTED_POOL_KEY.hooks,
-        },
+        amountTyped, limit, zeroForOne,
+        poolKey,
         "0x" as `0x${string}`,
         address,
-        deadline,
+        swapDeadline(deadline),
       ],
+      chainId,
       gas: 500000n,
     });
   }
@@ -301,7 +422,7 @@ export function SwapPanel() {
                 : "bg-gray-800 text-gray-400"
             }`}
           >
-            Sell NEW for WETH
+            Sell {token0.symbol} for {token1.symbol}
           </button>
           <button
             onClick={() => setDirection("buy")}
@@ -311,14 +432,31 @@ export function SwapPanel() {
                 : "bg-gray-800 text-gray-400"
             }`}
           >
-            Sell WETH for NEW
+            Sell {token1.symbol} for {token0.symbol}
           </button>
         </div>
 
+        {/* Exact input or exact output */}
+        <div className="flex gap-2 text-xs">
+          {(["exactIn", "exactOut"] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-2 py-1 rounded ${
+                mode === m ? "bg-gray-600 text-white" : "bg-gray-800 text-gray-400"
+              }`}
+            >
+              {m === "exactIn" ? "Exact input" : "Exact output"}
+            </button>
+          ))}
+        </div>
+
         {/* Amount */}
         <div>
           <label className="text-sm text-gray-400 block mb-1">
-            Amount ({inputToken})
+            {exactOutput
+              ? `Receive (${outputToken.symbol})`
+              : `Amount (${inputToken.symbol})`}
           </label>
           <input
             type="text"
@@ -332,10 +470,16 @@ export function SwapPanel() {
         {/* Balances */}
         <div className="text-xs text-gray-500 space-y-1">
           <p>
-            WETH: {wethBalance !== undefined ? (Number(wethBalance) / 1e18).toFixed(4) : "..."}
+            {token0.symbol}:{" "}
+            {token0Balance !== undefined
+              ? formatUnitsSignificant(token0Balance, token0.decimals)
+              : "..."}
           </p>
           <p>
-            NEW: {newtokenBalance !== undefined ? (Number(newtokenBalance) / 1e18).toFixed(4) : "..."}
+            {token1.symbol}:{" "}
+            {token1Balance !== undefined
+              ? formatUnitsSignificant(token1Balance, token1.decimals)
+              : "..."}
           </p>
         </div>
 
@@ -353,39 +497,225 @@ export function SwapPanel() {
             <div className="flex justify-between items-center">
               <span>Estimated price impact</span>
               <span className="font-mono font-semibold">
-                {bpsToPercent(impactEstimate.impactBps)}
+                {bpsToPercent(impactEstimate.swapImpactBps)}
+              </span>
+            </div>
+            <div className="flex justify-between items-center mt-1">
+              <span>
+                Explained by references
+                {impactEstimate.alignedMoves.length > 0 &&
+                  ` (${impactEstimate.alignedMoves.length} aligned)`}
+              </span>
+              <span className="font-mono">
+                -{bpsToPercent(impactEstimate.refPriceChangeBps)}
+              </span>
+            </div>
+            <div className="flex justify-between items-center mt-1">
+              <span>Unexplained impact</span>
+              <span className="font-mono font-semibold">
+                {bpsToPercent(impactEstimate.unexplainedImpactBps)}
               </span>
             </div>
             <div className="flex justify-between items-center mt-1">
               <span>Expected fee</span>
               <span className="font-mono">
-                {impactEstimate.tier === "blocked"
+                {impactEstimate.fee === null
                   ? "BLOCKED (circuit breaker)"
-                  : impactEstimate.tier === "elevated"
-                  ? `${feeToPercent(poolState.highImpactFee)} (elevated)`
-                  : `${feeToPercent(poolState.baseFee)} (base)`}
+                  : `${feeToPercent(impactEstimate.fee)} (${impactEstimate.tier})`}
               </span>
             </div>
             <div className="text-xs text-gray-500 mt-1">
-              Pool liquidity: {(Number(poolState.liquidity) / 1e18).toFixed(2)} |
-              Thresholds: {bpsToPercent(poolState.highImpactThresholdBps)} / {bpsToPercent(poolState.circuitBreakerBps)}
+              Pool liquidity:{" "}
+              {formatUnitsSignificant(
+                poolState.liquidity,
+                Math.round((token0.decimals + token1.decimals) / 2),
+                4
+              )}{" "}
+              |
+              Thresholds: {bpsToPercent(poolState.config.highImpactThresholdBps)} / {bpsToPercent(poolState.config.circuitBreakerBps)}
+            </div>
+          </div>
+        )}
+
+        {/* Headroom: maximum size per tier */}
+        {headroom && (
+          <div className="text-xs rounded p-3 border bg-gray-800/50 border-gray-700/50 text-gray-300 space-y-1">
+            <div className="flex justify-between text-gray-500">
+              <span>Max {exactOutput ? "output" : "input"}</span>
+              <span>at base fee / before breaker</span>
             </div>
+            {headroom.map((h) => {
+              const [from, to] = h.zeroForOne ? [token0, token1] : [token1, token0];
+              const unit = exactOutput ? to : from;
+              const limits = [h.maxAtBaseFee, h.maxBeforeBreaker];
+              return (
+                <div key={String(h.zeroForOne)} className="flex justify-between items-center">
+                  <span>
+                    {from.symbol} {"->"} {to.symbol}
+                  </span>
+                  <span className="flex gap-1 font-mono">
+                    {limits.map((value, i) =>
+                      value === null ? (
+                        <span key={i} className="px-1.5 py-0.5 text-gray-500">
+                          no limit
+                        </span>
+                      ) : (
+                        <button
+                          key={i}
+                          onClick={() => fillAmount(h, value)}
+                          disabled={value === 0n || !decimalsReady}
+                          title="Use this amount"
+                          className="px-1.5 py-0.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+                        >
+                          {formatUnitsSignificant(value, unit.decimals, 4)} {unit.symbol}
+                        </button>
+                      )
+                    )}
+                  </span>
+                </div>
+              );
+            })}
           </div>
         )}
 
-        {/* Circuit breaker from simulation */}
-        {simStatus === "circuit-breaker" && (
-          <div className="bg-red-900/40 border border-red-600/50 rounded p-3 text-sm text-red-300">
-            Circuit breaker confirmed by on-chain simulation.
+        {/* Quote and slippage */}
+        {quote && (
+          <div className="text-sm rounded p-3 border bg-gray-800/50 border-gray-700/50 text-gray-300">
+            <div className="flex justify-between items-center">
+              <span>
+                {exactOutput ? "Expected input" : "Expected output"}{" "}
+                <span className="text-xs text-gray-500">
+                  ({quote.source === "simulation"
+                    ? "simulated"
+                    : quote.source === "tickWalk"
+                    ? "tick walk"
+                    : "estimated"})
+                </span>
+              </span>
+              <span className="font-mono">
+                {exactOutput
+                  ? `${formatUnitsSignificant(quote.amountIn, inputToken.decimals)} ${inputToken.symbol}`
+                  : `${formatUnitsSignificant(quote.amountOut, outputToken.decimals)} ${outputToken.symbol}`}
+              </span>
+            </div>
+            <div className="flex justify-between items-center mt-1">
+              <span>{exactOutput ? "Maximum sent" : "Minimum received"}</span>
+              <span className="font-mono">
+                {limit === null
+                  ? "-"
+                  : exactOutput
+                  ? `${formatUnitsSignificant(limit, inputToken.decimals)} ${inputToken.symbol}`
+                  : `${formatUnitsSignificant(limit, outputToken.decimals)} ${outputToken.symbol}`}
+              </span>
+            </div>
+            <div className="flex justify-between items-center mt-1">
+              <span>AMM price impact</span>
+              <span
+                className={`font-mono ${
+                  quote.ammImpactBps >= HIGH_AMM_IMPACT_BPS ? "text-yellow-400" : ""
+                }`}
+              >
+                {bpsToPercent(quote.ammImpactBps)}
+              </span>
+            </div>
+            {tickWalk && (
+              <div className="flex justify-between items-center mt-1">
+                <span>Ticks crossed</span>
+                <span className="font-mono">
+                  {tickWalk.ticksCrossed.length} (tick {snapshot!.protectedPool.tick} {"->"}{" "}
+                  {tickWalk.tick})
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between items-center mt-1">
+              <span>Hook fee ({feeToPercent(quote.fee)})</span>
+              <span className="font-mono">
+                {formatUnitsSignificant(quote.feeAmount, inputToken.decimals)}{" "}
+                {inputToken.symbol}
+              </span>
+            </div>
+            {tickWalk && !tickWalk.complete && (
+              <p className="text-xs text-red-400 mt-2">
+                Not enough liquidity: the pool runs out before this swap is filled.
+              </p>
+            )}
+            {quote.ammImpactBps >= HIGH_AMM_IMPACT_BPS && (
+              <p className="text-xs text-yellow-400 mt-2">
+                High price impact: this swap moves the pool by{" "}
+                {bpsToPercent(quote.ammImpactBps)} before fees. Consider a smaller
+                amount.
+              </p>
+            )}
           </div>
         )}
 
+        <div className="flex gap-4 text-xs text-gray-400">
+          <label className="flex items-center gap-1">
+            Slippage
+            <input
+              type="text"
+              value={slippage}
+              onChange={(e) => setSlippage(e.target.value)}
+              className="w-14 bg-gray-800 border border-gray-600 rounded px-1.5 py-0.5 font-mono"
+            />
+            %
+          </label>
+          <label className="flex items-center gap-1">
+            Deadline
+            <input
+              type="text"
+              value={deadlineMinutes}
+              onChange={(e) => setDeadlineMinutes(e.target.value)}
+              className="w-12 bg-gray-800 border border-gray-600 rounded px-1.5 py-0.5 font-mono"
+            />
+            min
+          </label>
+        </div>
+        {settingsError && <p className="text-xs text-red-400">{settingsError}</p>}
+        {unreadTokens.length > 0 && (
+          <p className="text-xs text-red-400">
+            Could not read decimals for{" "}
+            {unreadTokens.map((token) => token.symbol).join(" and ")}; swapping is
+            disabled.
+          </p>
+        )}
+
+        {/* Split plan for orders above the base fee */}
+        {(splitPlan?.plan || splitRun.running) && (
+          <SplitPlanPanel
+            plan={splitPlan?.plan ?? null}
+            run={splitRun}
+            inputToken={inputToken}
+            outputToken={outputToken}
+            slippageBps={slippageBps}
+            deadlineMinutes={deadline}
+            allowance={erc20Allowance as bigint | undefined}
+            disabled={settingsError !== null || !decimalsReady}
+          />
+        )}
+        {splitPlan?.error && (
+          <p className="text-xs text-gray-500">Cannot split this order: {splitPlan.error}</p>
+        )}
+
+        {/* Revert from on-chain simulation */}
+        {simulation.status === "reverted" &&
+          (breakerConfirmed ? (
+            <div className="bg-red-900/40 border border-red-600/50 rounded p-3 text-sm text-red-300">
+              Circuit breaker confirmed by on-chain simulation: unexplained
+              impact {bpsToPercent(simulatedRevert!.args.impactBps as bigint)}.
+            </div>
+          ) : (
+            <div className="bg-yellow-900/40 border border-yellow-600/50 rounded p-3 text-sm text-yellow-300 break-words">
+              Simulation reverted: {simulation.message}
+            </div>
+          ))}
+
         {/* Buttons */}
         <div className="flex gap-2">
           {needsApproval && (
             <button
               onClick={handleApprove}
-              disabled={isApproving}
+              disabled={isApproving || !decimalsReady}
               className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm disabled:opacity-50"
             >
               {isApproving ? "Approving..." : "Approve"}
@@ -393,7 +723,7 @@ export function SwapPanel() {
           )}
           <button
             onClick={handleSwap}
-            disabled={swap.isPending || isBlocked}
+            disabled={swap.isPending || !decimalsReady || isBlocked || limit === null}
             className={`flex-1 px-3 py-2 rounded text-sm font-semibold disabled:opacity-50 ${
               isBlocked
                 ? "bg-red-800 cursor-not-allowed"
@@ -402,9 +732,11 @@ export function SwapPanel() {
           >
             {swap.isPending
               ? "Confirming..."
+              : !decimalsReady && unreadTokens.length === 0
+              ? "Loading tokens..."
               : isBlocked
               ? "BLOCKED"
-              : `Swap ${inputToken} -> ${outputToken}`}
+              : `Swap ${inputToken.symbol} -> ${outputToken.symbol}`}
           </button>
         </div>
 
@@ -417,9 +749,7 @@ export function SwapPanel() {
         )}
         {swap.error && (
           <p className="text-sm text-red-400 break-all">
-            {swap.error.message.includes("CircuitBreakerTriggered")
-              ? "Circuit breaker triggered!"
-              : swap.error.message.slice(0, 200)}
+            {errorMessage(swap.error)}
           </p>
         )}
       </div>
@@ -0,0 +1,97 @@
+"use client";
+
+import { createContext, useContext, useMemo, type ReactNode } from "react";
+import { useReadContracts } from "wagmi";
+import type { Address } from "viem";
+import { erc20Abi, ZERO_ADDRESS } from "@crosspool/sdk";
+import {
+  fallbackToken,
+  poolCurrencies,
+  NATIVE_TOKEN,
+  type TokenState,
+} from "@/lib/tokens";
+import { useDeployment } from "@/components/DeploymentProvider";
+
+interface TokenMetadataValue {
+  byAddress: Map<string, TokenState>;
+  isPending: boolean;
+}
+
+const TokenMetadataContext = createContext<TokenMetadataValue>({
+  byAddress: new Map(),
+  isPending: true,
+});
+
+const FIELDS = ["symbol", "name", "decimals"] as const;
+
+/**
+ * Batch-reads symbol, name and decimals for every currency in the selected
+ * deployment's pool keys. Metadata never changes, so results are cached for
+ * the lifetime of the page.
+ */
+export function TokenMetadataProvider({ children }: { children: ReactNode }) {
+  const deployment = useDeployment();
+  const { chainId } = deployment;
+  const tokens = useMemo(
+    () => poolCurrencies(deployment).filter((address) => address !== ZERO_ADDRESS),
+    [deployment]
+  );
+
+  const { data, isPending } = useReadContracts({
+    contracts: tokens.flatMap((address) =>
+      FIELDS.map(
+        (functionName) =>
+          ({ address, abi: erc20Abi, functionName, chainId }) as const
+      )
+    ),
+    query: { staleTime: Infinity, gcTime: Infinity },
+  });
+
+  const value = useMemo(() => {
+    const byAddress = new Map<string, TokenState>();
+    byAddress.set(ZERO_ADDRESS, { ...NATIVE_TOKEN, status: "loaded" });
+    if (!data) return { byAddress, isPending };
+    tokens.forEach((address, i) => {
+      const [symbol, name, decimals] = FIELDS.map(
+        (_, j) => data[i * FIELDS.length + j]
+      );
+      const fallback = fallbackToken(address);
+      // Without decimals no amount of this token can be scaled, so it is
+      // reported as failed rather than assumed to have 18
+      if (decimals?.status !== "success") {
+        byAddress.set(address.toLowerCase(), { ...fallback, status: "failed" });
+        return;
+      }
+      byAddress.set(address.toLowerCase(), {
+        address,
+        symbol:
+          symbol?.status === "success" ? (symbol.result as string) : fallback.symbol,
+        name: name?.status === "success" ? (name.result as string) : fallback.name,
+        decimals: Number(decimals.result),
+        status: "loaded",
+      });
+    });
+    return { byAddress, isPending };
+  }, [tokens, data, isPending]);
+
+  return (
+    <TokenMetadataContext.Provider value={value}>
+      {children}
+    </TokenMetadataContext.Provider>
+  );
+}
+
+/**
+ * Metadata for a token. Until it has loaded, or if it cannot be read, the
+ * fields are a placeholder (18 decimals) and `status` says so; check it
+ * before scaling amounts with `decimals`.
+ */
+export function useToken(address: Address): TokenState {
+  const { byAddress, isPending } = useContext(TokenMetadataContext);
+  return (
+    byAddress.get(address.toLowerCase()) ?? {
+      ...fallbackToken(address),
+      status: isPending ? "loading" : "failed",
+    }
+  );
+}
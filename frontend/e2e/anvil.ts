@@ -0,0 +1,121 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  createTestClient,
+  http,
+  maxUint160,
+  maxUint256,
+  maxUint48,
+  publicActions,
+  walletActions,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import {
+  type Deployment,
+  erc20Abi,
+  fetchPoolSnapshot,
+  hookAbi,
+  parseDeployment,
+  permit2Abi,
+  swapDeadline,
+  swapRouterAbi,
+} from "@crosspool/sdk";
+import { ANVIL_ACCOUNT, localChain } from "../lib/localChain";
+
+// Chain-side helpers for the e2e tests: the node and deployment the local
+// app is pointed at, plus the setup the UI has no controls for.
+
+export const client = createTestClient({
+  chain: localChain,
+  mode: "anvil",
+  transport: http(),
+  account: ANVIL_ACCOUNT,
+})
+  .extend(publicActions)
+  .extend(walletActions);
+
+export function loadLocalDeployment(): Deployment {
+  const file = join(__dirname, "../../deployments/anvil.json");
+  return parseDeployment(JSON.parse(readFileSync(file, "utf8")));
+}
+
+export function poolSnapshot(deployment: Deployment) {
+  return fetchPoolSnapshot(client as unknown as PublicClient, deployment);
+}
+
+async function send(hash: Hex) {
+  const receipt = await client.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") throw new Error(`Transaction ${hash} reverted`);
+}
+
+/**
+ * Let the router pull every pool currency from the test account, both
+ * directly and through Permit2, like DemoSwaps' _approveAll
+ */
+export async function approveRouter(deployment: Deployment) {
+  const { permit2, swapRouter } = deployment.addresses;
+  const currencies = new Set(
+    [deployment.protectedPool, ...deployment.referencePools].flatMap(({ key }) => [
+      key.currency0,
+      key.currency1,
+    ])
+  );
+  for (const token of currencies) {
+    for (const spender of [permit2, swapRouter]) {
+      await send(
+        await client.writeContract({
+          address: token,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [spender, maxUint256],
+        })
+      );
+    }
+    await send(
+      await client.writeContract({
+        address: permit2,
+        abi: permit2Abi,
+        functionName: "approve",
+        args: [token, swapRouter, maxUint160, Number(maxUint48)],
+      })
+    );
+  }
+}
+
+/** Exact-input swap on reference `index`, which has no hook */
+export async function swapReference(
+  deployment: Deployment,
+  index: number,
+  zeroForOne: boolean,
+  amountIn: bigint
+) {
+  await send(
+    await client.writeContract({
+      address: deployment.addresses.swapRouter,
+      abi: swapRouterAbi,
+      functionName: "swapExactTokensForTokens",
+      args: [
+        amountIn,
+        0n,
+        zeroForOne,
+        deployment.referencePools[index].key,
+        "0x",
+        ANVIL_ACCOUNT,
+        swapDeadline(60),
+      ],
+    })
+  );
+}
+
+/** Hook events for the protected pool from `fromBlock` */
+export async function hookEvents(deployment: Deployment, fromBlock: bigint) {
+  const logs = await client.getContractEvents({
+    address: deployment.addresses.hook,
+    abi: hookAbi,
+    fromBlock,
+  });
+  return logs.filter(
+    (log) => "poolId" in log.args && log.args.poolId === deployment.protectedPool.id
+  );
+}
@@ -0,0 +1,150 @@
+import { expect, test, type Page } from "@playwright/test";
+import { formatUnits, type Hex } from "viem";
+import {
+  type Deployment,
+  erc20Abi,
+  feeToPercent,
+  shortenAddress,
+  tradeHeadroom,
+  ZERO_ADDRESS,
+} from "@crosspool/sdk";
+import { ANVIL_ACCOUNT } from "../lib/localChain";
+import {
+  approveRouter,
+  client,
+  hookEvents,
+  loadLocalDeployment,
+  poolSnapshot,
+  swapReference,
+} from "./anvil";
+
+// The README's four demo scenarios, in order, through the UI against the
+// local deployment. Swaps sell currency0 like DemoSwaps. Amounts come from
+// the pool's headroom rather than the README's, so they hold whether or not
+// deploy-local added liquidity. The chain is reverted afterwards.
+
+const Q96 = 1n << 96n;
+
+test.describe.configure({ mode: "serial" });
+
+let deployment: Deployment;
+let page: Page;
+let snapshotId: Hex;
+let fromBlock: bigint;
+/** Decimals of currency0, the token the form sells */
+let inputDecimals: number;
+
+/** Base-fee, elevated and blocking sizes for selling currency0 right now */
+async function sizes() {
+  const snapshot = await poolSnapshot(deployment);
+  const config = snapshot.config!;
+  const headroom = tradeHeadroom(
+    config,
+    snapshot.references.map((ref) => ref.sqrtPriceX96),
+    snapshot.references.map((ref) => ref.cachedSqrtPriceX96),
+    snapshot.protectedPool,
+    true,
+    false
+  );
+  const base = headroom.maxAtBaseFee!;
+  const breaker = headroom.maxBeforeBreaker!;
+  return { config, snapshot, small: base / 10n, elevated: (base + breaker) / 2n, blocked: breaker * 2n };
+}
+
+async function enterAmount(amount: bigint) {
+  await page.getByPlaceholder("0.01").fill(formatUnits(amount, inputDecimals));
+}
+
+/** Swap through the form and return the hook event it emitted */
+async function swapInUi() {
+  const before = (await hookEvents(deployment, fromBlock)).length;
+  await page.getByRole("button", { name: /^Swap .+ -> / }).click();
+  await expect.poll(async () => (await hookEvents(deployment, fromBlock)).length).toBe(before + 1);
+  const events = await hookEvents(deployment, fromBlock);
+  return events[events.length - 1];
+}
+
+async function expectLatestLoggedFee(fee: number) {
+  await expect(page.locator("span", { hasText: /^Fee:/ }).first()).toContainText(feeToPercent(fee));
+}
+
+test.beforeAll(async ({ browser }) => {
+  deployment = loadLocalDeployment();
+  snapshotId = await client.snapshot();
+  fromBlock = (await client.getBlockNumber()) + 1n;
+  const { currency0 } = deployment.protectedPool.key;
+  inputDecimals =
+    currency0 === ZERO_ADDRESS
+      ? 18
+      : await client.readContract({ address: currency0, abi: erc20Abi, functionName: "decimals" });
+  await approveRouter(deployment);
+
+  page = await browser.newPage();
+  await page.goto("/");
+  await page.getByRole("button", { name: "Connect Wallet" }).click();
+  await expect(page.getByRole("button", { name: shortenAddress(ANVIL_ACCOUNT) })).toBeVisible();
+  await expect(page.getByText("Swap on Protected Pool")).toBeVisible();
+});
+
+test.afterAll(async () => {
+  await page?.close();
+  if (snapshotId) await client.revert({ id: snapshotId });
+});
+
+test("demo 1: a small swap pays the base fee", async () => {
+  const { config, small } = await sizes();
+  await enterAmount(small);
+  await expect(page.getByText(`${feeToPercent(config.baseFee)} (base)`)).toBeVisible();
+
+  const event = await swapInUi();
+  expect(event.eventName).toBe("DynamicFeeApplied");
+  expect(event.args).toMatchObject({ fee: config.baseFee });
+  await expect(page.getByText("Swap confirmed!")).toBeVisible();
+  await expectLatestLoggedFee(config.baseFee);
+});
+
+test("demo 2: a larger swap pays the elevated fee", async () => {
+  const { config, elevated } = await sizes();
+  await enterAmount(elevated);
+  await expect(page.getByText(`${feeToPercent(config.highImpactFee)} (elevated)`)).toBeVisible();
+
+  const event = await swapInUi();
+  expect(event.eventName).toBe("DynamicFeeApplied");
+  expect(event.args).toMatchObject({ fee: config.highImpactFee });
+  await expectLatestLoggedFee(config.highImpactFee);
+});
+
+test("demo 3: the same swap after a reference move is explained", async () => {
+  const { config, snapshot, elevated } = await sizes();
+  // Move the reference the way selling currency0 moves the protected pool
+  // (its referenceZeroForOne side), by about the breaker threshold; sqrtP
+  // moves by half the price move
+  const ref = snapshot.references[0];
+  const zeroForOne = ref.zeroForOne;
+  const sqrtMove = ref.liquidity * BigInt(config.circuitBreakerBps);
+  const amountIn = zeroForOne
+    ? (sqrtMove * Q96) / ref.sqrtPriceX96 / 20000n
+    : (sqrtMove * ref.sqrtPriceX96) / Q96 / 20000n;
+  await swapReference(deployment, 0, zeroForOne, amountIn);
+
+  await enterAmount(elevated);
+  // The form picks the move up on its next snapshot poll
+  await expect(page.getByText("(1 aligned)")).toBeVisible({ timeout: 30_000 });
+  await expect(page.getByText(`${feeToPercent(config.baseFee)} (base)`)).toBeVisible();
+
+  const event = await swapInUi();
+  expect(event.eventName).toBe("DynamicFeeApplied");
+  expect(event.args).toMatchObject({ fee: config.baseFee });
+  await expectLatestLoggedFee(config.baseFee);
+});
+
+test("demo 4: a manipulation-sized swap is blocked", async () => {
+  const { blocked } = await sizes();
+  const before = (await hookEvents(deployment, fromBlock)).length;
+  await enterAmount(blocked);
+
+  await expect(page.getByText("Circuit breaker confirmed by on-chain simulation")).toBeVisible();
+  await expect(page.getByRole("button", { name: "BLOCKED" })).toBeDisabled();
+  // CircuitBreakerHit is emitted in the reverting call, so nothing lands on-chain
+  expect(await hookEvents(deployment, fromBlock)).toHaveLength(before);
+});
@@ -0,0 +1,22 @@
+import { loadDeployments, type Deployment } from "@crosspool/sdk";
+import sepoliaDeployment from "../../deployments/sepolia.json";
+
+// Deployment files written to /deployments. Add a new network by dropping its
+// JSON there and listing it here; everything else is derived from the file.
+// In local mode next.config.js inlines deployments/anvil.json, which goes
+// first so it is the default.
+const LOCAL_DEPLOYMENT = process.env.NEXT_PUBLIC_ANVIL_DEPLOYMENT;
+const DEPLOYMENT_FILES: unknown[] = [
+  ...(LOCAL_DEPLOYMENT ? [JSON.parse(LOCAL_DEPLOYMENT)] : []),
+  sepoliaDeployment,
+];
+
+export const DEPLOYMENTS = loadDeployments(DEPLOYMENT_FILES);
+
+export const DEFAULT_CHAIN_ID =
+  Number(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID) ||
+  DEPLOYMENTS.keys().next().value!;
+
+export function getDeployment(chainId: number): Deployment | undefined {
+  return DEPLOYMENTS.get(chainId);
+}
@@ -0,0 +1,53 @@
+import type { IndexerState } from "@crosspool/sdk";
+
+// IndexedDB persistence for indexer state. Records are structured-cloned, so
+// bigint fields are stored as-is. Each (chain, hook, pool) gets one record.
+
+const DB_NAME = "cross-pool-oracle";
+const DB_VERSION = 1;
+const STORE = "hookEvents";
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+    dbPromise = request(req).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+export function eventStoreKey(chainId: number, hook: string, poolId: string): string {
+  return `${chainId}:${hook.toLowerCase()}:${poolId.toLowerCase()}`;
+}
+
+/** Stored state for `key`, or null if nothing was saved yet or IndexedDB is unavailable */
+export async function loadIndexerState(key: string): Promise<IndexerState | null> {
+  if (typeof indexedDB === "undefined") return null;
+  const db = await openDb();
+  const stored = await request(db.transaction(STORE).objectStore(STORE).get(key));
+  return (stored as IndexerState | undefined) ?? null;
+}
+
+export async function saveIndexerState(key: string, state: IndexerState): Promise<void> {
+  if (typeof indexedDB === "undefined") return;
+  const db = await openDb();
+  await request(db.transaction(STORE, "readwrite").objectStore(STORE).put(state, key));
+}
+
+export async function clearIndexerState(key: string): Promise<void> {
+  if (typeof indexedDB === "undefined") return;
+  const db = await openDb();
+  await request(db.transaction(STORE, "readwrite").objectStore(STORE).delete(key));
+}
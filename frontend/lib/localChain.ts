@@ -0,0 +1,21 @@
+import { defineChain, type Address } from "viem";
+import { anvil } from "viem/chains";
+
+// Local mode: the app talks to an anvil node forked from Sepolia, so the v4
+// PoolManager, router, Permit2 and Multicall3 already exist, with the demo
+// contracts deployed by scripts/deploy-local.mjs. Setting
+// NEXT_PUBLIC_ANVIL_RPC turns it on.
+
+export const ANVIL_RPC = process.env.NEXT_PUBLIC_ANVIL_RPC || null;
+
+/** anvil's first default account: funded, unlocked, and the deployer in deploy-local */
+export const ANVIL_ACCOUNT: Address = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+
+const MULTICALL3: Address = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+/** anvil's chain, pointed at ANVIL_RPC; the mock connector sends transactions here too */
+export const localChain = defineChain({
+  ...anvil,
+  rpcUrls: { default: { http: [ANVIL_RPC ?? anvil.rpcUrls.default.http[0]] } },
+  contracts: { multicall3: { address: MULTICALL3 } },
+});
@@ -0,0 +1,58 @@
+import { type Address } from "viem";
+import { type Deployment, shortenAddress, ZERO_ADDRESS } from "@crosspool/sdk";
+
+export interface TokenMetadata {
+  address: Address;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+/**
+ * Whether a token's metadata has been read. Amounts cannot be scaled until
+ * the decimals are `loaded`.
+ */
+export type TokenStatus = "loading" | "loaded" | "failed";
+
+export interface TokenState extends TokenMetadata {
+  status: TokenStatus;
+}
+
+/** Status of a pair: failed if either token failed, loading if either is still loading */
+export function pairStatus(a: TokenState, b: TokenState): TokenStatus {
+  if (a.status === "failed" || b.status === "failed") return "failed";
+  return a.status === "loading" || b.status === "loading" ? "loading" : "loaded";
+}
+
+/** v4 represents native ETH as currency address(0) */
+export const NATIVE_TOKEN: TokenMetadata = {
+  address: ZERO_ADDRESS,
+  symbol: "ETH",
+  name: "Ether",
+  decimals: 18,
+};
+
+/** Placeholder shown while metadata loads or when a token does not implement it */
+export function fallbackToken(address: Address): TokenMetadata {
+  if (address === ZERO_ADDRESS) return NATIVE_TOKEN;
+  return {
+    address,
+    symbol: shortenAddress(address),
+    name: address,
+    decimals: 18,
+  };
+}
+
+/** Every distinct currency across the deployment's protected and reference pool keys */
+export function poolCurrencies(deployment: Deployment): Address[] {
+  const keys = [
+    deployment.protectedPool.key,
+    ...deployment.referencePools.map((ref) => ref.key),
+  ];
+  const seen = new Set<Address>();
+  for (const key of keys) {
+    seen.add(key.currency0);
+    seen.add(key.currency1);
+  }
+  return Array.from(seen);
+}
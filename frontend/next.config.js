@@ -1,6 +1,23 @@
+const { existsSync, readFileSync } = require("node:fs");
+const { join } = require("node:path");
+
+// Local mode (NEXT_PUBLIC_ANVIL_RPC set): inline the deployment written by
+// scripts/deploy-local.mjs so lib/deployments.ts can load it in the browser.
+function localDeploymentEnv() {
+  if (!process.env.NEXT_PUBLIC_ANVIL_RPC) return {};
+  const file = join(__dirname, "../deployments/anvil.json");
+  if (!existsSync(file)) {
+    throw new Error(`Local mode needs ${file}. Run \`npm run deploy:local\` first.`);
+  }
+  return { NEXT_PUBLIC_ANVIL_DEPLOYMENT: readFileSync(file, "utf8") };
+}
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // The sdk workspace package ships TypeScript source
+  transpilePackages: ["@crosspool/sdk"],
+  env: localDeploymentEnv(),
   webpack: (config) => {
     // Wagmi connector re-exports pull optional deps that are not needed in this app.
     // Alias them out to avoid compile-time resolution errors in Next.js.
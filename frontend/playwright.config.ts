@@ -0,0 +1,27 @@
+import { defineConfig } from "@playwright/test";
+
+// End-to-end tests against the app in local mode. Needs an anvil fork with
+// the demo deployed first (see scripts/deploy-local.mjs):
+//
+//   anvil --fork-url <SEPOLIA_RPC> --chain-id 31337
+//   npm run deploy:local && npm run test:e2e
+
+const ANVIL_RPC = process.env.ANVIL_RPC ?? "http://127.0.0.1:8545";
+const PORT = 3100;
+
+export default defineConfig({
+  testDir: "e2e",
+  // Not *.test.ts, so vitest leaves them alone
+  testMatch: "*.e2e.ts",
+  // The tests share one chain
+  workers: 1,
+  timeout: 120_000,
+  use: { baseURL: `http://127.0.0.1:${PORT}` },
+  webServer: {
+    command: `npx next dev --port ${PORT}`,
+    url: `http://127.0.0.1:${PORT}`,
+    env: { NEXT_PUBLIC_ANVIL_RPC: ANVIL_RPC },
+    reuseExistingServer: !process.env.CI,
+    timeout: 180_000,
+  },
+});
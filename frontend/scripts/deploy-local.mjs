@@ -0,0 +1,112 @@
+// Deploy the demo contracts to a local anvil node and write
+// deployments/anvil.json for the frontend's local mode.
+//
+//   anvil --fork-url <SEPOLIA_RPC> --chain-id 31337
+//   npm run deploy:local
+//   npm run dev:local
+//
+// Runs DeployCrossPoolOracle from anvil's first account, records what it
+// deployed in the deployments/ format, then runs AddLiquidity against that
+// file. The fork provides the v4 contracts, so infrastructure addresses are
+// copied from deployments/sepolia.json. AddLiquidity runs by default;
+// --skip-liquidity leaves the protected pool at the deploy script's 10e18
+// liquidity, which the README's demo amounts assume and its local mode
+// walk-through passes. Set ANVIL_RPC to use another node.
+
+import { spawnSync } from "node:child_process";
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { getAddress } from "viem";
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), "../..");
+const RPC = process.env.ANVIL_RPC ?? "http://127.0.0.1:8545";
+const CHAIN_ID = 31337;
+// anvil's first default account; its key is public and only funded locally
+const PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const DYNAMIC_FEE_FLAG = 0x800000;
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const OUTPUT = "deployments/anvil.json";
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+async function checkNode() {
+  let chainId;
+  try {
+    const response = await fetch(RPC, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }),
+    });
+    chainId = Number((await response.json()).result);
+  } catch {
+    fail(`No node at ${RPC}. Start one with \`anvil --fork-url <SEPOLIA_RPC> --chain-id ${CHAIN_ID}\`.`);
+  }
+  if (chainId !== CHAIN_ID) fail(`${RPC} is chain ${chainId}, expected anvil's ${CHAIN_ID}.`);
+}
+
+function forgeScript(contract, env = {}) {
+  const result = spawnSync(
+    "forge",
+    [
+      "script",
+      `script/${contract}.s.sol:${contract}`,
+      "--rpc-url", RPC,
+      "--private-key", PRIVATE_KEY,
+      "--broadcast",
+    ],
+    { cwd: ROOT, stdio: "inherit", env: { ...process.env, ...env } }
+  );
+  if (result.error) fail(`Could not run forge: ${result.error.message}`);
+  if (result.status !== 0) fail(`${contract} failed`);
+}
+
+function sortedKey(a, b, fee, hooks) {
+  const [currency0, currency1] = BigInt(a) < BigInt(b) ? [a, b] : [b, a];
+  return { currency0, currency1, fee, tickSpacing: 60, hooks };
+}
+
+/** Addresses from the deploy script's broadcast, in the deployments/ format */
+function readDeployment() {
+  const broadcast = JSON.parse(
+    readFileSync(
+      join(ROOT, `broadcast/DeployCrossPoolOracle.s.sol/${CHAIN_ID}/run-latest.json`),
+      "utf8"
+    )
+  );
+  const created = (name) =>
+    broadcast.transactions
+      .filter((tx) => tx.contractName === name && tx.transactionType.startsWith("CREATE"))
+      .map((tx) => getAddress(tx.contractAddress));
+  // Deployed in this order by DeployCrossPoolOracle.run()
+  const [weth, usdc, newtoken] = created("MockERC20");
+  const [hook] = created("CrossPoolOracleHook");
+  if (!newtoken || !hook) fail("Broadcast is missing the tokens or the hook");
+
+  const sepolia = JSON.parse(readFileSync(join(ROOT, "deployments/sepolia.json"), "utf8"));
+  const startBlock = Math.min(...broadcast.receipts.map((receipt) => Number(receipt.blockNumber)));
+
+  return {
+    chainId: CHAIN_ID,
+    network: "anvil",
+    deployedAt: new Date().toISOString().slice(0, 10),
+    startBlock,
+    contracts: { hook, weth, usdc, newtoken },
+    infrastructure: sepolia.infrastructure,
+    pools: {
+      protected: sortedKey(newtoken, weth, DYNAMIC_FEE_FLAG, hook),
+      references: [sortedKey(weth, usdc, 3000, ZERO_ADDRESS)],
+    },
+  };
+}
+
+await checkNode();
+forgeScript("DeployCrossPoolOracle");
+writeFileSync(join(ROOT, OUTPUT), JSON.stringify(readDeployment(), null, 2) + "\n");
+console.log(`Wrote ${OUTPUT}`);
+if (!process.argv.includes("--skip-liquidity")) {
+  forgeScript("AddLiquidity", { DEPLOYMENT: OUTPUT });
+}
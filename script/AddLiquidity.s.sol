@@ -24,24 +24,26 @@ contract AddLiquidity is Script {
     using PoolIdLibrary for PoolKey;
     using StateLibrary for IPoolManager;
 
-    // Sepolia addresses
-    address constant HOOK = 0x9c981cdc56335664F21448cA4f40c54390B7D0C0;
-    address constant WETH = 0x53f646Df4442A1Caca581078Ca63076D882640A4;
-    address constant NEWTOKEN = 0x12b067D6755340bd03fdFA370D73A84f7Ad06c19;
-    address constant POOL_MANAGER = 0xE03A1074c86CFeDd5C142C4F04F1a1536e203543;
-    address constant POSITION_MANAGER = 0x429ba70129df741B2Ca2a85BC3A2a3328e5c09b4;
+    /// @dev Deployment file to read addresses from; set DEPLOYMENT to use another one
+    string constant DEFAULT_DEPLOYMENT = "deployments/sepolia.json";
 
     function run() public {
-        IPoolManager poolManager = IPoolManager(POOL_MANAGER);
-        IPositionManager positionManager = IPositionManager(POSITION_MANAGER);
+        string memory json = vm.readFile(vm.envOr("DEPLOYMENT", DEFAULT_DEPLOYMENT));
+        address hook = vm.parseJsonAddress(json, ".contracts.hook");
+        address weth = vm.parseJsonAddress(json, ".contracts.weth");
+        address newtoken = vm.parseJsonAddress(json, ".contracts.newtoken");
+
+        IPoolManager poolManager = IPoolManager(vm.parseJsonAddress(json, ".infrastructure.poolManager"));
+        IPositionManager positionManager =
+            IPositionManager(vm.parseJsonAddress(json, ".infrastructure.positionManager"));
         IPermit2 permit2 = IPermit2(AddressConstants.getPermit2Address());
 
         // Build protected pool key
-        (Currency c0, Currency c1) = NEWTOKEN < WETH
-            ? (Currency.wrap(NEWTOKEN), Currency.wrap(WETH))
-            : (Currency.wrap(WETH), Currency.wrap(NEWTOKEN));
+        (Currency c0, Currency c1) = newtoken < weth
+            ? (Currency.wrap(newtoken), Currency.wrap(weth))
+            : (Currency.wrap(weth), Currency.wrap(newtoken));
 
-        PoolKey memory protKey = PoolKey(c0, c1, LPFeeLibrary.DYNAMIC_FEE_FLAG, 60, IHooks(HOOK));
+        PoolKey memory protKey = PoolKey(c0, c1, LPFeeLibrary.DYNAMIC_FEE_FLAG, 60, IHooks(hook));
 
         // Read current sqrtPrice
         (uint160 sqrtPriceX96,,,) = poolManager.getSlot0(protKey.toId());
@@ -64,14 +66,14 @@ contract AddLiquidity is Script {
         vm.startBroadcast();
 
         // Mint extra tokens if needed
-        MockERC20(NEWTOKEN).mint(msg.sender, a0 + 1e18);
-        MockERC20(WETH).mint(msg.sender, a1 + 1e18);
+        MockERC20(Currency.unwrap(c0)).mint(msg.sender, a0 + 1e18);
+        MockERC20(Currency.unwrap(c1)).mint(msg.sender, a1 + 1e18);
 
         // Approve
-        MockERC20(NEWTOKEN).approve(address(permit2), type(uint256).max);
-        MockERC20(WETH).approve(address(permit2), type(uint256).max);
-        permit2.approve(NEWTOKEN, address(positionManager), type(uint160).max, type(uint48).max);
-        permit2.approve(WETH, address(positionManager), type(uint160).max, type(uint48).max);
+        MockERC20(newtoken).approve(address(permit2), type(uint256).max);
+        MockERC20(weth).approve(address(permit2), type(uint256).max);
+        permit2.approve(newtoken, address(positionManager), type(uint160).max, type(uint48).max);
+        permit2.approve(weth, address(positionManager), type(uint160).max, type(uint48).max);
 
         // Mint position (add liquidity to existing pool — no initializePool needed)
         bytes memory actions = abi.encodePacked(
@@ -68,7 +68,10 @@ contract DeployCrossPoolOracle is Script {
         (Currency protC0, Currency protC1) = _sortCurrencies(address(newtoken), address(weth));
         PoolKey memory protKey = PoolKey(protC0, protC1, LPFeeLibrary.DYNAMIC_FEE_FLAG, 60, IHooks(hook));
 
-        hook.registerPool(protKey, refKey.toId(), true, 3000, 10000, 200, 1000, 10000, 1);
+        // WETH is on the same side of both keys unless the token addresses sort differently
+        bool referenceZeroForOne = Currency.unwrap(refKey.currency1) == Currency.unwrap(protKey.currency1)
+            || Currency.unwrap(refKey.currency0) == Currency.unwrap(protKey.currency0);
+        hook.registerPool(protKey, refKey.toId(), referenceZeroForOne, 3000, 10000, 200, 1000, 10000, 1);
         _createPoolWithLiquidity(protKey, 10e18);
         console.log("Protected pool created");
 
@@ -158,12 +161,14 @@ contract DeployCrossPoolOracle is Script {
     }
 
     function getPoolManager() internal view returns (address) {
-        if (block.chainid == 11155111) return 0xE03A1074c86CFeDd5C142C4F04F1a1536e203543;
+        // 31337: anvil forked from Sepolia (frontend local mode)
+        if (block.chainid == 11155111 || block.chainid == 31337) return 0xE03A1074c86CFeDd5C142C4F04F1a1536e203543;
         revert("Unsupported chain");
     }
 
     function getPositionManager() internal view returns (address) {
-        if (block.chainid == 11155111) return 0x429ba70129df741B2Ca2a85BC3A2a3328e5c09b4;
+        // 31337: anvil forked from Sepolia (frontend local mode)
+        if (block.chainid == 11155111 || block.chainid == 31337) return 0x429ba70129df741B2Ca2a85BC3A2a3328e5c09b4;
         revert("Unsupported chain");
     }
 }
@@ -0,0 +1,121 @@
+// Generate typed ABI modules from the Foundry build output.
+//
+//   forge build && npm run abis          # rewrite src/generated/*
+//   forge build && npm run abis:check    # fail if src/generated/* is stale
+//
+// Pass --out <dir> to read artifacts from somewhere other than ../out.
+
+import { readFileSync, writeFileSync, existsSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const PACKAGE = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+
+/** [source file, contract name, exported constant, output module] */
+const CONTRACTS = [
+  [
+    "CrossPoolOracleHook.sol",
+    "CrossPoolOracleHook",
+    "crossPoolOracleHookAbi",
+    "src/generated/crossPoolOracleHookAbi.ts",
+  ],
+];
+
+const TYPE_ORDER = ["constructor", "receive", "fallback", "function", "event", "error"];
+
+function argValue(flag) {
+  const i = process.argv.indexOf(flag);
+  return i === -1 ? undefined : process.argv[i + 1];
+}
+
+/** Drop solc's internalType so the module only carries what encoding needs */
+function stripInternalTypes(value) {
+  if (Array.isArray(value)) return value.map(stripInternalTypes);
+  if (value && typeof value === "object") {
+    const out = {};
+    for (const [key, inner] of Object.entries(value)) {
+      if (key !== "internalType") out[key] = stripInternalTypes(inner);
+    }
+    return out;
+  }
+  return value;
+}
+
+function signature(item) {
+  const types = (params) =>
+    (params ?? [])
+      .map((p) => (p.components ? `(${types(p.components)})` : "") + p.type)
+      .join(",");
+  return `${item.name ?? ""}(${types(item.inputs)})`;
+}
+
+/** Stable order so regenerating with another solc version produces no diff */
+function sortAbi(abi) {
+  return [...abi].sort(
+    (a, b) =>
+      TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) ||
+      signature(a).localeCompare(signature(b))
+  );
+}
+
+function isFlat(value) {
+  return Object.values(value).every((inner) => typeof inner !== "object");
+}
+
+/** Serialize as a TypeScript literal in the repo's formatting */
+function toTs(value, indent = "") {
+  const next = indent + "  ";
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    if (value.length === 1 && isFlat(value[0])) return `[${toTs(value[0], indent)}]`;
+    return `[\n${value.map((v) => next + toTs(v, next) + ",").join("\n")}\n${indent}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value);
+    if (isFlat(value)) {
+      return `{ ${entries.map(([k, v]) => `${k}: ${toTs(v, next)}`).join(", ")} }`;
+    }
+    return `{\n${entries
+      .map(([k, v]) => `${next}${k}: ${toTs(v, next)},`)
+      .join("\n")}\n${indent}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function render(source, name, constant, abi) {
+  return [
+    `// Generated by scripts/generate-abis.mjs from out/${source}/${name}.json.`,
+    "// Do not edit by hand: run `forge build && npm run abis` instead.",
+    "",
+    `export const ${constant} = ${toTs(abi)} as const;`,
+    "",
+  ].join("\n");
+}
+
+const outDir = resolve(PACKAGE, argValue("--out") ?? "../out");
+const check = process.argv.includes("--check");
+let stale = 0;
+
+for (const [source, name, constant, module] of CONTRACTS) {
+  const artifactPath = join(outDir, source, `${name}.json`);
+  if (!existsSync(artifactPath)) {
+    console.error(`Missing ${artifactPath}. Run \`forge build\` first.`);
+    process.exit(1);
+  }
+  const { abi } = JSON.parse(readFileSync(artifactPath, "utf8"));
+  const code = render(source, name, constant, sortAbi(stripInternalTypes(abi)));
+  const target = join(PACKAGE, module);
+
+  if (check) {
+    const current = existsSync(target) ? readFileSync(target, "utf8") : "";
+    if (current !== code) {
+      console.error(`${module} is out of date with ${source}. Run \`npm run abis\`.`);
+      stale++;
+    }
+  } else {
+    writeFileSync(target, code);
+    console.log(`Wrote ${module} (${abi.length} entries)`);
+  }
+}
+
+if (stale > 0) process.exit(1);
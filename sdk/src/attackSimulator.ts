@@ -0,0 +1,322 @@
+import {
+  simulateHookDecision,
+  type FeeTier,
+  type ProtectedPoolState,
+} from "./hookDecision";
+import {
+  AGGREGATION_MAX,
+  AGGREGATION_MEDIAN,
+  type AggregationMode,
+  type PoolConfig,
+} from "./poolConfig";
+import { estimateExactInput } from "./quote";
+
+// Scripted adversaries against a local model of the protected pool and its
+// references. Every pool is one constant-liquidity range quoting the same
+// base currency as currency1 (so referenceZeroForOne is true throughout) and
+// everything happens in one block: the hook's cached reference prices start
+// at the given pre-attack cache and each protected swap that goes through
+// re-caches them. The attacker starts with nothing and may go negative in the
+// base currency (flash liquidity); holdings are valued at pre-attack prices.
+
+export type AttackScenario =
+  | "pumpAndDump"
+  | "singleReferencePush"
+  | "coordinatedPush"
+  | "sandwich";
+
+export const ATTACK_SCENARIOS: AttackScenario[] = [
+  "pumpAndDump",
+  "singleReferencePush",
+  "coordinatedPush",
+  "sandwich",
+];
+
+export interface ReferencePoolModel {
+  sqrtPriceX96: bigint;
+  liquidity: bigint;
+  /** Static LP fee, in hundredths of a bip */
+  fee: number;
+}
+
+export interface AttackMarket {
+  protectedPool: ProtectedPoolState;
+  references: ReferencePoolModel[];
+  /** The protected pool's registration; one reference per entry in `references` */
+  config: PoolConfig;
+  /** lastReferenceSqrtPrices before the attack; defaults to the current reference prices */
+  cachedReferencePrices?: bigint[];
+}
+
+export interface AttackParams {
+  /** Price move the attacker aims for on the protected pool and each pushed reference */
+  pushBps: number;
+  /** Base currency the victim spends buying the protected asset */
+  victimAmountIn: bigint;
+  /** Victim's slippage tolerance against their quote; bounds the sandwich */
+  victimSlippageBps: number;
+  /** Swaps the pump-and-dump splits each side into */
+  steps: number;
+  /** References pushed in coordinatedPush */
+  pushedReferences: number;
+}
+
+export interface AttackLeg {
+  actor: "attacker" | "victim";
+  /** "protected" or the reference index */
+  pool: "protected" | number;
+  /** Buying currency0 with the base currency is oneForZero */
+  zeroForOne: boolean;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+  /** Hook tier for protected swaps, null for references */
+  tier: FeeTier | null;
+  /** False when the swap reverted */
+  executed: boolean;
+}
+
+export interface AttackOutcome {
+  scenario: AttackScenario;
+  /** Fees the attacker paid, in the base currency at pre-attack prices */
+  cost: bigint;
+  /** Change in the attacker's holdings at pre-attack prices; fees included */
+  profit: bigint;
+  /** An attacker swap on the protected pool was charged the elevated fee or blocked */
+  detected: boolean;
+  /** An attacker swap on the protected pool hit the circuit breaker */
+  blocked: boolean;
+  legs: AttackLeg[];
+}
+
+const Q192 = 1n << 192n;
+const FEE_DENOMINATOR = 1_000_000n;
+
+/** Base currency that moves a range's price up by about `bps`, fee included */
+function amountToPush(pool: { sqrtPriceX96: bigint; liquidity: bigint }, bps: number, fee: number) {
+  // The price moves twice as much as sqrtP, which moves by amountIn / L
+  const net = (pool.liquidity * pool.sqrtPriceX96 * BigInt(bps)) / (20000n << 96n);
+  return (net * FEE_DENOMINATOR) / (FEE_DENOMINATOR - BigInt(fee));
+}
+
+/** Value of `amount0` of a pool's currency0 in the base currency */
+function valueOf(amount0: bigint, sqrtPriceX96: bigint): bigint {
+  return (amount0 * sqrtPriceX96 * sqrtPriceX96) / Q192;
+}
+
+/** One run of the market: pool states, the hook's cache and the attacker's holdings */
+function createMarket(market: AttackMarket) {
+  const initialRefs = market.references.map((ref) => ref.sqrtPriceX96);
+  let protectedPool = { ...market.protectedPool };
+  const references = market.references.map((ref) => ({ ...ref }));
+  let cached = market.cachedReferencePrices ?? initialRefs;
+  // Attacker holdings: base currency, protected currency0, each reference's currency0
+  const holdings = { base: 0n, asset: 0n, refAssets: references.map(() => 0n) };
+  const legs: AttackLeg[] = [];
+  let fees = 0n;
+
+  const refPrices = () => references.map((ref) => ref.sqrtPriceX96);
+
+  function record(leg: AttackLeg, valueAt: bigint | null) {
+    legs.push(leg);
+    if (leg.actor !== "attacker" || !leg.executed) return;
+    // Fees on currency0 inputs are valued at the pool's pre-attack price
+    fees += valueAt === null ? leg.feeAmount : valueOf(leg.feeAmount, valueAt);
+  }
+
+  return {
+    legs,
+    holdings,
+
+    /** Swap on the protected pool through the hook */
+    swapProtected(actor: AttackLeg["actor"], zeroForOne: boolean, amountIn: bigint): AttackLeg {
+      const decision = simulateHookDecision(market.config, refPrices(), cached, protectedPool, {
+        zeroForOne,
+        amountSpecified: -amountIn,
+      });
+      const quote =
+        decision.fee === null
+          ? null
+          : estimateExactInput(protectedPool, amountIn, zeroForOne, decision.fee);
+      const leg: AttackLeg = {
+        actor,
+        pool: "protected",
+        zeroForOne,
+        amountIn,
+        amountOut: quote?.amountOut ?? 0n,
+        feeAmount: quote?.feeAmount ?? 0n,
+        tier: decision.tier,
+        executed: !!quote?.sqrtPriceAfterX96,
+      };
+      if (quote?.sqrtPriceAfterX96) {
+        protectedPool = { ...protectedPool, sqrtPriceX96: quote.sqrtPriceAfterX96 };
+        // _afterSwap
+        cached = refPrices();
+        if (actor === "attacker") {
+          holdings.base += zeroForOne ? quote.amountOut : -amountIn;
+          holdings.asset += zeroForOne ? -amountIn : quote.amountOut;
+        }
+      }
+      record(leg, zeroForOne ? market.protectedPool.sqrtPriceX96 : null);
+      return leg;
+    },
+
+    /** Attacker swap on reference `i`, which has no hook */
+    swapReference(i: number, zeroForOne: boolean, amountIn: bigint): AttackLeg {
+      const ref = references[i];
+      const quote = estimateExactInput(ref, amountIn, zeroForOne, ref.fee);
+      const leg: AttackLeg = {
+        actor: "attacker",
+        pool: i,
+        zeroForOne,
+        amountIn,
+        amountOut: quote?.amountOut ?? 0n,
+        feeAmount: quote?.feeAmount ?? 0n,
+        tier: null,
+        executed: !!quote?.sqrtPriceAfterX96,
+      };
+      if (quote?.sqrtPriceAfterX96) {
+        ref.sqrtPriceX96 = quote.sqrtPriceAfterX96;
+        holdings.base += zeroForOne ? quote.amountOut : -amountIn;
+        holdings.refAssets[i] += zeroForOne ? -amountIn : quote.amountOut;
+      }
+      record(leg, zeroForOne ? initialRefs[i] : null);
+      return leg;
+    },
+
+    outcome(scenario: AttackScenario): AttackOutcome {
+      const attackerLegs = legs.filter((l) => l.actor === "attacker" && l.pool === "protected");
+      const value =
+        holdings.base +
+        valueOf(holdings.asset, market.protectedPool.sqrtPriceX96) +
+        holdings.refAssets.reduce((sum, amount, i) => sum + valueOf(amount, initialRefs[i]), 0n);
+      return {
+        scenario,
+        cost: fees,
+        profit: value,
+        detected: attackerLegs.some((l) => l.tier !== "base"),
+        blocked: attackerLegs.some((l) => l.tier === "blocked"),
+        legs,
+      };
+    },
+  };
+}
+
+type Market = ReturnType<typeof createMarket>;
+
+/** Sell `amount` of the protected asset in `steps` equal swaps */
+function sellAsset(m: Market, amount: bigint, steps: number) {
+  for (let i = 0; i < steps; i++) {
+    const size = i === steps - 1 ? m.holdings.asset : amount / BigInt(steps);
+    if (size > 0n) m.swapProtected("attacker", true, size);
+  }
+}
+
+/**
+ * Push `pushed` references up, pump the protected pool while the hook reads
+ * those moves as market-wide, let the victim buy, then unwind the references
+ * before dumping so the fall looks market-wide too.
+ */
+function pushAndPump(m: Market, market: AttackMarket, params: AttackParams, pushed: number, steps: number) {
+  const count = Math.min(pushed, market.references.length);
+  for (let i = 0; i < count; i++) {
+    const ref = market.references[i];
+    m.swapReference(i, false, amountToPush(ref, params.pushBps, ref.fee));
+  }
+
+  const pump = amountToPush(market.protectedPool, params.pushBps, market.config.baseFee);
+  for (let i = 0; i < steps; i++) {
+    m.swapProtected("attacker", false, pump / BigInt(steps));
+  }
+  if (params.victimAmountIn > 0n) m.swapProtected("victim", false, params.victimAmountIn);
+
+  for (let i = 0; i < count; i++) {
+    if (m.holdings.refAssets[i] > 0n) m.swapReference(i, true, m.holdings.refAssets[i]);
+  }
+  sellAsset(m, m.holdings.asset, steps);
+}
+
+/**
+ * Largest front-run that still lets the victim's swap clear their minimum
+ * output, found by bisection on a copy of the market.
+ */
+function sandwichSize(market: AttackMarket, params: AttackParams): bigint {
+  // The victim's quote is what the hook would charge them on the untouched pool
+  const fair = createMarket(market).swapProtected("victim", false, params.victimAmountIn);
+  if (!fair.executed) return 0n;
+  const minOut = (fair.amountOut * BigInt(10000 - params.victimSlippageBps)) / 10000n;
+  const victimClears = (frontRun: bigint) => {
+    const m = createMarket(market);
+    if (frontRun > 0n && !m.swapProtected("attacker", false, frontRun).executed) return false;
+    const victim = m.swapProtected("victim", false, params.victimAmountIn);
+    return victim.executed && victim.amountOut >= minOut;
+  };
+
+  let lo = 0n;
+  let hi = params.victimAmountIn * 100n;
+  if (!victimClears(lo)) return 0n;
+  if (victimClears(hi)) return hi;
+  while (hi - lo > 1n) {
+    const mid = (lo + hi) / 2n;
+    if (victimClears(mid)) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** Run one scripted attack against a fresh copy of `market` */
+export function runAttack(
+  market: AttackMarket,
+  scenario: AttackScenario,
+  params: AttackParams
+): AttackOutcome {
+  if (market.references.length !== market.config.referencePoolIds.length) {
+    throw new Error("Market and config have different reference counts");
+  }
+  const m = createMarket(market);
+
+  switch (scenario) {
+    case "pumpAndDump":
+      pushAndPump(m, market, params, 0, Math.max(1, params.steps));
+      break;
+    case "singleReferencePush":
+      pushAndPump(m, market, params, 1, 1);
+      break;
+    case "coordinatedPush":
+      pushAndPump(m, market, params, params.pushedReferences, 1);
+      break;
+    case "sandwich": {
+      const frontRun = sandwichSize(market, params);
+      if (frontRun > 0n) m.swapProtected("attacker", false, frontRun);
+      m.swapProtected("victim", false, params.victimAmountIn);
+      sellAsset(m, m.holdings.asset, 1);
+      break;
+    }
+  }
+  return m.outcome(scenario);
+}
+
+export interface ScorecardRow {
+  aggregationMode: AggregationMode;
+  maxRefMoveBps: number;
+  outcomes: AttackOutcome[];
+}
+
+/** Every scenario for each aggregation mode and maxRefMoveBps setting */
+export function attackScorecard(
+  market: AttackMarket,
+  params: AttackParams,
+  maxRefMoveBps: number[] = [0, 200, 500, 1000],
+  aggregationModes: AggregationMode[] = [AGGREGATION_MAX, AGGREGATION_MEDIAN]
+): ScorecardRow[] {
+  return aggregationModes.flatMap((aggregationMode) =>
+    maxRefMoveBps.map((cap) => {
+      const setting = { ...market, config: { ...market.config, aggregationMode, maxRefMoveBps: cap } };
+      return {
+        aggregationMode,
+        maxRefMoveBps: cap,
+        outcomes: ATTACK_SCENARIOS.map((scenario) => runAttack(setting, scenario, params)),
+      };
+    })
+  );
+}
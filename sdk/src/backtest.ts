@@ -0,0 +1,207 @@
+import type { Hex } from "viem";
+import { simulateHookDecision, type HookDecision } from "./hookDecision";
+import { asRecord, invalidField } from "./jsonFields";
+import type { PoolConfig } from "./poolConfig";
+import { exactInputFee, type TokenAmounts } from "./thresholdTuning";
+import { priceChangeBps } from "./utils";
+
+// Offline backtest of the hook on a recorded PoolManager event stream for a
+// candidate protected pool and its references. lastReferenceSqrtPrices is
+// simulated exactly: _afterInitialize and every swap that passes _beforeSwap
+// cache the references' current prices; a breaker revert leaves it alone.
+// Pool prices and liquidity follow the recording, so swaps after a trip are
+// replayed as if it had gone through.
+
+export interface StreamEvent {
+  /** "snapshot" seeds a pool's state without hook callbacks, for streams starting mid-history */
+  type: "initialize" | "swap" | "snapshot";
+  blockNumber: bigint;
+  logIndex: number;
+  poolId: Hex;
+  /** Price and in-range liquidity after the event */
+  sqrtPriceX96: bigint;
+  liquidity: bigint;
+  /** Swapper balance deltas (negative = paid); 0 for other events */
+  amount0: bigint;
+  amount1: bigint;
+  /** Raw SwapParams.amountSpecified when recorded; otherwise exact input is assumed */
+  amountSpecified?: bigint;
+}
+
+export interface BacktestSwap {
+  blockNumber: bigint;
+  logIndex: number;
+  zeroForOne: boolean;
+  amountSpecified: bigint;
+  amountIn: bigint;
+  decision: HookDecision;
+  /** Each reference's move since its cached price, before alignment and capping */
+  referenceMovesBps: number[];
+  /** LP fee charged in the input currency; 0 when the breaker tripped */
+  feeAmount: bigint;
+}
+
+export interface BacktestReport {
+  swaps: BacktestSwap[];
+  base: number;
+  elevated: number;
+  breakerTrips: number;
+  feeRevenue: TokenAmounts;
+  /** Fees above what baseFee alone would have earned on the swaps that went through */
+  extraLpRevenue: TokenAmounts;
+  /** Input of swaps the breaker reverted */
+  blockedVolume: TokenAmounts;
+  /** lastReferenceSqrtPrices at the end of the stream */
+  lastReferenceSqrtPrices: bigint[];
+}
+
+function compareEvents(a: StreamEvent, b: StreamEvent): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  return a.logIndex - b.logIndex;
+}
+
+/**
+ * Run the hook over `events` for the pool `protectedPoolId` registered with
+ * `config`. `initialReferenceSqrtPrices` seeds the cache for streams that
+ * start after the protected pool was initialized (seed the pools' state with
+ * snapshot events); it defaults to zeros, which is what the hook holds for a
+ * pool registered after initialization.
+ */
+export function runBacktest(
+  config: PoolConfig,
+  protectedPoolId: Hex,
+  events: readonly StreamEvent[],
+  initialReferenceSqrtPrices: readonly bigint[] = config.referencePoolIds.map(() => 0n)
+): BacktestReport {
+  const report: BacktestReport = {
+    swaps: [],
+    base: 0,
+    elevated: 0,
+    breakerTrips: 0,
+    feeRevenue: { amount0: 0n, amount1: 0n },
+    extraLpRevenue: { amount0: 0n, amount1: 0n },
+    blockedVolume: { amount0: 0n, amount1: 0n },
+    lastReferenceSqrtPrices: [...initialReferenceSqrtPrices],
+  };
+  const protectedId = protectedPoolId.toLowerCase();
+  const referenceIds = config.referencePoolIds.map((id) => id.toLowerCase());
+  const pools = new Map<string, { sqrtPriceX96: bigint; liquidity: bigint }>();
+  // getSlot0 of an uninitialized pool is zero
+  const referencePrices = () => referenceIds.map((id) => pools.get(id)?.sqrtPriceX96 ?? 0n);
+
+  for (const event of [...events].sort(compareEvents)) {
+    const id = event.poolId.toLowerCase();
+    const after = { sqrtPriceX96: event.sqrtPriceX96, liquidity: event.liquidity };
+
+    if (id !== protectedId || event.type === "snapshot") {
+      pools.set(id, after);
+      continue;
+    }
+    if (event.type === "initialize") {
+      pools.set(id, after);
+      // _afterInitialize
+      report.lastReferenceSqrtPrices = referencePrices();
+      continue;
+    }
+
+    const state = pools.get(id) ?? { sqrtPriceX96: 0n, liquidity: 0n };
+    const zeroForOne = event.amount0 < 0n;
+    const amountIn = zeroForOne ? -event.amount0 : -event.amount1;
+    const amountSpecified = event.amountSpecified ?? -amountIn;
+    const current = referencePrices();
+    const cached = report.lastReferenceSqrtPrices;
+    const decision = simulateHookDecision(config, current, cached, state, {
+      zeroForOne,
+      amountSpecified,
+    });
+    const side = zeroForOne ? "amount0" : "amount1";
+
+    let feeAmount = 0n;
+    if (decision.fee === null) {
+      report.breakerTrips++;
+      report.blockedVolume[side] += amountIn;
+    } else {
+      feeAmount = exactInputFee(amountIn, decision.fee);
+      report[decision.tier === "elevated" ? "elevated" : "base"]++;
+      report.feeRevenue[side] += feeAmount;
+      report.extraLpRevenue[side] += feeAmount - exactInputFee(amountIn, config.baseFee);
+      // _afterSwap
+      report.lastReferenceSqrtPrices = current;
+    }
+    report.swaps.push({
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      zeroForOne,
+      amountSpecified,
+      amountIn,
+      decision,
+      referenceMovesBps: current.map((price, i) => priceChangeBps(cached[i], price)),
+      feeAmount,
+    });
+    pools.set(id, after);
+  }
+  return report;
+}
+
+function readEvent(row: Record<string, unknown>, label: string): StreamEvent {
+  const fail = (field: string): never => invalidField(label, field);
+  const bigint = (field: string, fallback?: bigint): bigint => {
+    const value = row[field];
+    if ((value === undefined || value === "") && fallback !== undefined) return fallback;
+    if (typeof value === "string" && /^-?\d+$/.test(value.trim())) return BigInt(value.trim());
+    if (typeof value === "number" && Number.isSafeInteger(value)) return BigInt(value);
+    return fail(field);
+  };
+
+  const type = row.type;
+  if (type !== "initialize" && type !== "swap" && type !== "snapshot") fail("type");
+  const poolId = row.poolId;
+  if (typeof poolId !== "string" || !/^0x[0-9a-fA-F]{64}$/.test(poolId)) fail("poolId");
+  const optional = type === "swap" ? undefined : 0n;
+  const amountSpecified =
+    row.amountSpecified === undefined || row.amountSpecified === ""
+      ? undefined
+      : bigint("amountSpecified");
+
+  return {
+    type: type as StreamEvent["type"],
+    blockNumber: bigint("blockNumber"),
+    logIndex: Number(bigint("logIndex", 0n)),
+    poolId: poolId as Hex,
+    sqrtPriceX96: bigint("sqrtPriceX96"),
+    liquidity: bigint("liquidity", 0n),
+    amount0: bigint("amount0", optional),
+    amount1: bigint("amount1", optional),
+    ...(amountSpecified === undefined ? {} : { amountSpecified }),
+  };
+}
+
+/** Events from a JSON array; bigints may be numbers or decimal strings */
+export function parseEventStreamJson(raw: unknown): StreamEvent[] {
+  if (!Array.isArray(raw)) throw new Error("Event stream must be an array");
+  return raw.map((row: unknown, i) => {
+    const record = asRecord(row);
+    if (!record) throw new Error(`Event ${i} must be an object`);
+    return readEvent(record, `Event ${i}`);
+  });
+}
+
+/**
+ * Events from CSV with a header row naming at least type, blockNumber,
+ * poolId and sqrtPriceX96; logIndex, liquidity, amount0, amount1 and
+ * amountSpecified are optional columns.
+ */
+export function parseEventStreamCsv(text: string): StreamEvent[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length === 0) return [];
+  const header = lines[0].split(",").map((name) => name.trim());
+  for (const required of ["type", "blockNumber", "poolId", "sqrtPriceX96"]) {
+    if (!header.includes(required)) throw new Error(`CSV header is missing "${required}"`);
+  }
+  return lines.slice(1).map((line, i) => {
+    const cells = line.split(",").map((cell) => cell.trim());
+    const row = Object.fromEntries(header.map((name, j) => [name, cells[j] ?? ""]));
+    return readEvent(row, `CSV line ${i + 2}`);
+  });
+}
+
@@ -0,0 +1,127 @@
+import type { Address, Hex, PublicClient, WalletClient } from "viem";
+import { hookAbi } from "./contracts";
+import type { Deployment } from "./deployment";
+import { fetchHookEvents, type HookEvent } from "./eventIndexer";
+import { simulateHookDecision, type HookDecision } from "./hookDecision";
+import { decodePoolConfig, type PoolConfig } from "./poolConfig";
+import { fetchPoolSnapshot, type PoolSnapshot, type ReferenceState } from "./poolSnapshot";
+import { estimateExactInput, estimateExactOutput, type SwapQuote } from "./quote";
+import { registrationCall, validateRegistration, type Registration } from "./registration";
+
+export interface CrossPoolOracleAddresses {
+  hook: Address;
+  poolManager: Address;
+}
+
+export interface PreviewSwapParams {
+  zeroForOne: boolean;
+  /** Input for exact-input swaps, output for exact-output ones */
+  amount: bigint;
+  exactOutput?: boolean;
+}
+
+export interface SwapPreview {
+  blockNumber: bigint;
+  decision: HookDecision;
+  /** In-range estimate at the hook's fee; null when blocked or the range cannot fill it */
+  quote: SwapQuote | null;
+}
+
+/**
+ * The hook and PoolManager behind one deployment, read through a viem
+ * PublicClient. Methods take the protected pool's PoolId, so one client
+ * covers every pool the hook protects.
+ */
+export class CrossPoolOracleClient {
+  constructor(
+    readonly publicClient: PublicClient,
+    readonly addresses: CrossPoolOracleAddresses
+  ) {}
+
+  static fromDeployment(publicClient: PublicClient, deployment: Deployment): CrossPoolOracleClient {
+    return new CrossPoolOracleClient(publicClient, deployment.addresses);
+  }
+
+  /** The pool's registration, or null when it is not registered */
+  async getPoolConfig(poolId: Hex, blockNumber?: bigint): Promise<PoolConfig | null> {
+    const result = await this.publicClient.readContract({
+      address: this.addresses.hook,
+      abi: hookAbi,
+      functionName: "getPoolConfig",
+      args: [poolId],
+      blockNumber,
+    });
+    return decodePoolConfig(result);
+  }
+
+  /** Pool state, config and references read at one block (default: head) */
+  getSnapshot(poolId: Hex, blockNumber?: bigint): Promise<PoolSnapshot> {
+    return fetchPoolSnapshot(
+      this.publicClient,
+      { addresses: this.addresses, protectedPool: { id: poolId }, referencePools: [] },
+      blockNumber
+    );
+  }
+
+  /** Each reference's state and the hook's cached price for it, in config order */
+  async getReferenceStates(poolId: Hex, blockNumber?: bigint): Promise<ReferenceState[]> {
+    return (await this.getSnapshot(poolId, blockNumber)).references;
+  }
+
+  /** What the hook would decide for a router swap, and an in-range quote at that fee */
+  async previewSwap(
+    poolId: Hex,
+    { zeroForOne, amount, exactOutput = false }: PreviewSwapParams,
+    blockNumber?: bigint
+  ): Promise<SwapPreview> {
+    const snapshot = await this.getSnapshot(poolId, blockNumber);
+    if (!snapshot.config) throw new Error(`Pool ${poolId} is not registered with the hook`);
+
+    // The router passes exact-input swaps to the hook as negative amounts
+    const decision = simulateHookDecision(
+      snapshot.config,
+      snapshot.references.map((ref) => ref.sqrtPriceX96),
+      snapshot.references.map((ref) => ref.cachedSqrtPriceX96),
+      snapshot.protectedPool,
+      { zeroForOne, amountSpecified: exactOutput ? amount : -amount }
+    );
+    const estimate = exactOutput ? estimateExactOutput : estimateExactInput;
+    const quote =
+      decision.fee === null ? null : estimate(snapshot.protectedPool, amount, zeroForOne, decision.fee);
+    return { blockNumber: snapshot.blockNumber, decision, quote };
+  }
+
+  /** DynamicFeeApplied and CircuitBreakerHit events for the pool, oldest first */
+  getEvents(
+    poolId: Hex,
+    fromBlock: bigint,
+    toBlock?: bigint,
+    signal?: AbortSignal
+  ): Promise<HookEvent[]> {
+    return fetchHookEvents(this.publicClient, this.addresses.hook, poolId, fromBlock, toBlock, signal);
+  }
+
+  /**
+   * Validate `registration` and send registerPool or registerPoolMultiRef from
+   * the wallet's account, which must be the hook owner. Resolves to the
+   * transaction hash.
+   */
+  async register(wallet: WalletClient, registration: Registration): Promise<Hex> {
+    const errors = validateRegistration(registration, this.addresses.hook);
+    if (errors.length > 0) throw new Error(`Invalid registration: ${errors.join("; ")}`);
+    if (!wallet.account) throw new Error("Wallet client has no account");
+
+    const target = {
+      address: this.addresses.hook,
+      abi: hookAbi,
+      account: wallet.account,
+      chain: wallet.chain,
+    };
+    const call = registrationCall(registration);
+    // Branch so each call type-checks against its own function's args
+    if (call.functionName === "registerPool") {
+      return wallet.writeContract({ ...target, ...call });
+    }
+    return wallet.writeContract({ ...target, ...call });
+  }
+}
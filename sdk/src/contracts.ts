@@ -0,0 +1,550 @@
+// Addresses, pool keys and pool IDs come from deployment files (deployment.ts).
+
+// === ABIs ===
+// Hand-written subset of the hook ABI (views, admin functions, events and
+// errors). test/abiDrift.test.ts checks it against the generated
+// src/generated/crossPoolOracleHookAbi.ts.
+export const hookAbi = [
+  {
+    type: "function",
+    name: "getPoolConfig",
+    inputs: [{ name: "poolId", type: "bytes32" }],
+    outputs: [
+      { name: "referencePoolIds", type: "bytes32[]" },
+      { name: "referenceZeroForOne", type: "bool[]" },
+      { name: "baseFee", type: "uint24" },
+      { name: "highImpactFee", type: "uint24" },
+      { name: "highImpactThresholdBps", type: "uint256" },
+      { name: "circuitBreakerBps", type: "uint256" },
+      { name: "maxRefMoveBps", type: "uint256" },
+      { name: "aggregationMode", type: "uint8" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "poolConfigs",
+    inputs: [{ name: "poolId", type: "bytes32" }],
+    outputs: [
+      { name: "referencePoolId", type: "bytes32" },
+      { name: "referenceZeroForOne", type: "bool" },
+      { name: "baseFee", type: "uint24" },
+      { name: "highImpactFee", type: "uint24" },
+      { name: "highImpactThresholdBps", type: "uint256" },
+      { name: "circuitBreakerBps", type: "uint256" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "lastReferenceSqrtPrices",
+    inputs: [
+      { name: "", type: "bytes32" },
+      { name: "", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "uint160" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "lastReferenceSqrtPrice",
+    inputs: [{ name: "", type: "bytes32" }],
+    outputs: [{ name: "", type: "uint160" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "owner",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "poolManager",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getHookPermissions",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "beforeInitialize", type: "bool" },
+          { name: "afterInitialize", type: "bool" },
+          { name: "beforeAddLiquidity", type: "bool" },
+          { name: "afterAddLiquidity", type: "bool" },
+          { name: "beforeRemoveLiquidity", type: "bool" },
+          { name: "afterRemoveLiquidity", type: "bool" },
+          { name: "beforeSwap", type: "bool" },
+          { name: "afterSwap", type: "bool" },
+          { name: "beforeDonate", type: "bool" },
+          { name: "afterDonate", type: "bool" },
+          { name: "beforeSwapReturnDelta", type: "bool" },
+          { name: "afterSwapReturnDelta", type: "bool" },
+          { name: "afterAddLiquidityReturnDelta", type: "bool" },
+          { name: "afterRemoveLiquidityReturnDelta", type: "bool" },
+        ],
+      },
+    ],
+    stateMutability: "pure",
+  },
+  {
+    type: "function",
+    name: "registerPool",
+    inputs: [
+      {
+        name: "protectedPoolKey",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      { name: "referencePoolId", type: "bytes32" },
+      { name: "referenceZeroForOne", type: "bool" },
+      { name: "baseFee", type: "uint24" },
+      { name: "highImpactFee", type: "uint24" },
+      { name: "highImpactThresholdBps", type: "uint256" },
+      { name: "circuitBreakerBps", type: "uint256" },
+      { name: "maxRefMoveBps", type: "uint256" },
+      { name: "aggregationMode", type: "uint8" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "registerPoolMultiRef",
+    inputs: [
+      {
+        name: "protectedPoolKey",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      { name: "referencePoolIds", type: "bytes32[]" },
+      { name: "referenceZeroForOne", type: "bool[]" },
+      { name: "baseFee", type: "uint24" },
+      { name: "highImpactFee", type: "uint24" },
+      { name: "highImpactThresholdBps", type: "uint256" },
+      { name: "circuitBreakerBps", type: "uint256" },
+      { name: "maxRefMoveBps", type: "uint256" },
+      { name: "aggregationMode", type: "uint8" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "event",
+    name: "DynamicFeeApplied",
+    inputs: [
+      { name: "poolId", type: "bytes32", indexed: true },
+      { name: "fee", type: "uint24", indexed: false },
+      { name: "impactBps", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "CircuitBreakerHit",
+    inputs: [
+      { name: "poolId", type: "bytes32", indexed: true },
+      { name: "impactBps", type: "uint256", indexed: false },
+      { name: "refPriceChangeBps", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "PoolRegistered",
+    inputs: [
+      { name: "protectedPoolId", type: "bytes32", indexed: true },
+      { name: "referenceCount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "error",
+    name: "CircuitBreakerTriggered",
+    inputs: [{ name: "impactBps", type: "uint256" }],
+  },
+  { type: "error", name: "PoolNotRegistered", inputs: [] },
+  { type: "error", name: "OnlyOwner", inputs: [] },
+  { type: "error", name: "TooManyReferences", inputs: [] },
+  { type: "error", name: "EmptyReferences", inputs: [] },
+  { type: "error", name: "InvalidAggregationMode", inputs: [] },
+  { type: "error", name: "NotPoolManager", inputs: [] },
+  { type: "error", name: "HookNotImplemented", inputs: [] },
+  {
+    type: "error",
+    name: "HookAddressNotValid",
+    inputs: [{ name: "hooks", type: "address" }],
+  },
+] as const;
+
+export const poolManagerAbi = [
+  {
+    type: "function",
+    name: "extsload",
+    inputs: [{ name: "slot", type: "bytes32" }],
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "extsload",
+    inputs: [{ name: "slots", type: "bytes32[]" }],
+    outputs: [{ name: "", type: "bytes32[]" }],
+    stateMutability: "view",
+  },
+  {
+    type: "event",
+    name: "Initialize",
+    inputs: [
+      { name: "id", type: "bytes32", indexed: true },
+      { name: "currency0", type: "address", indexed: true },
+      { name: "currency1", type: "address", indexed: true },
+      { name: "fee", type: "uint24", indexed: false },
+      { name: "tickSpacing", type: "int24", indexed: false },
+      { name: "hooks", type: "address", indexed: false },
+      { name: "sqrtPriceX96", type: "uint160", indexed: false },
+      { name: "tick", type: "int24", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "Swap",
+    inputs: [
+      { name: "id", type: "bytes32", indexed: true },
+      { name: "sender", type: "address", indexed: true },
+      { name: "amount0", type: "int128", indexed: false },
+      { name: "amount1", type: "int128", indexed: false },
+      { name: "sqrtPriceX96", type: "uint160", indexed: false },
+      { name: "liquidity", type: "uint128", indexed: false },
+      { name: "tick", type: "int24", indexed: false },
+      { name: "fee", type: "uint24", indexed: false },
+    ],
+  },
+] as const;
+
+export const erc20Abi = [
+  {
+    type: "function",
+    name: "balanceOf",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "approve",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "allowance",
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "symbol",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "name",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "decimals",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+    stateMutability: "view",
+  },
+] as const;
+
+export const permit2Abi = [
+  {
+    type: "function",
+    name: "approve",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint160" },
+      { name: "expiration", type: "uint48" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+] as const;
+
+export const swapRouterAbi = [
+  {
+    type: "function",
+    name: "swapExactTokensForTokens",
+    inputs: [
+      { name: "amountIn", type: "uint256" },
+      { name: "amountOutMin", type: "uint256" },
+      { name: "zeroForOne", type: "bool" },
+      {
+        name: "poolKey",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      { name: "hookData", type: "bytes" },
+      { name: "receiver", type: "address" },
+      { name: "deadline", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "int256" }],
+    stateMutability: "payable",
+  },
+  {
+    type: "function",
+    name: "swapTokensForExactTokens",
+    inputs: [
+      { name: "amountOut", type: "uint256" },
+      { name: "amountInMax", type: "uint256" },
+      { name: "zeroForOne", type: "bool" },
+      {
+        name: "poolKey",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      { name: "hookData", type: "bytes" },
+      { name: "receiver", type: "address" },
+      { name: "deadline", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "int256" }],
+    stateMutability: "payable",
+  },
+] as const;
+
+// === Errors ===
+
+// PoolManager and v4-core library errors. WrappedError carries a revert
+// from a hook or token call made by the PoolManager.
+export const poolManagerErrorsAbi = [
+  {
+    type: "error",
+    name: "WrappedError",
+    inputs: [
+      { name: "target", type: "address" },
+      { name: "selector", type: "bytes4" },
+      { name: "reason", type: "bytes" },
+      { name: "details", type: "bytes" },
+    ],
+  },
+  { type: "error", name: "CurrencyNotSettled", inputs: [] },
+  { type: "error", name: "PoolNotInitialized", inputs: [] },
+  { type: "error", name: "PoolAlreadyInitialized", inputs: [] },
+  { type: "error", name: "AlreadyUnlocked", inputs: [] },
+  { type: "error", name: "ManagerLocked", inputs: [] },
+  {
+    type: "error",
+    name: "TickSpacingTooLarge",
+    inputs: [{ name: "tickSpacing", type: "int24" }],
+  },
+  {
+    type: "error",
+    name: "TickSpacingTooSmall",
+    inputs: [{ name: "tickSpacing", type: "int24" }],
+  },
+  {
+    type: "error",
+    name: "CurrenciesOutOfOrderOrEqual",
+    inputs: [
+      { name: "currency0", type: "address" },
+      { name: "currency1", type: "address" },
+    ],
+  },
+  { type: "error", name: "UnauthorizedDynamicLPFeeUpdate", inputs: [] },
+  { type: "error", name: "SwapAmountCannotBeZero", inputs: [] },
+  { type: "error", name: "NonzeroNativeValue", inputs: [] },
+  { type: "error", name: "MustClearExactPositiveDelta", inputs: [] },
+  {
+    type: "error",
+    name: "PriceLimitAlreadyExceeded",
+    inputs: [
+      { name: "sqrtPriceCurrentX96", type: "uint160" },
+      { name: "sqrtPriceLimitX96", type: "uint160" },
+    ],
+  },
+  {
+    type: "error",
+    name: "PriceLimitOutOfBounds",
+    inputs: [{ name: "sqrtPriceLimitX96", type: "uint160" }],
+  },
+  { type: "error", name: "NoLiquidityToReceiveFees", inputs: [] },
+  { type: "error", name: "InvalidFeeForExactOut", inputs: [] },
+  {
+    type: "error",
+    name: "TicksMisordered",
+    inputs: [
+      { name: "tickLower", type: "int24" },
+      { name: "tickUpper", type: "int24" },
+    ],
+  },
+  {
+    type: "error",
+    name: "TickLowerOutOfBounds",
+    inputs: [{ name: "tickLower", type: "int24" }],
+  },
+  {
+    type: "error",
+    name: "TickUpperOutOfBounds",
+    inputs: [{ name: "tickUpper", type: "int24" }],
+  },
+  {
+    type: "error",
+    name: "TickLiquidityOverflow",
+    inputs: [{ name: "tick", type: "int24" }],
+  },
+  {
+    type: "error",
+    name: "InvalidTick",
+    inputs: [{ name: "tick", type: "int24" }],
+  },
+  {
+    type: "error",
+    name: "InvalidSqrtPrice",
+    inputs: [{ name: "sqrtPriceX96", type: "uint160" }],
+  },
+  { type: "error", name: "InvalidHookResponse", inputs: [] },
+  { type: "error", name: "HookCallFailed", inputs: [] },
+  { type: "error", name: "HookDeltaExceedsSwapAmount", inputs: [] },
+  {
+    type: "error",
+    name: "LPFeeTooLarge",
+    inputs: [{ name: "fee", type: "uint24" }],
+  },
+  { type: "error", name: "NativeTransferFailed", inputs: [] },
+  { type: "error", name: "ERC20TransferFailed", inputs: [] },
+  { type: "error", name: "SafeCastOverflow", inputs: [] },
+] as const;
+
+// Swap router slippage and deadline errors
+export const swapRouterErrorsAbi = [
+  {
+    type: "error",
+    name: "DeadlinePassed",
+    inputs: [{ name: "deadline", type: "uint256" }],
+  },
+  { type: "error", name: "SlippageExceeded", inputs: [] },
+  {
+    type: "error",
+    name: "V4TooLittleReceived",
+    inputs: [
+      { name: "minAmountOutReceived", type: "uint256" },
+      { name: "amountReceived", type: "uint256" },
+    ],
+  },
+  {
+    type: "error",
+    name: "V4TooMuchRequested",
+    inputs: [
+      { name: "maxAmountInRequested", type: "uint256" },
+      { name: "amountRequested", type: "uint256" },
+    ],
+  },
+] as const;
+
+// Permit2 allowance and signature errors
+export const permit2ErrorsAbi = [
+  {
+    type: "error",
+    name: "AllowanceExpired",
+    inputs: [{ name: "deadline", type: "uint256" }],
+  },
+  {
+    type: "error",
+    name: "InsufficientAllowance",
+    inputs: [{ name: "amount", type: "uint256" }],
+  },
+  { type: "error", name: "ExcessiveInvalidation", inputs: [] },
+  {
+    type: "error",
+    name: "InvalidAmount",
+    inputs: [{ name: "maxAmount", type: "uint256" }],
+  },
+  { type: "error", name: "LengthMismatch", inputs: [] },
+  {
+    type: "error",
+    name: "SignatureExpired",
+    inputs: [{ name: "signatureDeadline", type: "uint256" }],
+  },
+  { type: "error", name: "InvalidNonce", inputs: [] },
+  { type: "error", name: "InvalidSignatureLength", inputs: [] },
+  { type: "error", name: "InvalidSignature", inputs: [] },
+  { type: "error", name: "InvalidSigner", inputs: [] },
+  { type: "error", name: "InvalidContractSignature", inputs: [] },
+] as const;
+
+// OpenZeppelin ERC20 errors
+export const erc20ErrorsAbi = [
+  {
+    type: "error",
+    name: "ERC20InsufficientBalance",
+    inputs: [
+      { name: "sender", type: "address" },
+      { name: "balance", type: "uint256" },
+      { name: "needed", type: "uint256" },
+    ],
+  },
+  {
+    type: "error",
+    name: "ERC20InsufficientAllowance",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "allowance", type: "uint256" },
+      { name: "needed", type: "uint256" },
+    ],
+  },
+  {
+    type: "error",
+    name: "ERC20InvalidSender",
+    inputs: [{ name: "sender", type: "address" }],
+  },
+  {
+    type: "error",
+    name: "ERC20InvalidReceiver",
+    inputs: [{ name: "receiver", type: "address" }],
+  },
+] as const;
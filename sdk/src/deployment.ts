@@ -0,0 +1,90 @@
+import type { Address, Hex } from "viem";
+import { asRecord, invalidField, readAddress, readInteger, readPoolKey } from "./jsonFields";
+import { toPoolId, assertValidPoolKey, type PoolKey } from "./poolKey";
+
+// Deployment files as written to /deployments, parsed and checked against
+// the hook so pool IDs can be derived from the keys.
+
+export interface Deployment {
+  chainId: number;
+  network: string;
+  deployedAt: string;
+  /** Block the hook was deployed in; event history starts here */
+  startBlock: bigint;
+  addresses: {
+    hook: Address;
+    poolManager: Address;
+    positionManager: Address;
+    swapRouter: Address;
+    permit2: Address;
+  };
+  protectedPool: { key: PoolKey; id: Hex };
+  referencePools: { key: PoolKey; id: Hex }[];
+}
+
+function withId(key: PoolKey) {
+  return { key, id: toPoolId(key) };
+}
+
+/** Parse one deployments/*.json file into a typed Deployment */
+export function parseDeployment(value: unknown): Deployment {
+  const raw = asRecord(value) ?? {};
+  const file = typeof raw.network === "string" ? raw.network : "<unnamed>";
+  const source = `Deployment ${file}`;
+  const contracts = asRecord(raw.contracts) ?? {};
+  const infrastructure = asRecord(raw.infrastructure) ?? {};
+  const pools = asRecord(raw.pools) ?? {};
+  const references = pools.references;
+  if (!Array.isArray(references) || references.length === 0) {
+    invalidField(source, "pools.references");
+  }
+
+  const deployment: Deployment = {
+    chainId: readInteger(source, "chainId", raw.chainId),
+    network: file,
+    deployedAt: typeof raw.deployedAt === "string" ? raw.deployedAt : "",
+    startBlock: BigInt(readInteger(source, "startBlock", raw.startBlock)),
+    addresses: {
+      hook: readAddress(source, "contracts.hook", contracts.hook),
+      poolManager: readAddress(source, "infrastructure.poolManager", infrastructure.poolManager),
+      positionManager: readAddress(source, "infrastructure.positionManager", infrastructure.positionManager),
+      swapRouter: readAddress(source, "infrastructure.swapRouter", infrastructure.swapRouter),
+      permit2: readAddress(source, "infrastructure.permit2", infrastructure.permit2),
+    },
+    protectedPool: withId(readPoolKey(source, "pools.protected", pools.protected)),
+    referencePools: references.map((ref: unknown, i: number) =>
+      withId(readPoolKey(source, `pools.references[${i}]`, ref))
+    ),
+  };
+  validateDeployment(file, deployment);
+  return deployment;
+}
+
+/**
+ * Fail loudly on keys that cannot match the on-chain pools; otherwise the UI
+ * would read empty PoolManager slots and show zeros.
+ */
+function validateDeployment(file: string, deployment: Deployment) {
+  const { hook } = deployment.addresses;
+  const { key } = deployment.protectedPool;
+  if (key.hooks !== hook) {
+    throw new Error(`Deployment ${file}: protected pool hooks ${key.hooks} is not the hook ${hook}`);
+  }
+  assertValidPoolKey(key, `${file} pools.protected`, hook);
+  deployment.referencePools.forEach((ref, i) =>
+    assertValidPoolKey(ref.key, `${file} pools.references[${i}]`, hook)
+  );
+}
+
+/** Parse a set of deployment files and key them by chainId */
+export function loadDeployments(files: unknown[]): Map<number, Deployment> {
+  const byChain = new Map<number, Deployment>();
+  for (const file of files) {
+    const deployment = parseDeployment(file);
+    if (byChain.has(deployment.chainId)) {
+      throw new Error(`Duplicate deployment for chainId ${deployment.chainId}`);
+    }
+    byChain.set(deployment.chainId, deployment);
+  }
+  return byChain;
+}
@@ -0,0 +1,209 @@
+import { getAbiItem, type Address, type Hex, type PublicClient } from "viem";
+import { hookAbi } from "./contracts";
+
+// Incremental indexer for the hook's per-swap events. History is backfilled
+// from the deployment block in chunks, then re-synced on every new block. The
+// last REORG_WINDOW blocks are always re-read, so logs that were reorged out
+// are dropped and replaced by the canonical chain's logs.
+
+export const feeEvent = getAbiItem({ abi: hookAbi, name: "DynamicFeeApplied" });
+export const breakerEvent = getAbiItem({ abi: hookAbi, name: "CircuitBreakerHit" });
+
+/** Blocks below head - REORG_WINDOW are treated as final */
+export const REORG_WINDOW = 64n;
+export const DEFAULT_CHUNK_SIZE = 5000n;
+/** Smallest range tried before a getLogs failure is reported */
+export const MIN_CHUNK_SIZE = 8n;
+
+export interface HookEvent {
+  /** `${transactionHash}-${logIndex}` */
+  id: string;
+  type: "fee" | "breaker";
+  poolId: Hex;
+  /** DynamicFeeApplied.fee */
+  fee?: number;
+  impactBps: bigint;
+  /** CircuitBreakerHit.refPriceChangeBps */
+  refPriceChangeBps?: bigint;
+  blockNumber: bigint;
+  blockHash: Hex;
+  txHash: Hex;
+  logIndex: number;
+}
+
+/** What the indexer has seen so far; persisted between page loads */
+export interface IndexerState {
+  /** Sorted by (blockNumber, logIndex) ascending */
+  events: HookEvent[];
+  /** Highest block whose logs are included, or null before the first sync */
+  syncedBlock: bigint | null;
+  /** Chunk size that last succeeded against this RPC */
+  chunkSize: bigint;
+}
+
+export interface IndexerSource {
+  hook: Address;
+  poolId: Hex;
+  /** Hook deployment block; nothing earlier is fetched */
+  startBlock: bigint;
+}
+
+export function emptyIndexerState(): IndexerState {
+  return { events: [], syncedBlock: null, chunkSize: DEFAULT_CHUNK_SIZE };
+}
+
+function compareEvents(a: HookEvent, b: HookEvent): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  return a.logIndex - b.logIndex;
+}
+
+async function fetchRange(
+  client: PublicClient,
+  source: IndexerSource,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<HookEvent[]> {
+  const logs = await client.getLogs({
+    address: source.hook,
+    events: [feeEvent, breakerEvent],
+    fromBlock,
+    toBlock,
+  });
+
+  const poolId = source.poolId.toLowerCase();
+  return logs
+    .filter((log) => !log.removed && log.args.poolId?.toLowerCase() === poolId)
+    .map((log) => {
+      const base = {
+        id: `${log.transactionHash}-${log.logIndex}`,
+        poolId: log.args.poolId as Hex,
+        impactBps: log.args.impactBps ?? 0n,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        txHash: log.transactionHash,
+        logIndex: log.logIndex,
+      };
+      return log.eventName === "DynamicFeeApplied"
+        ? { ...base, type: "fee" as const, fee: Number(log.args.fee ?? 0) }
+        : {
+            ...base,
+            type: "breaker" as const,
+            refPriceChangeBps: log.args.refPriceChangeBps ?? 0n,
+          };
+    });
+}
+
+/**
+ * Run `fetch` over [fromBlock, toBlock] in ranges of `chunkSize` blocks,
+ * halving the range down to MIN_CHUNK_SIZE when a call fails. For one-off
+ * scans; syncHookEvents keeps its chunk size in the persisted state instead.
+ */
+export async function fetchInChunks<T>(
+  fromBlock: bigint,
+  toBlock: bigint,
+  fetch: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>,
+  onProgress?: (scannedTo: bigint) => void,
+  signal?: AbortSignal
+): Promise<T[]> {
+  let results: T[] = [];
+  let chunkSize = DEFAULT_CHUNK_SIZE;
+
+  while (fromBlock <= toBlock) {
+    signal?.throwIfAborted();
+    const to = fromBlock + chunkSize - 1n < toBlock ? fromBlock + chunkSize - 1n : toBlock;
+    try {
+      results = results.concat(await fetch(fromBlock, to));
+    } catch (error) {
+      if (chunkSize <= MIN_CHUNK_SIZE) throw error;
+      chunkSize = chunkSize / 2n > MIN_CHUNK_SIZE ? chunkSize / 2n : MIN_CHUNK_SIZE;
+      continue;
+    }
+    onProgress?.(to);
+    fromBlock = to + 1n;
+  }
+  return results;
+}
+
+/**
+ * Bring `state` up to the current head. `onProgress` receives the state after
+ * every chunk so a long backfill can be persisted and resumed. A chunk that
+ * fails is retried at half the range until MIN_CHUNK_SIZE; past that the RPC
+ * error is thrown with the progress made so far already reported. A head a
+ * few blocks behind `state.syncedBlock`, as load-balanced RPCs report, only
+ * re-reads the reorg window; one more than REORG_WINDOW behind means the
+ * chain was reset, as when a local node restarts, so the state is discarded
+ * and synced again from the start block.
+ */
+export async function syncHookEvents(
+  client: PublicClient,
+  source: IndexerSource,
+  synced: IndexerState,
+  onProgress?: (state: IndexerState) => void,
+  signal?: AbortSignal
+): Promise<IndexerState> {
+  const head = await client.getBlockNumber();
+
+  let state = synced;
+  if (state.syncedBlock !== null && state.syncedBlock - REORG_WINDOW > head) {
+    state = { ...emptyIndexerState(), chunkSize: state.chunkSize };
+    onProgress?.(state);
+  }
+
+  let fromBlock = source.startBlock;
+  if (state.syncedBlock !== null) {
+    const rewind = state.syncedBlock + 1n - REORG_WINDOW;
+    if (rewind > fromBlock) fromBlock = rewind;
+  }
+  if (fromBlock > head) return state;
+
+  // Logs inside the re-read window are replaced, which drops reorged ones
+  let events = state.events.filter((event) => event.blockNumber < fromBlock);
+  let chunkSize = state.chunkSize > 0n ? state.chunkSize : DEFAULT_CHUNK_SIZE;
+  let current: IndexerState = state;
+
+  while (fromBlock <= head) {
+    signal?.throwIfAborted();
+    const toBlock = fromBlock + chunkSize - 1n < head ? fromBlock + chunkSize - 1n : head;
+
+    let fetched: HookEvent[];
+    try {
+      fetched = await fetchRange(client, source, fromBlock, toBlock);
+    } catch (error) {
+      if (chunkSize <= MIN_CHUNK_SIZE) throw error;
+      chunkSize = chunkSize / 2n > MIN_CHUNK_SIZE ? chunkSize / 2n : MIN_CHUNK_SIZE;
+      continue;
+    }
+
+    events = events.concat(fetched);
+    current = { events, syncedBlock: toBlock, chunkSize };
+    onProgress?.(current);
+    fromBlock = toBlock + 1n;
+  }
+
+  current.events.sort(compareEvents);
+  return current;
+}
+
+/**
+ * Hook events for one pool between `fromBlock` and `toBlock` (default: head),
+ * without the indexer's persisted state or reorg handling
+ */
+export async function fetchHookEvents(
+  client: PublicClient,
+  hook: Address,
+  poolId: Hex,
+  fromBlock: bigint,
+  toBlock?: bigint,
+  signal?: AbortSignal
+): Promise<HookEvent[]> {
+  const head = toBlock ?? (await client.getBlockNumber());
+  const source = { hook, poolId, startBlock: fromBlock };
+  const events = await fetchInChunks(
+    fromBlock,
+    head,
+    (from, to) => fetchRange(client, source, from, to),
+    undefined,
+    signal
+  );
+  return events.sort(compareEvents);
+}
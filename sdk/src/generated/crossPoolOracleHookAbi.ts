@@ -0,0 +1,521 @@
+// Generated by scripts/generate-abis.mjs from out/CrossPoolOracleHook.sol/CrossPoolOracleHook.json.
+// Do not edit by hand: run `forge build && npm run abis` instead.
+
+export const crossPoolOracleHookAbi = [
+  {
+    type: "constructor",
+    inputs: [
+      { name: "_poolManager", type: "address" },
+      { name: "_owner", type: "address" },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "afterAddLiquidity",
+    inputs: [
+      { name: "sender", type: "address" },
+      {
+        name: "key",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "tickLower", type: "int24" },
+          { name: "tickUpper", type: "int24" },
+          { name: "liquidityDelta", type: "int256" },
+          { name: "salt", type: "bytes32" },
+        ],
+      },
+      { name: "delta", type: "int256" },
+      { name: "feesAccrued", type: "int256" },
+      { name: "hookData", type: "bytes" },
+    ],
+    outputs: [
+      { name: "", type: "bytes4" },
+      { name: "", type: "int256" },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "afterDonate",
+    inputs: [
+      { name: "sender", type: "address" },
+      {
+        name: "key",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      { name: "amount0", type: "uint256" },
+      { name: "amount1", type: "uint256" },
+      { name: "hookData", type: "bytes" },
+    ],
+    outputs: [{ name: "", type: "bytes4" }],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "afterInitialize",
+    inputs: [
+      { name: "sender", type: "address" },
+      {
+        name: "key",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      { name: "sqrtPriceX96", type: "uint160" },
+      { name: "tick", type: "int24" },
+    ],
+    outputs: [{ name: "", type: "bytes4" }],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "afterRemoveLiquidity",
+    inputs: [
+      { name: "sender", type: "address" },
+      {
+        name: "key",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "tickLower", type: "int24" },
+          { name: "tickUpper", type: "int24" },
+          { name: "liquidityDelta", type: "int256" },
+          { name: "salt", type: "bytes32" },
+        ],
+      },
+      { name: "delta", type: "int256" },
+      { name: "feesAccrued", type: "int256" },
+      { name: "hookData", type: "bytes" },
+    ],
+    outputs: [
+      { name: "", type: "bytes4" },
+      { name: "", type: "int256" },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "afterSwap",
+    inputs: [
+      { name: "sender", type: "address" },
+      {
+        name: "key",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "zeroForOne", type: "bool" },
+          { name: "amountSpecified", type: "int256" },
+          { name: "sqrtPriceLimitX96", type: "uint160" },
+        ],
+      },
+      { name: "delta", type: "int256" },
+      { name: "hookData", type: "bytes" },
+    ],
+    outputs: [
+      { name: "", type: "bytes4" },
+      { name: "", type: "int128" },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "beforeAddLiquidity",
+    inputs: [
+      { name: "sender", type: "address" },
+      {
+        name: "key",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "tickLower", type: "int24" },
+          { name: "tickUpper", type: "int24" },
+          { name: "liquidityDelta", type: "int256" },
+          { name: "salt", type: "bytes32" },
+        ],
+      },
+      { name: "hookData", type: "bytes" },
+    ],
+    outputs: [{ name: "", type: "bytes4" }],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "beforeDonate",
+    inputs: [
+      { name: "sender", type: "address" },
+      {
+        name: "key",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      { name: "amount0", type: "uint256" },
+      { name: "amount1", type: "uint256" },
+      { name: "hookData", type: "bytes" },
+    ],
+    outputs: [{ name: "", type: "bytes4" }],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "beforeInitialize",
+    inputs: [
+      { name: "sender", type: "address" },
+      {
+        name: "key",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      { name: "sqrtPriceX96", type: "uint160" },
+    ],
+    outputs: [{ name: "", type: "bytes4" }],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "beforeRemoveLiquidity",
+    inputs: [
+      { name: "sender", type: "address" },
+      {
+        name: "key",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "tickLower", type: "int24" },
+          { name: "tickUpper", type: "int24" },
+          { name: "liquidityDelta", type: "int256" },
+          { name: "salt", type: "bytes32" },
+        ],
+      },
+      { name: "hookData", type: "bytes" },
+    ],
+    outputs: [{ name: "", type: "bytes4" }],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "beforeSwap",
+    inputs: [
+      { name: "sender", type: "address" },
+      {
+        name: "key",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      {
+        name: "params",
+        type: "tuple",
+        components: [
+          { name: "zeroForOne", type: "bool" },
+          { name: "amountSpecified", type: "int256" },
+          { name: "sqrtPriceLimitX96", type: "uint160" },
+        ],
+      },
+      { name: "hookData", type: "bytes" },
+    ],
+    outputs: [
+      { name: "", type: "bytes4" },
+      { name: "", type: "int256" },
+      { name: "", type: "uint24" },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "getHookPermissions",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "beforeInitialize", type: "bool" },
+          { name: "afterInitialize", type: "bool" },
+          { name: "beforeAddLiquidity", type: "bool" },
+          { name: "afterAddLiquidity", type: "bool" },
+          { name: "beforeRemoveLiquidity", type: "bool" },
+          { name: "afterRemoveLiquidity", type: "bool" },
+          { name: "beforeSwap", type: "bool" },
+          { name: "afterSwap", type: "bool" },
+          { name: "beforeDonate", type: "bool" },
+          { name: "afterDonate", type: "bool" },
+          { name: "beforeSwapReturnDelta", type: "bool" },
+          { name: "afterSwapReturnDelta", type: "bool" },
+          { name: "afterAddLiquidityReturnDelta", type: "bool" },
+          { name: "afterRemoveLiquidityReturnDelta", type: "bool" },
+        ],
+      },
+    ],
+    stateMutability: "pure",
+  },
+  {
+    type: "function",
+    name: "getPoolConfig",
+    inputs: [{ name: "poolId", type: "bytes32" }],
+    outputs: [
+      { name: "referencePoolIds", type: "bytes32[]" },
+      { name: "referenceZeroForOne", type: "bool[]" },
+      { name: "baseFee", type: "uint24" },
+      { name: "highImpactFee", type: "uint24" },
+      { name: "highImpactThresholdBps", type: "uint256" },
+      { name: "circuitBreakerBps", type: "uint256" },
+      { name: "maxRefMoveBps", type: "uint256" },
+      { name: "aggregationMode", type: "uint8" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "lastReferenceSqrtPrice",
+    inputs: [{ name: "", type: "bytes32" }],
+    outputs: [{ name: "", type: "uint160" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "lastReferenceSqrtPrices",
+    inputs: [
+      { name: "", type: "bytes32" },
+      { name: "", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "uint160" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "owner",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "poolConfigs",
+    inputs: [{ name: "poolId", type: "bytes32" }],
+    outputs: [
+      { name: "referencePoolId", type: "bytes32" },
+      { name: "referenceZeroForOne", type: "bool" },
+      { name: "baseFee", type: "uint24" },
+      { name: "highImpactFee", type: "uint24" },
+      { name: "highImpactThresholdBps", type: "uint256" },
+      { name: "circuitBreakerBps", type: "uint256" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "poolManager",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "registerPool",
+    inputs: [
+      {
+        name: "protectedPoolKey",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      { name: "referencePoolId", type: "bytes32" },
+      { name: "referenceZeroForOne", type: "bool" },
+      { name: "baseFee", type: "uint24" },
+      { name: "highImpactFee", type: "uint24" },
+      { name: "highImpactThresholdBps", type: "uint256" },
+      { name: "circuitBreakerBps", type: "uint256" },
+      { name: "maxRefMoveBps", type: "uint256" },
+      { name: "aggregationMode", type: "uint8" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "registerPoolMultiRef",
+    inputs: [
+      {
+        name: "protectedPoolKey",
+        type: "tuple",
+        components: [
+          { name: "currency0", type: "address" },
+          { name: "currency1", type: "address" },
+          { name: "fee", type: "uint24" },
+          { name: "tickSpacing", type: "int24" },
+          { name: "hooks", type: "address" },
+        ],
+      },
+      { name: "referencePoolIds", type: "bytes32[]" },
+      { name: "referenceZeroForOne", type: "bool[]" },
+      { name: "baseFee", type: "uint24" },
+      { name: "highImpactFee", type: "uint24" },
+      { name: "highImpactThresholdBps", type: "uint256" },
+      { name: "circuitBreakerBps", type: "uint256" },
+      { name: "maxRefMoveBps", type: "uint256" },
+      { name: "aggregationMode", type: "uint8" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "event",
+    name: "CircuitBreakerHit",
+    inputs: [
+      { name: "poolId", type: "bytes32", indexed: true },
+      { name: "impactBps", type: "uint256", indexed: false },
+      { name: "refPriceChangeBps", type: "uint256", indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "DynamicFeeApplied",
+    inputs: [
+      { name: "poolId", type: "bytes32", indexed: true },
+      { name: "fee", type: "uint24", indexed: false },
+      { name: "impactBps", type: "uint256", indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "PoolRegistered",
+    inputs: [
+      { name: "protectedPoolId", type: "bytes32", indexed: true },
+      { name: "referenceCount", type: "uint256", indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "error",
+    name: "CircuitBreakerTriggered",
+    inputs: [{ name: "impactBps", type: "uint256" }],
+  },
+  {
+    type: "error",
+    name: "EmptyReferences",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "HookAddressNotValid",
+    inputs: [{ name: "hooks", type: "address" }],
+  },
+  {
+    type: "error",
+    name: "HookNotImplemented",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "InvalidAggregationMode",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "NotPoolManager",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "OnlyOwner",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "PoolNotRegistered",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "TooManyReferences",
+    inputs: [],
+  },
+] as const;
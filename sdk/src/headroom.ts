@@ -0,0 +1,82 @@
+import {
+  simulateHookDecision,
+  type FeeTier,
+  type ProtectedPoolState,
+} from "./hookDecision";
+import type { PoolConfig } from "./poolConfig";
+
+// Largest swap sizes that stay in a fee tier, found by binary search over the
+// hook's own decision. _estimateSwapImpactBps is monotonic in the amount for
+// every direction and sign, so the search returns the exact boundary.
+
+export interface TradeHeadroom {
+  zeroForOne: boolean;
+  /** Amounts are outputs when true, inputs otherwise */
+  exactOutput: boolean;
+  /** Aggregated aligned reference movement the limits already account for */
+  refPriceChangeBps: number;
+  /** Largest amount still charged the base fee; null when no amount leaves it */
+  maxAtBaseFee: bigint | null;
+  /** Largest amount that does not trip the circuit breaker; null when none does */
+  maxBeforeBreaker: bigint | null;
+}
+
+/** Doubling stops here; amounts above 2^128 cannot be swapped anyway */
+const MAX_SEARCH_BITS = 128;
+
+/**
+ * Largest amount whose decision stays within `allowed`, or null when even the
+ * largest representable amount does.
+ */
+function maxAmountWithin(
+  tierOf: (amount: bigint) => FeeTier,
+  allowed: (tier: FeeTier) => boolean
+): bigint | null {
+  if (!allowed(tierOf(1n))) return 0n;
+
+  // Find an amount outside the tier, then bisect between it and the last one inside
+  let lo = 1n;
+  let hi = 2n;
+  while (allowed(tierOf(hi))) {
+    lo = hi;
+    hi *= 2n;
+    if (hi > 1n << BigInt(MAX_SEARCH_BITS)) return null;
+  }
+  while (hi - lo > 1n) {
+    const mid = (lo + hi) / 2n;
+    if (allowed(tierOf(mid))) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Maximum swap sizes at the base fee and before the circuit breaker for one
+ * direction, given the current reference movement. Amounts are what the user
+ * enters in the swap form: the input for exact-input swaps and the output for
+ * exact-output ones.
+ */
+export function tradeHeadroom(
+  config: PoolConfig,
+  refPrices: readonly bigint[],
+  cachedRefPrices: readonly bigint[],
+  state: ProtectedPoolState,
+  zeroForOne: boolean,
+  exactOutput: boolean
+): TradeHeadroom {
+  // The router passes exact-input swaps to the hook as negative amounts
+  const decide = (amount: bigint) =>
+    simulateHookDecision(config, refPrices, cachedRefPrices, state, {
+      zeroForOne,
+      amountSpecified: exactOutput ? amount : -amount,
+    });
+  const tierOf = (amount: bigint) => decide(amount).tier;
+
+  return {
+    zeroForOne,
+    exactOutput,
+    refPriceChangeBps: decide(1n).refPriceChangeBps,
+    maxAtBaseFee: maxAmountWithin(tierOf, (tier) => tier === "base"),
+    maxBeforeBreaker: maxAmountWithin(tierOf, (tier) => tier !== "blocked"),
+  };
+}
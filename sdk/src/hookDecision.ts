@@ -0,0 +1,176 @@
+import {
+  AGGREGATION_MAX,
+  MAX_REFERENCES,
+  type PoolConfig,
+} from "./poolConfig";
+import { estimateSwapImpactBps, predictFeeTier, priceChangeBps } from "./utils";
+
+// TypeScript port of CrossPoolOracleHook._beforeSwap and the internal price
+// math it calls. All arithmetic is done on bigint with Solidity's truncating
+// division so results match the contract exactly.
+
+/** SwapParams fields the hook reads */
+export interface HookSwapParams {
+  zeroForOne: boolean;
+  /**
+   * Raw SwapParams.amountSpecified. The hook treats a positive value as exact
+   * input and a negative one as exact output. The v4 router encodes exact-input
+   * swaps as negative amounts, so those take the hook's exact-output branch.
+   */
+  amountSpecified: bigint;
+}
+
+/** Protected pool state read by _beforeSwap */
+export interface ProtectedPoolState {
+  sqrtPriceX96: bigint;
+  liquidity: bigint;
+}
+
+export type FeeTier = "base" | "elevated" | "blocked";
+
+export interface AlignedReferenceMove {
+  /** Index into config.referencePoolIds */
+  index: number;
+  /** Movement since the cached price, after the maxRefMoveBps cap */
+  changeBps: number;
+}
+
+export interface HookDecision {
+  tier: FeeTier;
+  /** LP fee the hook returns; null when the swap reverts with CircuitBreakerTriggered */
+  fee: number | null;
+  swapImpactBps: number;
+  /** Aggregated (max or median) aligned reference movement */
+  refPriceChangeBps: number;
+  unexplainedImpactBps: number;
+  alignedMoves: AlignedReferenceMove[];
+}
+
+/** _isAlignedMovement: did the reference move the way this swap moves the protected pool? */
+export function isAlignedMovement(
+  oldSqrtPrice: bigint,
+  newSqrtPrice: bigint,
+  swapZeroForOne: boolean,
+  referenceZeroForOne: boolean
+): boolean {
+  if (oldSqrtPrice === 0n || newSqrtPrice === oldSqrtPrice) return false;
+
+  // zeroForOne swaps move price down; oneForZero swaps move price up.
+  let expectedUp = !swapZeroForOne;
+  // If reference orientation is inverted, flip expected direction.
+  if (!referenceZeroForOne) expectedUp = !expectedUp;
+
+  return expectedUp ? newSqrtPrice > oldSqrtPrice : newSqrtPrice < oldSqrtPrice;
+}
+
+/** _alignedReferenceChangeBps, also returning the per-reference aligned moves */
+export function alignedReferenceChangeBps(
+  config: Pick<
+    PoolConfig,
+    "referenceZeroForOne" | "maxRefMoveBps" | "aggregationMode"
+  >,
+  refPrices: readonly bigint[],
+  cachedRefPrices: readonly bigint[],
+  swapZeroForOne: boolean
+): { changeBps: bigint; alignedMoves: AlignedReferenceMove[] } {
+  const cap = BigInt(config.maxRefMoveBps);
+  const alignedMoves: AlignedReferenceMove[] = [];
+  const aligned: bigint[] = [];
+  let alignedMax = 0n;
+
+  const count = Math.min(config.referenceZeroForOne.length, MAX_REFERENCES);
+  for (let i = 0; i < count; i++) {
+    const refSqrtPrice = refPrices[i] ?? 0n;
+    const lastRefSqrtPrice = cachedRefPrices[i] ?? 0n;
+    if (
+      isAlignedMovement(
+        lastRefSqrtPrice,
+        refSqrtPrice,
+        swapZeroForOne,
+        config.referenceZeroForOne[i]
+      )
+    ) {
+      let changeBps = BigInt(priceChangeBps(lastRefSqrtPrice, refSqrtPrice));
+      if (cap > 0n && changeBps > cap) changeBps = cap;
+      aligned.push(changeBps);
+      alignedMoves.push({ index: i, changeBps: Number(changeBps) });
+      if (changeBps > alignedMax) alignedMax = changeBps;
+    }
+  }
+
+  if (aligned.length === 0) return { changeBps: 0n, alignedMoves };
+  if (config.aggregationMode === AGGREGATION_MAX) {
+    return { changeBps: alignedMax, alignedMoves };
+  }
+
+  aligned.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const mid = Math.floor(aligned.length / 2);
+  const changeBps =
+    aligned.length % 2 === 1
+      ? aligned[mid]
+      : (aligned[mid - 1] + aligned[mid]) / 2n;
+  return { changeBps, alignedMoves };
+}
+
+/**
+ * _estimateSwapImpactBps on raw SwapParams: a positive amountSpecified is the
+ * hook's exact-input branch, anything else its exact-output branch
+ */
+export function hookSwapImpactBps(
+  params: HookSwapParams,
+  state: ProtectedPoolState
+): bigint {
+  const { amountSpecified } = params;
+  const exactInput = amountSpecified > 0n;
+  return BigInt(
+    estimateSwapImpactBps(
+      exactInput ? amountSpecified : -amountSpecified,
+      state.liquidity,
+      state.sqrtPriceX96,
+      params.zeroForOne,
+      !exactInput
+    )
+  );
+}
+
+/**
+ * Reproduce the fee/revert decision _beforeSwap makes for a swap.
+ * `refPrices` are the references' current sqrtPriceX96 and `cachedRefPrices`
+ * the hook's lastReferenceSqrtPrices, both in config.referencePoolIds order.
+ */
+export function simulateHookDecision(
+  config: PoolConfig,
+  refPrices: readonly bigint[],
+  cachedRefPrices: readonly bigint[],
+  protectedState: ProtectedPoolState,
+  swapParams: HookSwapParams
+): HookDecision {
+  const { changeBps: refPriceChangeBps, alignedMoves } =
+    alignedReferenceChangeBps(config, refPrices, cachedRefPrices, swapParams.zeroForOne);
+
+  const swapImpactBps = hookSwapImpactBps(swapParams, protectedState);
+
+  // Unexplained impact = swap impact minus the aggregated reference movement
+  const unexplainedImpactBps =
+    swapImpactBps > refPriceChangeBps ? swapImpactBps - refPriceChangeBps : 0n;
+
+  const tier = predictFeeTier(
+    Number(unexplainedImpactBps),
+    config.highImpactThresholdBps,
+    config.circuitBreakerBps
+  );
+
+  return {
+    tier,
+    fee:
+      tier === "blocked"
+        ? null
+        : tier === "elevated"
+        ? config.highImpactFee
+        : config.baseFee,
+    swapImpactBps: Number(swapImpactBps),
+    refPriceChangeBps: Number(refPriceChangeBps),
+    unexplainedImpactBps: Number(unexplainedImpactBps),
+    alignedMoves,
+  };
+}
@@ -0,0 +1,40 @@
+// @crosspool/sdk: headless access to CrossPoolOracleHook for apps, bots and
+// services. Everything below is pure TypeScript over viem; only the client
+// and the fetch* helpers touch the network.
+
+export * from "./client";
+
+// ABIs and deployments
+export * from "./contracts";
+export * from "./generated/crossPoolOracleHookAbi";
+export * from "./deployment";
+export * from "./jsonFields";
+export * from "./poolKey";
+export * from "./poolConfig";
+export * from "./registration";
+export * from "./referenceDirection";
+
+// Chain reads
+export * from "./poolSnapshot";
+export * from "./eventIndexer";
+export * from "./revertDecoder";
+
+// Hook and pool math
+export * from "./utils";
+export * from "./hookDecision";
+export * from "./headroom";
+export * from "./quote";
+export * from "./price";
+export * from "./splitPlanner";
+export * from "./sqrtPriceMath";
+export * from "./swapMath";
+export * from "./swapSimulator";
+export * from "./tickBitmap";
+export * from "./tickMath";
+
+// Analysis
+export * from "./referenceDiscovery";
+export * from "./swapHistory";
+export * from "./thresholdTuning";
+export * from "./backtest";
+export * from "./attackSimulator";
@@ -0,0 +1,49 @@
+import { getAddress, type Address } from "viem";
+import type { PoolKey } from "./poolKey";
+
+// Checked reads of fields from parsed JSON, shared by the deployment, config
+// and export parsers. `source` prefixes every error, e.g. "Deployment sepolia".
+
+export function invalidField(source: string, field: string): never {
+  throw new Error(`${source}: missing or invalid "${field}"`);
+}
+
+/** `value` as a JSON object, or undefined when it is not one */
+export function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+/** Checksummed address */
+export function readAddress(source: string, field: string, value: unknown): Address {
+  if (typeof value !== "string") invalidField(source, field);
+  try {
+    return getAddress(value);
+  } catch {
+    invalidField(source, field);
+  }
+}
+
+export function readNumber(source: string, field: string, value: unknown): number {
+  if (typeof value !== "number") invalidField(source, field);
+  return value;
+}
+
+export function readInteger(source: string, field: string, value: unknown): number {
+  if (typeof value !== "number" || !Number.isInteger(value)) invalidField(source, field);
+  return value;
+}
+
+/** Pool key with checksummed addresses; the values are left to validatePoolKey */
+export function readPoolKey(source: string, field: string, value: unknown): PoolKey {
+  const key = asRecord(value);
+  if (!key) invalidField(source, field);
+  return {
+    currency0: readAddress(source, `${field}.currency0`, key.currency0),
+    currency1: readAddress(source, `${field}.currency1`, key.currency1),
+    fee: readInteger(source, `${field}.fee`, key.fee),
+    tickSpacing: readInteger(source, `${field}.tickSpacing`, key.tickSpacing),
+    hooks: readAddress(source, `${field}.hooks`, key.hooks),
+  };
+}
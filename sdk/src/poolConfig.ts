@@ -0,0 +1,62 @@
+import type { Hex } from "viem";
+
+/** CrossPoolOracleHook.MAX_REFERENCES */
+export const MAX_REFERENCES = 5;
+export const AGGREGATION_MAX = 0;
+export const AGGREGATION_MEDIAN = 1;
+
+export type AggregationMode = typeof AGGREGATION_MAX | typeof AGGREGATION_MEDIAN;
+
+/** Decoded CrossPoolOracleHook.PoolConfig */
+export interface PoolConfig {
+  referencePoolIds: Hex[];
+  referenceZeroForOne: boolean[];
+  baseFee: number;
+  highImpactFee: number;
+  highImpactThresholdBps: number;
+  circuitBreakerBps: number;
+  /** 0 = uncapped */
+  maxRefMoveBps: number;
+  aggregationMode: AggregationMode;
+}
+
+/** Raw getPoolConfig() return tuple as decoded by viem */
+export type PoolConfigResult = readonly [
+  readonly Hex[],
+  readonly boolean[],
+  number,
+  number,
+  bigint,
+  bigint,
+  bigint,
+  number,
+];
+
+/** Decode getPoolConfig() output. Returns null for unregistered pools. */
+export function decodePoolConfig(result: PoolConfigResult): PoolConfig | null {
+  const [
+    referencePoolIds,
+    referenceZeroForOne,
+    baseFee,
+    highImpactFee,
+    highImpactThresholdBps,
+    circuitBreakerBps,
+    maxRefMoveBps,
+    aggregationMode,
+  ] = result;
+  if (referencePoolIds.length === 0) return null;
+  return {
+    referencePoolIds: [...referencePoolIds],
+    referenceZeroForOne: [...referenceZeroForOne],
+    baseFee,
+    highImpactFee,
+    highImpactThresholdBps: Number(highImpactThresholdBps),
+    circuitBreakerBps: Number(circuitBreakerBps),
+    maxRefMoveBps: Number(maxRefMoveBps),
+    aggregationMode: aggregationMode === AGGREGATION_MEDIAN ? AGGREGATION_MEDIAN : AGGREGATION_MAX,
+  };
+}
+
+export function aggregationLabel(mode: AggregationMode): string {
+  return mode === AGGREGATION_MEDIAN ? "Median" : "Max";
+}
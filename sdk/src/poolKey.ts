@@ -0,0 +1,151 @@
+import { keccak256, encodeAbiParameters, type Address, type Hex } from "viem";
+
+/** Uniswap v4 PoolKey, as passed to the PoolManager and the swap router */
+export interface PoolKey {
+  currency0: Address;
+  currency1: Address;
+  fee: number;
+  tickSpacing: number;
+  hooks: Address;
+}
+
+const poolKeyAbiParameters = [
+  { name: "currency0", type: "address" },
+  { name: "currency1", type: "address" },
+  { name: "fee", type: "uint24" },
+  { name: "tickSpacing", type: "int24" },
+  { name: "hooks", type: "address" },
+] as const;
+
+/** Compute the PoolId for a pool key: keccak256(abi.encode(poolKey)) */
+export function toPoolId(key: PoolKey): Hex {
+  return keccak256(
+    encodeAbiParameters(poolKeyAbiParameters, [
+      key.currency0,
+      key.currency1,
+      key.fee,
+      key.tickSpacing,
+      key.hooks,
+    ])
+  );
+}
+
+// === PoolKey invariants (mirrors v4-core PoolManager.initialize checks) ===
+
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000" as Address;
+/** LPFeeLibrary.DYNAMIC_FEE_FLAG */
+export const DYNAMIC_FEE_FLAG = 0x800000;
+/** LPFeeLibrary.MAX_LP_FEE (100%) */
+export const MAX_LP_FEE = 1_000_000;
+/** TickMath.MIN_TICK_SPACING / MAX_TICK_SPACING */
+export const MIN_TICK_SPACING = 1;
+export const MAX_TICK_SPACING = 32767;
+
+/** Hooks.sol permission flags, encoded in the low 14 bits of the hook address */
+export const HOOK_FLAGS = {
+  beforeInitialize: 1 << 13,
+  afterInitialize: 1 << 12,
+  beforeAddLiquidity: 1 << 11,
+  afterAddLiquidity: 1 << 10,
+  beforeRemoveLiquidity: 1 << 9,
+  afterRemoveLiquidity: 1 << 8,
+  beforeSwap: 1 << 7,
+  afterSwap: 1 << 6,
+  beforeDonate: 1 << 5,
+  afterDonate: 1 << 4,
+  beforeSwapReturnDelta: 1 << 3,
+  afterSwapReturnDelta: 1 << 2,
+  afterAddLiquidityReturnDelta: 1 << 1,
+  afterRemoveLiquidityReturnDelta: 1 << 0,
+} as const;
+
+const ALL_HOOK_FLAGS = (1 << 14) - 1;
+
+export type HookPermissions = Record<keyof typeof HOOK_FLAGS, boolean>;
+
+/** CrossPoolOracleHook.getHookPermissions() */
+export const CROSS_POOL_HOOK_PERMISSIONS: HookPermissions = {
+  beforeInitialize: false,
+  afterInitialize: true,
+  beforeAddLiquidity: false,
+  afterAddLiquidity: false,
+  beforeRemoveLiquidity: false,
+  afterRemoveLiquidity: false,
+  beforeSwap: true,
+  afterSwap: true,
+  beforeDonate: false,
+  afterDonate: false,
+  beforeSwapReturnDelta: false,
+  afterSwapReturnDelta: false,
+  afterAddLiquidityReturnDelta: false,
+  afterRemoveLiquidityReturnDelta: false,
+};
+
+/** Encode a permission set as the flag bits a hook address must carry */
+export function permissionsToFlags(permissions: HookPermissions): number {
+  let flags = 0;
+  for (const name of Object.keys(HOOK_FLAGS) as (keyof typeof HOOK_FLAGS)[]) {
+    if (permissions[name]) flags |= HOOK_FLAGS[name];
+  }
+  return flags;
+}
+
+/** Read the permission flag bits from a hook address */
+export function hookAddressFlags(hooks: Address): number {
+  return Number(BigInt(hooks) & BigInt(ALL_HOOK_FLAGS));
+}
+
+/**
+ * Check a pool key against the invariants the PoolManager enforces, plus the
+ * dynamic-fee flag for any hooked pool and CrossPoolOracleHook's permission
+ * bits when the key points at `hook`.
+ * Returns a list of problems; empty means the key is valid.
+ */
+export function validatePoolKey(key: PoolKey, hook?: Address): string[] {
+  const problems: string[] = [];
+
+  if (BigInt(key.currency0) >= BigInt(key.currency1)) {
+    problems.push("currency0 must be strictly less than currency1");
+  }
+  if (
+    !Number.isInteger(key.tickSpacing) ||
+    key.tickSpacing < MIN_TICK_SPACING ||
+    key.tickSpacing > MAX_TICK_SPACING
+  ) {
+    problems.push(
+      `tickSpacing ${key.tickSpacing} outside [${MIN_TICK_SPACING}, ${MAX_TICK_SPACING}]`
+    );
+  }
+  if (key.fee < 0) {
+    problems.push(`fee ${key.fee} is negative`);
+  } else if (key.fee !== DYNAMIC_FEE_FLAG && key.fee > MAX_LP_FEE) {
+    problems.push(`fee ${key.fee} exceeds MAX_LP_FEE (${MAX_LP_FEE})`);
+  }
+  // Covers Hooks.isValidHookAddress too, which only accepts a hook with no
+  // flags for dynamic-fee pools
+  if (key.hooks !== ZERO_ADDRESS && key.fee !== DYNAMIC_FEE_FLAG) {
+    problems.push(
+      `fee must be the dynamic-fee flag (${DYNAMIC_FEE_FLAG}) for pools with a hook`
+    );
+  }
+
+  if (hook && key.hooks.toLowerCase() === hook.toLowerCase()) {
+    const expected = permissionsToFlags(CROSS_POOL_HOOK_PERMISSIONS);
+    const actual = hookAddressFlags(key.hooks);
+    if (actual !== expected) {
+      problems.push(
+        `hook address flags 0x${actual.toString(16)} do not match getHookPermissions (0x${expected.toString(16)})`
+      );
+    }
+  }
+
+  return problems;
+}
+
+/** Throw if the pool key is invalid; `label` names the key in the message */
+export function assertValidPoolKey(key: PoolKey, label: string, hook?: Address) {
+  const problems = validatePoolKey(key, hook);
+  if (problems.length > 0) {
+    throw new Error(`Invalid pool key ${label}: ${problems.join("; ")}`);
+  }
+}
@@ -0,0 +1,153 @@
+import type { Address, Hex, PublicClient } from "viem";
+import { hookAbi, poolManagerAbi } from "./contracts";
+import {
+  decodePoolConfig,
+  MAX_REFERENCES,
+  type PoolConfig,
+} from "./poolConfig";
+import { getLiquidityStorageSlot, getSlot0StorageSlot, parseSlot0 } from "./utils";
+import type { Deployment } from "./deployment";
+
+/** Slot0 and in-range liquidity of one pool */
+export interface PoolState {
+  id: Hex;
+  sqrtPriceX96: bigint;
+  tick: number;
+  protocolFee: number;
+  lpFee: number;
+  liquidity: bigint;
+}
+
+export interface ReferenceState extends PoolState {
+  zeroForOne: boolean;
+  /** Hook's lastReferenceSqrtPrices[protectedPoolId][i] */
+  cachedSqrtPriceX96: bigint;
+}
+
+/** Everything the UI reads about the protected pool and its references, at one block */
+export interface PoolSnapshot {
+  blockNumber: bigint;
+  protectedPool: PoolState;
+  config: PoolConfig | null;
+  /** In config.referencePoolIds order */
+  references: ReferenceState[];
+  /** Every pool read, keyed by PoolId */
+  pools: Map<Hex, PoolState>;
+}
+
+const LIQUIDITY_MASK = (1n << 128n) - 1n;
+
+function poolSlots(ids: Hex[]): Hex[] {
+  return ids.flatMap((id) => [getSlot0StorageSlot(id), getLiquidityStorageSlot(id)]);
+}
+
+function decodePools(ids: Hex[], words: readonly Hex[], into: Map<Hex, PoolState>) {
+  ids.forEach((id, i) => {
+    into.set(id, {
+      id,
+      ...parseSlot0(words[2 * i]),
+      liquidity: BigInt(words[2 * i + 1]) & LIQUIDITY_MASK,
+    });
+  });
+}
+
+/** Read slot0 and liquidity of `ids` with one extsload, into `into` */
+export async function fetchPoolStates(
+  client: PublicClient,
+  poolManager: Address,
+  ids: Hex[],
+  blockNumber?: bigint,
+  into = new Map<Hex, PoolState>()
+): Promise<Map<Hex, PoolState>> {
+  const words = await client.readContract({
+    address: poolManager,
+    abi: poolManagerAbi,
+    functionName: "extsload",
+    args: [poolSlots(ids)],
+    blockNumber,
+  });
+  decodePools(ids, words, into);
+  return into;
+}
+
+/** What fetchPoolSnapshot needs to know; a Deployment is one */
+export interface SnapshotSource {
+  addresses: Pick<Deployment["addresses"], "hook" | "poolManager">;
+  protectedPool: { id: Hex };
+  /** References expected to be registered; read in the first call */
+  referencePools: { id: Hex }[];
+}
+
+/**
+ * Read the protected pool, its hook config, cached reference prices and every
+ * reference pool's state with two multicalls pinned to a single block
+ * (default: head). A further call at the same block is only needed for
+ * references registered on-chain that the source does not list.
+ */
+export async function fetchPoolSnapshot(
+  client: PublicClient,
+  deployment: SnapshotSource,
+  atBlock?: bigint
+): Promise<PoolSnapshot> {
+  const { addresses, protectedPool } = deployment;
+  const blockNumber = atBlock ?? (await client.getBlockNumber());
+  const knownIds = [protectedPool.id, ...deployment.referencePools.map((ref) => ref.id)];
+
+  // The cached prices are one call per index, so they go in a second
+  // multicall at the same block to keep both typed
+  const [[configResult, words], cachedPrices] = await Promise.all([
+    client.multicall({
+      contracts: [
+        {
+          address: addresses.hook,
+          abi: hookAbi,
+          functionName: "getPoolConfig",
+          args: [protectedPool.id],
+        },
+        {
+          address: addresses.poolManager,
+          abi: poolManagerAbi,
+          functionName: "extsload",
+          args: [poolSlots(knownIds)],
+        },
+      ] as const,
+      blockNumber,
+      allowFailure: false,
+    }),
+    client.multicall({
+      contracts: Array.from(
+        { length: MAX_REFERENCES },
+        (_, i) =>
+          ({
+            address: addresses.hook,
+            abi: hookAbi,
+            functionName: "lastReferenceSqrtPrices",
+            args: [protectedPool.id, BigInt(i)],
+          }) as const
+      ),
+      blockNumber,
+      allowFailure: false,
+    }),
+  ]);
+
+  const pools = new Map<Hex, PoolState>();
+  decodePools(knownIds, words, pools);
+
+  const config = decodePoolConfig(configResult);
+  const missing = (config?.referencePoolIds ?? []).filter((id) => !pools.has(id));
+  if (missing.length > 0) {
+    await fetchPoolStates(client, addresses.poolManager, missing, blockNumber, pools);
+  }
+
+  return {
+    blockNumber,
+    protectedPool: pools.get(protectedPool.id)!,
+    config,
+    references: (config?.referencePoolIds ?? []).map((id, i) => ({
+      ...pools.get(id)!,
+      zeroForOne: config!.referenceZeroForOne[i],
+      cachedSqrtPriceX96: cachedPrices[i],
+    })),
+    pools,
+  };
+}
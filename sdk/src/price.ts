@@ -0,0 +1,130 @@
+import {
+  getSqrtPriceAtTick,
+  getTickAtSqrtPrice,
+  MAX_SQRT_PRICE,
+  MIN_SQRT_PRICE,
+  MAX_TICK,
+  MIN_TICK,
+} from "./tickMath";
+
+// Exact rational prices. Everything stays in bigint until formatting, so
+// 18-vs-6 decimal pairs and extreme ticks keep full precision.
+
+/** Price of token0 in units of token1 (whole tokens, decimals applied) */
+export interface Price {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+const Q192 = 1n << 192n;
+
+function pow10(exp: number): bigint {
+  return 10n ** BigInt(exp);
+}
+
+/** Human price token1/token0 from a pool's sqrtPriceX96 and the tokens' decimals */
+export function priceFromSqrtPriceX96(
+  sqrtPriceX96: bigint,
+  decimals0 = 18,
+  decimals1 = 18
+): Price {
+  // raw = sqrtP^2 / 2^192 (token1 wei per token0 wei); human = raw * 10^(d0 - d1)
+  const shift = decimals0 - decimals1;
+  return {
+    numerator: sqrtPriceX96 * sqrtPriceX96 * (shift > 0 ? pow10(shift) : 1n),
+    denominator: Q192 * (shift < 0 ? pow10(-shift) : 1n),
+  };
+}
+
+/** Flip a token1/token0 price to token0/token1 */
+export function invertPrice(price: Price): Price {
+  return { numerator: price.denominator, denominator: price.numerator };
+}
+
+/** Human price token1/token0 at a tick */
+export function priceFromTick(tick: number, decimals0 = 18, decimals1 = 18): Price {
+  return priceFromSqrtPriceX96(getSqrtPriceAtTick(tick), decimals0, decimals1);
+}
+
+function sqrt(value: bigint): bigint {
+  if (value < 2n) return value;
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
+
+/** Greatest tick whose price is <= the given human token1/token0 price, clamped to the tick range */
+export function tickFromPrice(price: Price, decimals0 = 18, decimals1 = 18): number {
+  if (price.numerator === 0n) return MIN_TICK;
+  if (price.denominator === 0n) return MAX_TICK;
+  // sqrtPriceX96 = sqrt(raw * 2^192) with raw = human * 10^(d1 - d0)
+  const shift = decimals1 - decimals0;
+  const num = price.numerator * Q192 * (shift > 0 ? pow10(shift) : 1n);
+  const den = price.denominator * (shift < 0 ? pow10(-shift) : 1n);
+  const sqrtPriceX96 = sqrt(num / den);
+  if (sqrtPriceX96 < MIN_SQRT_PRICE) return MIN_TICK;
+  if (sqrtPriceX96 >= MAX_SQRT_PRICE) return MAX_TICK;
+  return getTickAtSqrtPrice(sqrtPriceX96);
+}
+
+/** Round num/den to `sig` significant digits: returns digits and the power of ten applied */
+function toSignificant(num: bigint, den: bigint, sig: number): { digits: bigint; exp: number } {
+  const lower = pow10(sig - 1);
+  const upper = pow10(sig);
+  const scaled = (exp: number) =>
+    exp >= 0 ? (num * pow10(exp) * 2n + den) / (2n * den) : (num * 2n + den * pow10(-exp)) / (2n * den * pow10(-exp));
+
+  let exp = sig - (num.toString().length - den.toString().length);
+  let digits = scaled(exp);
+  while (digits >= upper) digits = scaled(--exp);
+  while (digits < lower) digits = scaled(++exp);
+  // Rounding up can carry into an extra digit (e.g. 9.999995 -> 10.0000)
+  if (digits >= upper) digits = scaled(--exp);
+  return { digits, exp };
+}
+
+/**
+ * Format a rational value with `sig` significant digits. Integers above
+ * 10^sig are shown whole; values below 1e-9 use exponent notation.
+ */
+export function formatSignificant(price: Price, sig = 6): string {
+  const { numerator: num, denominator: den } = price;
+  if (num === 0n) return "0";
+  if (den === 0n) return "∞";
+
+  const { digits, exp } = toSignificant(num, den, sig);
+  if (exp <= 0) {
+    // Value >= 10^(sig-1): round to an integer
+    return ((num * 2n + den) / (2n * den)).toString();
+  }
+
+  const str = digits.toString();
+  if (exp > sig + 9) {
+    const mantissa = `${str[0]}.${str.slice(1)}`.replace(/\.?0+$/, "");
+    return `${mantissa}e-${exp - sig + 1}`;
+  }
+
+  const padded = str.padStart(exp + 1, "0");
+  const whole = padded.slice(0, padded.length - exp);
+  const frac = padded.slice(padded.length - exp).replace(/0+$/, "");
+  return frac ? `${whole}.${frac}` : whole;
+}
+
+/** Format a token amount in wei with `sig` significant digits */
+export function formatUnitsSignificant(amount: bigint, decimals: number, sig = 6): string {
+  const sign = amount < 0n ? "-" : "";
+  const abs = amount < 0n ? -amount : amount;
+  return sign + formatSignificant({ numerator: abs, denominator: pow10(decimals) }, sig);
+}
+
+/** Closest float to an exact price, for charts and comparisons */
+export function priceToNumber(price: Price): number {
+  if (price.numerator === 0n) return 0;
+  if (price.denominator === 0n) return Infinity;
+  const { digits, exp } = toSignificant(price.numerator, price.denominator, 17);
+  return Number(`${digits}e${-exp}`);
+}
@@ -0,0 +1,226 @@
+import { MAX_LP_FEE } from "./poolKey";
+import {
+  getAmount0Delta,
+  getAmount1Delta,
+  getNextSqrtPriceFromInput,
+  getNextSqrtPriceFromOutput,
+} from "./sqrtPriceMath";
+import type { ProtectedPoolState } from "./hookDecision";
+import type { SwapSimulation } from "./swapSimulator";
+
+// Expected amounts, slippage bounds and price impact for swaps on the
+// protected pool. Fees are the LP fee the hook overrides with; the
+// protocol fee is assumed to be zero.
+
+const FEE_DENOMINATOR = BigInt(MAX_LP_FEE);
+const Q192 = 1n << 192n;
+
+export interface SwapQuote {
+  /**
+   * "simulation" when read from the router's returned delta, "tickWalk" when
+   * replayed off-chain across initialized ticks, "estimate" when assumed to
+   * stay in the current tick range
+   */
+  source: "simulation" | "tickWalk" | "estimate";
+  amountIn: bigint;
+  amountOut: bigint;
+  /** LP fee charged by the hook, in hundredths of a bip */
+  fee: number;
+  /** Part of amountIn kept as the LP fee */
+  feeAmount: bigint;
+  /** Shortfall against the spot price caused by the pool's curve alone */
+  ammImpactBps: number;
+  /** Shortfall against the spot price including the fee */
+  totalImpactBps: number;
+  /** Pool price after the swap, when known */
+  sqrtPriceAfterX96?: bigint;
+}
+
+/** Split a BalanceDelta into its int128 halves (positive = paid to the swapper) */
+export function decodeBalanceDelta(delta: bigint): { amount0: bigint; amount1: bigint } {
+  const amount0 = BigInt.asIntN(128, delta >> 128n);
+  const amount1 = BigInt.asIntN(128, delta);
+  return { amount0, amount1 };
+}
+
+/** Output at the spot price, before any price movement */
+function spotOutput(amountIn: bigint, sqrtPriceX96: bigint, zeroForOne: boolean): bigint {
+  const priceX192 = sqrtPriceX96 * sqrtPriceX96;
+  return zeroForOne ? (amountIn * priceX192) / Q192 : (amountIn * Q192) / priceX192;
+}
+
+function shortfallBps(expected: bigint, actual: bigint): number {
+  if (expected === 0n || actual >= expected) return 0;
+  return Number(((expected - actual) * 10000n) / expected);
+}
+
+/** Shortfall of `amountOut` against `amountIn` valued at the spot price, fees included */
+export function spotShortfallBps(
+  amountIn: bigint,
+  amountOut: bigint,
+  sqrtPriceX96: bigint,
+  zeroForOne: boolean
+): number {
+  return shortfallBps(spotOutput(amountIn, sqrtPriceX96, zeroForOne), amountOut);
+}
+
+function feeAmountOf(amountIn: bigint, fee: number): bigint {
+  const kept = (amountIn * (FEE_DENOMINATOR - BigInt(fee))) / FEE_DENOMINATOR;
+  return amountIn - kept;
+}
+
+function buildQuote(
+  source: SwapQuote["source"],
+  amountIn: bigint,
+  amountOut: bigint,
+  fee: number,
+  sqrtPriceX96: bigint,
+  zeroForOne: boolean,
+  sqrtPriceAfterX96?: bigint,
+  feeAmount = feeAmountOf(amountIn, fee)
+): SwapQuote {
+  return {
+    source,
+    amountIn,
+    amountOut,
+    fee,
+    feeAmount,
+    ammImpactBps: shortfallBps(
+      spotOutput(amountIn - feeAmount, sqrtPriceX96, zeroForOne),
+      amountOut
+    ),
+    totalImpactBps: spotShortfallBps(amountIn, amountOut, sqrtPriceX96, zeroForOne),
+    sqrtPriceAfterX96,
+  };
+}
+
+/**
+ * Exact-input quote assuming the swap stays inside the current tick range,
+ * computed the way SwapMath.computeSwapStep does when the target price is not
+ * reached. Returns null when the pool has no liquidity or the swap would push
+ * the price out of bounds.
+ */
+export function estimateExactInput(
+  state: ProtectedPoolState,
+  amountIn: bigint,
+  zeroForOne: boolean,
+  fee: number
+): SwapQuote | null {
+  const { sqrtPriceX96, liquidity } = state;
+  if (liquidity === 0n || sqrtPriceX96 === 0n || amountIn <= 0n) return null;
+
+  const amountInLessFee = amountIn - feeAmountOf(amountIn, fee);
+  let sqrtPriceAfterX96: bigint;
+  try {
+    sqrtPriceAfterX96 = getNextSqrtPriceFromInput(
+      sqrtPriceX96,
+      liquidity,
+      amountInLessFee,
+      zeroForOne
+    );
+  } catch {
+    return null;
+  }
+  const amountOut = zeroForOne
+    ? getAmount1Delta(sqrtPriceAfterX96, sqrtPriceX96, liquidity, false)
+    : getAmount0Delta(sqrtPriceX96, sqrtPriceAfterX96, liquidity, false);
+
+  return buildQuote(
+    "estimate",
+    amountIn,
+    amountOut,
+    fee,
+    sqrtPriceX96,
+    zeroForOne,
+    sqrtPriceAfterX96
+  );
+}
+
+/**
+ * Exact-output counterpart of estimateExactInput: the input (fee included)
+ * needed to receive `amountOut` without leaving the current tick range.
+ */
+export function estimateExactOutput(
+  state: ProtectedPoolState,
+  amountOut: bigint,
+  zeroForOne: boolean,
+  fee: number
+): SwapQuote | null {
+  const { sqrtPriceX96, liquidity } = state;
+  // v4 rejects exact-output swaps at a 100% fee (InvalidFeeForExactOut)
+  if (liquidity === 0n || sqrtPriceX96 === 0n || amountOut <= 0n || fee >= MAX_LP_FEE) {
+    return null;
+  }
+
+  let sqrtPriceAfterX96: bigint;
+  try {
+    sqrtPriceAfterX96 = getNextSqrtPriceFromOutput(sqrtPriceX96, liquidity, amountOut, zeroForOne);
+  } catch {
+    return null;
+  }
+  const amountInLessFee = zeroForOne
+    ? getAmount0Delta(sqrtPriceAfterX96, sqrtPriceX96, liquidity, true)
+    : getAmount1Delta(sqrtPriceX96, sqrtPriceAfterX96, liquidity, true);
+  // SwapMath: feeAmount = amountIn * fee / (1e6 - fee), rounded up
+  const numerator = amountInLessFee * BigInt(fee);
+  const denominator = FEE_DENOMINATOR - BigInt(fee);
+  const feeAmount = numerator / denominator + (numerator % denominator === 0n ? 0n : 1n);
+
+  return buildQuote(
+    "estimate",
+    amountInLessFee + feeAmount,
+    amountOut,
+    fee,
+    sqrtPriceX96,
+    zeroForOne,
+    sqrtPriceAfterX96,
+    feeAmount
+  );
+}
+
+/** Quote from the BalanceDelta returned by a simulated router swap */
+export function quoteFromDelta(
+  delta: bigint,
+  zeroForOne: boolean,
+  fee: number,
+  sqrtPriceX96: bigint
+): SwapQuote {
+  const { amount0, amount1 } = decodeBalanceDelta(delta);
+  const [paid, received] = zeroForOne ? [amount0, amount1] : [amount1, amount0];
+  return buildQuote("simulation", -paid, received, fee, sqrtPriceX96, zeroForOne);
+}
+
+/** Quote from an off-chain tick walk (see swapSimulator) */
+export function quoteFromSimulation(
+  simulation: SwapSimulation,
+  zeroForOne: boolean,
+  fee: number,
+  sqrtPriceX96: bigint
+): SwapQuote {
+  return buildQuote(
+    "tickWalk",
+    simulation.amountIn,
+    simulation.amountOut,
+    fee,
+    sqrtPriceX96,
+    zeroForOne,
+    simulation.sqrtPriceX96,
+    simulation.feeAmount
+  );
+}
+
+/** Lowest acceptable output for a slippage tolerance in bps */
+export function minimumAmountOut(amountOut: bigint, slippageBps: number): bigint {
+  return (amountOut * BigInt(10000 - slippageBps)) / 10000n;
+}
+
+/** Highest acceptable input for a slippage tolerance in bps (rounds up) */
+export function maximumAmountIn(amountIn: bigint, slippageBps: number): bigint {
+  const scaled = amountIn * BigInt(10000 + slippageBps);
+  return scaled / 10000n + (scaled % 10000n === 0n ? 0n : 1n);
+}
+
+/** Unix deadline `minutes` from now */
+export function swapDeadline(minutes: number, now = Date.now()): bigint {
+  return BigInt(Math.floor(now / 1000) + Math.round(minutes * 60));
+}
@@ -0,0 +1,72 @@
+import type { Address } from "viem";
+import type { PoolKey } from "./poolKey";
+
+// Infers referenceZeroForOne from currency ordering. Pool prices are
+// currency1 per currency0, so when the currency both pools share sits on the
+// same side in each key, a market-wide move in it pushes both prices the same
+// way (true); on opposite sides the reference price moves inversely (false).
+
+export interface ReferenceDirection {
+  /** Currency both pools trade against, e.g. WETH */
+  sharedCurrency: Address | null;
+  /** Inferred referenceZeroForOne; null when the pools share no currency */
+  zeroForOne: boolean | null;
+  warnings: string[];
+}
+
+function same(a: Address, b: Address): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Infer the direction flag for `referenceKey` used as a reference for `protectedKey` */
+export function detectReferenceDirection(
+  protectedKey: PoolKey,
+  referenceKey: PoolKey
+): ReferenceDirection {
+  const shared = [protectedKey.currency0, protectedKey.currency1].filter(
+    (c) => same(c, referenceKey.currency0) || same(c, referenceKey.currency1)
+  );
+
+  if (shared.length === 0) {
+    return {
+      sharedCurrency: null,
+      zeroForOne: null,
+      warnings: [
+        "Pools share no currency, so the reference says nothing about the protected pair",
+      ],
+    };
+  }
+  if (shared.length === 2) {
+    return {
+      sharedCurrency: null,
+      zeroForOne: true,
+      warnings: ["Reference trades the same pair as the protected pool"],
+    };
+  }
+
+  const sharedCurrency = shared[0];
+  const protectedSide = same(sharedCurrency, protectedKey.currency0);
+  const referenceSide = same(sharedCurrency, referenceKey.currency0);
+  const zeroForOne = protectedSide === referenceSide;
+  return {
+    sharedCurrency,
+    zeroForOne,
+    warnings: zeroForOne
+      ? []
+      : [
+          "Inverted: the shared currency is currency0 in one pool and currency1 in the other, " +
+            "so the reference price moves opposite to the protected price",
+        ],
+  };
+}
+
+/** Problem with a configured flag, or null when it matches the currency ordering */
+export function checkReferenceDirection(
+  protectedKey: PoolKey,
+  referenceKey: PoolKey,
+  configured: boolean
+): string | null {
+  const { zeroForOne } = detectReferenceDirection(protectedKey, referenceKey);
+  if (zeroForOne === null || zeroForOne === configured) return null;
+  return `referenceZeroForOne is ${configured} but the currency ordering implies ${zeroForOne}`;
+}
@@ -0,0 +1,292 @@
+import { getAbiItem, getAddress, type Address, type Hex, type PublicClient } from "viem";
+import { poolManagerAbi } from "./contracts";
+import { fetchInChunks } from "./eventIndexer";
+import { MAX_REFERENCES } from "./poolConfig";
+import { toPoolId, ZERO_ADDRESS, type PoolKey } from "./poolKey";
+import { fetchPoolStates, type PoolState } from "./poolSnapshot";
+import { detectReferenceDirection } from "./referenceDirection";
+import type { Registration } from "./registration";
+import { estimateSwapImpactBps } from "./utils";
+
+// Finds reference pool candidates among every pool the PoolManager has
+// initialized. A candidate must share a currency with the protected pool; it
+// is scored by how much of that shared currency a swap needs to move its price
+// by `targetBps`, using the hook's own impact estimate on its in-range
+// liquidity. The shared currency can be either of the protected pool's, so
+// costs and depths are ranked after converting them to the protected pool's
+// currency1 at its price.
+
+export const initializeEvent = getAbiItem({ abi: poolManagerAbi, name: "Initialize" });
+
+/** Price move used to score candidates when none is given: the Sepolia breaker */
+export const DEFAULT_MANIPULATION_BPS = 1000;
+
+/** Pools read per extsload call, two slots each */
+const STATE_BATCH = 200;
+
+export interface InitializedPool {
+  id: Hex;
+  key: PoolKey;
+  /** Block of the Initialize event; null for fixture entries without one */
+  blockNumber: bigint | null;
+}
+
+export interface ReferenceCandidate {
+  pool: InitializedPool;
+  sharedCurrency: Address;
+  /** Inferred referenceZeroForOne */
+  zeroForOne: boolean;
+  warnings: string[];
+  state: PoolState;
+  /** Virtual reserve of the shared currency at the current price and liquidity */
+  depth: bigint;
+  /** Shared currency a swap needs to move the price by targetBps; null if no amount does */
+  manipulationCost: bigint | null;
+  /**
+   * depth and manipulationCost in the protected pool's currency1, which
+   * candidates rank by; left in currency0 when every candidate shares it and
+   * there is no price to convert at
+   */
+  ranking: { depth: bigint; manipulationCost: bigint | null };
+}
+
+/**
+ * Every pool initialized between `fromBlock` and `toBlock` (default: head),
+ * fetched in chunks like the hook event indexer.
+ */
+export async function scanInitializedPools(
+  client: PublicClient,
+  poolManager: Address,
+  fromBlock: bigint,
+  toBlock?: bigint,
+  onProgress?: (scannedTo: bigint, head: bigint) => void,
+  signal?: AbortSignal
+): Promise<InitializedPool[]> {
+  const head = toBlock ?? (await client.getBlockNumber());
+  return fetchInChunks(
+    fromBlock,
+    head,
+    async (from, to) => {
+      const logs = await client.getLogs({
+        address: poolManager,
+        event: initializeEvent,
+        fromBlock: from,
+        toBlock: to,
+      });
+      return logs.flatMap((log): InitializedPool[] => {
+        const { id, currency0, currency1, fee, tickSpacing, hooks } = log.args;
+        if (log.removed || !id || !currency0 || !currency1 || !hooks) return [];
+        if (fee === undefined || tickSpacing === undefined) return [];
+        return [
+          {
+            id,
+            key: { currency0, currency1, fee, tickSpacing, hooks },
+            blockNumber: log.blockNumber,
+          },
+        ];
+      });
+    },
+    (scannedTo) => onProgress?.(scannedTo, head),
+    signal
+  );
+}
+
+/**
+ * Pools from a JSON fixture: an array of pool keys, optionally with
+ * `blockNumber`. Ids are derived from the keys.
+ */
+export function parseInitializeFixture(raw: unknown): InitializedPool[] {
+  if (!Array.isArray(raw)) throw new Error("Fixture must be an array of pool keys");
+  return raw.map((value: unknown, i) => {
+    const invalid = (field: string): never => {
+      throw new Error(`Fixture entry ${i}: missing or invalid "${field}"`);
+    };
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Error(`Fixture entry ${i} must be a pool key object`);
+    }
+    const entry = value as Record<string, unknown>;
+    const address = (field: "currency0" | "currency1" | "hooks"): Address => {
+      const fieldValue = entry[field];
+      if (typeof fieldValue !== "string") return invalid(field);
+      try {
+        return getAddress(fieldValue);
+      } catch {
+        return invalid(field);
+      }
+    };
+    const integer = (field: "fee" | "tickSpacing" | "blockNumber"): number => {
+      const fieldValue = entry[field];
+      return typeof fieldValue === "number" && Number.isInteger(fieldValue)
+        ? fieldValue
+        : invalid(field);
+    };
+    const key: PoolKey = {
+      currency0: address("currency0"),
+      currency1: address("currency1"),
+      fee: integer("fee"),
+      tickSpacing: integer("tickSpacing"),
+      hooks: address("hooks"),
+    };
+    const blockNumber = entry.blockNumber === undefined ? null : BigInt(integer("blockNumber"));
+    return { id: toPoolId(key), key, blockNumber };
+  });
+}
+
+/** Virtual reserve of currency0 (L / sqrtP) or currency1 (L * sqrtP) */
+export function sharedDepth(state: PoolState, sharedIsCurrency0: boolean): bigint {
+  if (state.sqrtPriceX96 === 0n) return 0n;
+  return sharedIsCurrency0
+    ? (state.liquidity << 96n) / state.sqrtPriceX96
+    : (state.liquidity * state.sqrtPriceX96) >> 96n;
+}
+
+/**
+ * Smallest exact input of the shared currency that moves the pool's price by
+ * at least `targetBps` per estimateSwapImpactBps, or null when no amount up
+ * to 2^160 does. Selling currency0 pushes the price down, currency1 up.
+ */
+export function manipulationCost(
+  state: PoolState,
+  sharedIsCurrency0: boolean,
+  targetBps: number
+): bigint | null {
+  const impact = (amount: bigint) =>
+    estimateSwapImpactBps(amount, state.liquidity, state.sqrtPriceX96, sharedIsCurrency0);
+  if (impact(0n) >= targetBps) return 0n;
+
+  let hi = 1n;
+  while (impact(hi) < targetBps) {
+    if (hi >= 1n << 160n) return null;
+    hi <<= 1n;
+  }
+  let lo = hi >> 1n;
+  // impact(lo) < targetBps <= impact(hi)
+  while (hi - lo > 1n) {
+    const mid = (lo + hi) / 2n;
+    if (impact(mid) >= targetBps) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
+
+/** Amount of currency0 worth of currency1 at `sqrtPriceX96` */
+function currency0ToCurrency1(amount: bigint, sqrtPriceX96: bigint): bigint {
+  return (amount * sqrtPriceX96 * sqrtPriceX96) >> 192n;
+}
+
+function compareCandidates(a: ReferenceCandidate, b: ReferenceCandidate): number {
+  // Unbounded cost first, then most expensive, then deepest
+  const [costA, costB] = [a.ranking.manipulationCost, b.ranking.manipulationCost];
+  if (costA !== costB) {
+    if (costA === null) return -1;
+    if (costB === null) return 1;
+    return costA > costB ? -1 : 1;
+  }
+  if (a.ranking.depth !== b.ranking.depth) return a.ranking.depth > b.ranking.depth ? -1 : 1;
+  return a.pool.id < b.pool.id ? -1 : 1;
+}
+
+/**
+ * Score every pool in `pools` that shares a currency with the protected pool,
+ * reading slot0 and liquidity through extsload. Sorted most expensive to
+ * manipulate first, in the protected pool's currency1. Costs in currency0 are
+ * converted at the protected pool's price, or before it is initialized at the
+ * price of the deepest pool of the same pair; with neither, candidates on
+ * both sides cannot be ranked together and this throws.
+ */
+export async function discoverReferences(
+  client: PublicClient,
+  poolManager: Address,
+  protectedKey: PoolKey,
+  pools: readonly InitializedPool[],
+  targetBps = DEFAULT_MANIPULATION_BPS,
+  blockNumber?: bigint
+): Promise<ReferenceCandidate[]> {
+  const protectedId = toPoolId(protectedKey);
+  const seen = new Set<Hex>([protectedId]);
+  const related: Omit<ReferenceCandidate, "state" | "depth" | "manipulationCost" | "ranking">[] = [];
+
+  for (const pool of pools) {
+    if (seen.has(pool.id)) continue;
+    seen.add(pool.id);
+    const direction = detectReferenceDirection(protectedKey, pool.key);
+    if (direction.zeroForOne === null) continue;
+    const warnings = [...direction.warnings];
+    if (pool.key.hooks !== ZERO_ADDRESS) {
+      warnings.push(`Has hooks ${pool.key.hooks}, which may change how its price moves`);
+    }
+    related.push({
+      pool,
+      // Same-pair pools share both; score them in the protected pool's currency1
+      sharedCurrency: direction.sharedCurrency ?? protectedKey.currency1,
+      zeroForOne: direction.zeroForOne,
+      warnings,
+    });
+  }
+  if (related.length === 0) return [];
+
+  const ids = [protectedId, ...related.map((r) => r.pool.id)];
+  const states = new Map<Hex, PoolState>();
+  for (let i = 0; i < ids.length; i += STATE_BATCH) {
+    await fetchPoolStates(client, poolManager, ids.slice(i, i + STATE_BATCH), blockNumber, states);
+  }
+
+  // Currency1 per currency0 for converting costs in the protected pool's currency0
+  const samePair = related
+    .filter(
+      (r) =>
+        r.pool.key.currency0.toLowerCase() === protectedKey.currency0.toLowerCase() &&
+        r.pool.key.currency1.toLowerCase() === protectedKey.currency1.toLowerCase()
+    )
+    .map((r) => states.get(r.pool.id)!)
+    .filter((state) => state.sqrtPriceX96 > 0n)
+    .sort((a, b) => (a.liquidity > b.liquidity ? -1 : a.liquidity < b.liquidity ? 1 : 0));
+  const protectedPrice = states.get(protectedId)!.sqrtPriceX96;
+  const sqrtPriceX96 = protectedPrice > 0n ? protectedPrice : samePair[0]?.sqrtPriceX96 ?? 0n;
+  const inCurrency0 = (r: (typeof related)[number]) =>
+    r.sharedCurrency.toLowerCase() === protectedKey.currency0.toLowerCase();
+  if (sqrtPriceX96 === 0n && related.some(inCurrency0) && !related.every(inCurrency0)) {
+    throw new Error(
+      "Cannot rank candidates sharing either currency: neither the protected pool " +
+        "nor a pool of the same pair has a price"
+    );
+  }
+  // Every candidate shares currency0 when there is no price; rank them as is
+  const toNumeraire = (amount: bigint) =>
+    sqrtPriceX96 === 0n ? amount : currency0ToCurrency1(amount, sqrtPriceX96);
+
+  return related
+    .map((r): ReferenceCandidate => {
+      const state = states.get(r.pool.id)!;
+      const sharedIsCurrency0 = r.sharedCurrency.toLowerCase() === r.pool.key.currency0.toLowerCase();
+      const warnings =
+        state.liquidity === 0n ? [...r.warnings, "No liquidity in range"] : r.warnings;
+      const depth = sharedDepth(state, sharedIsCurrency0);
+      const cost = manipulationCost(state, sharedIsCurrency0, targetBps);
+      const convert = inCurrency0(r) ? toNumeraire : (amount: bigint) => amount;
+      return {
+        ...r,
+        warnings,
+        state,
+        depth,
+        manipulationCost: cost,
+        ranking: { depth: convert(depth), manipulationCost: cost === null ? null : convert(cost) },
+      };
+    })
+    .sort(compareCandidates);
+}
+
+/**
+ * The best `max` candidates with liquidity, in the shape
+ * Registration.references takes.
+ */
+export function recommendReferences(
+  candidates: readonly ReferenceCandidate[],
+  max = MAX_REFERENCES
+): Registration["references"] {
+  return [...candidates]
+    .filter((c) => c.state.liquidity > 0n && c.state.sqrtPriceX96 > 0n)
+    .sort(compareCandidates)
+    .slice(0, max)
+    .map((c) => ({ key: c.pool.key, zeroForOne: c.zeroForOne }));
+}
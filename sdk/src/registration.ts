@@ -0,0 +1,170 @@
+import type { Address, Hex } from "viem";
+import { toPoolId, validatePoolKey, MAX_LP_FEE, type PoolKey } from "./poolKey";
+import {
+  AGGREGATION_MAX,
+  AGGREGATION_MEDIAN,
+  MAX_REFERENCES,
+  aggregationLabel,
+  type AggregationMode,
+  type PoolConfig,
+} from "./poolConfig";
+import { bpsToPercent, feeToPercent } from "./utils";
+
+// Client-side checks and call building for registerPool / registerPoolMultiRef.
+// The contract only enforces the reference count and aggregation mode; the
+// other checks catch configs that register fine but never behave as intended.
+
+export interface Registration {
+  protectedPoolKey: PoolKey;
+  references: { key: PoolKey; zeroForOne: boolean }[];
+  baseFee: number;
+  highImpactFee: number;
+  highImpactThresholdBps: number;
+  circuitBreakerBps: number;
+  maxRefMoveBps: number;
+  aggregationMode: number;
+}
+
+/** Swap impact is capped at 100%, so larger thresholds can never be reached */
+const MAX_BPS = 10000;
+
+function isIntegerIn(value: number, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+/** Problems with a registration; empty means it can be submitted */
+export function validateRegistration(r: Registration, hook: Address): string[] {
+  const problems: string[] = [];
+
+  for (const problem of validatePoolKey(r.protectedPoolKey, hook)) {
+    problems.push(`Protected pool: ${problem}`);
+  }
+  if (r.protectedPoolKey.hooks.toLowerCase() !== hook.toLowerCase()) {
+    problems.push("Protected pool: hooks must be the CrossPoolOracleHook");
+  }
+
+  if (r.references.length === 0) problems.push("At least one reference pool is required");
+  if (r.references.length > MAX_REFERENCES) {
+    problems.push(`At most ${MAX_REFERENCES} reference pools`);
+  }
+  const protectedId = toPoolId(r.protectedPoolKey);
+  const seen = new Set<Hex>();
+  r.references.forEach((ref, i) => {
+    for (const problem of validatePoolKey(ref.key)) {
+      problems.push(`Reference #${i + 1}: ${problem}`);
+    }
+    const id = toPoolId(ref.key);
+    if (id === protectedId) problems.push(`Reference #${i + 1} is the protected pool`);
+    if (seen.has(id)) problems.push(`Reference #${i + 1} is listed twice`);
+    seen.add(id);
+  });
+
+  for (const [name, fee] of [
+    ["baseFee", r.baseFee],
+    ["highImpactFee", r.highImpactFee],
+  ] as const) {
+    if (!isIntegerIn(fee, 0, MAX_LP_FEE)) {
+      problems.push(`${name} must be an integer from 0 to ${MAX_LP_FEE} (hundredths of a bip)`);
+    }
+  }
+  if (r.highImpactFee < r.baseFee) problems.push("highImpactFee is below baseFee");
+
+  if (!isIntegerIn(r.highImpactThresholdBps, 1, MAX_BPS)) {
+    problems.push(`highImpactThresholdBps must be an integer from 1 to ${MAX_BPS}`);
+  }
+  if (!isIntegerIn(r.circuitBreakerBps, 1, MAX_BPS)) {
+    problems.push(`circuitBreakerBps must be an integer from 1 to ${MAX_BPS}`);
+  } else if (r.circuitBreakerBps <= r.highImpactThresholdBps) {
+    problems.push("circuitBreakerBps must be above highImpactThresholdBps");
+  }
+  if (!isIntegerIn(r.maxRefMoveBps, 0, MAX_BPS)) {
+    problems.push(`maxRefMoveBps must be an integer from 0 (uncapped) to ${MAX_BPS}`);
+  }
+  if (r.aggregationMode !== AGGREGATION_MAX && r.aggregationMode !== AGGREGATION_MEDIAN) {
+    problems.push("aggregationMode must be 0 (max) or 1 (median)");
+  }
+
+  return problems;
+}
+
+/** The PoolConfig getPoolConfig will return once the registration is mined */
+export function registrationConfig(r: Registration): PoolConfig {
+  return {
+    referencePoolIds: r.references.map((ref) => toPoolId(ref.key)),
+    referenceZeroForOne: r.references.map((ref) => ref.zeroForOne),
+    baseFee: r.baseFee,
+    highImpactFee: r.highImpactFee,
+    highImpactThresholdBps: r.highImpactThresholdBps,
+    circuitBreakerBps: r.circuitBreakerBps,
+    maxRefMoveBps: r.maxRefMoveBps,
+    aggregationMode: r.aggregationMode as AggregationMode,
+  };
+}
+
+export interface ConfigChange {
+  field: string;
+  /** null when the pool is not registered yet, or the reference is new */
+  from: string | null;
+  /** null when a reference is removed */
+  to: string | null;
+}
+
+function describeConfig(config: PoolConfig): Map<string, string> {
+  const fields = new Map<string, string>();
+  config.referencePoolIds.forEach((id, i) => {
+    fields.set(`Reference #${i + 1}`, id);
+    fields.set(
+      `Reference #${i + 1} direction`,
+      config.referenceZeroForOne[i] ? "zeroForOne" : "oneForZero"
+    );
+  });
+  fields.set("baseFee", feeToPercent(config.baseFee));
+  fields.set("highImpactFee", feeToPercent(config.highImpactFee));
+  fields.set("highImpactThresholdBps", bpsToPercent(config.highImpactThresholdBps));
+  fields.set("circuitBreakerBps", bpsToPercent(config.circuitBreakerBps));
+  fields.set(
+    "maxRefMoveBps",
+    config.maxRefMoveBps === 0 ? "uncapped" : bpsToPercent(config.maxRefMoveBps)
+  );
+  fields.set("aggregationMode", aggregationLabel(config.aggregationMode));
+  return fields;
+}
+
+/** Fields that differ between the registered config and the proposed one */
+export function diffPoolConfig(current: PoolConfig | null, next: PoolConfig): ConfigChange[] {
+  const before = current ? describeConfig(current) : new Map<string, string>();
+  const after = describeConfig(next);
+  const fields = [...new Set([...after.keys(), ...before.keys()])];
+  return fields
+    .map((field) => ({ field, from: before.get(field) ?? null, to: after.get(field) ?? null }))
+    .filter((change) => change.from !== change.to);
+}
+
+/** Contract call for a registration: registerPool for one reference, registerPoolMultiRef otherwise */
+export function registrationCall(r: Registration) {
+  const config = registrationConfig(r);
+  const params = [
+    r.baseFee,
+    r.highImpactFee,
+    BigInt(r.highImpactThresholdBps),
+    BigInt(r.circuitBreakerBps),
+    BigInt(r.maxRefMoveBps),
+    r.aggregationMode,
+  ] as const;
+
+  if (config.referencePoolIds.length === 1) {
+    return {
+      functionName: "registerPool",
+      args: [
+        r.protectedPoolKey,
+        config.referencePoolIds[0],
+        config.referenceZeroForOne[0],
+        ...params,
+      ],
+    } as const;
+  }
+  return {
+    functionName: "registerPoolMultiRef",
+    args: [r.protectedPoolKey, config.referencePoolIds, config.referenceZeroForOne, ...params],
+  } as const;
+}
@@ -0,0 +1,249 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  isHex,
+  size,
+  slice,
+  toFunctionSelector,
+  type Abi,
+  type Address,
+  type Hex,
+} from "viem";
+import {
+  erc20ErrorsAbi,
+  hookAbi,
+  permit2ErrorsAbi,
+  poolManagerErrorsAbi,
+  swapRouterErrorsAbi,
+} from "./contracts";
+import { bpsToPercent, feeToPercent } from "./utils";
+
+// Structured decoding of revert data from swaps and admin calls. Reverts that
+// pass through the PoolManager arrive as WrappedError(target, selector,
+// reason, details); those are unwrapped down to the innermost known error.
+
+export type RevertSource =
+  | "hook"
+  | "poolManager"
+  | "router"
+  | "permit2"
+  | "token"
+  | "solidity"
+  | "unknown";
+
+export interface DecodedRevert {
+  source: RevertSource;
+  /** Error name, or null when the selector matches none of the known ABIs */
+  name: string | null;
+  /** Decoded arguments keyed by parameter name (by position when unnamed) */
+  args: Record<string, unknown>;
+  /** Raw revert data of this (innermost) error */
+  data: Hex;
+  /** Set when the PoolManager wrapped this revert from a call to `target` */
+  wrappedBy?: { target: Address; selector: Hex };
+  /** Human-readable reason for the UI */
+  message: string;
+}
+
+const SOURCES: [RevertSource, Abi][] = [
+  ["hook", hookAbi],
+  ["poolManager", poolManagerErrorsAbi],
+  ["router", swapRouterErrorsAbi],
+  ["permit2", permit2ErrorsAbi],
+  ["token", erc20ErrorsAbi],
+];
+
+const HOOK_CALLBACKS = [
+  "beforeInitialize(address,(address,address,uint24,int24,address),uint160)",
+  "afterInitialize(address,(address,address,uint24,int24,address),uint160,int24)",
+  "beforeSwap(address,(address,address,uint24,int24,address),(bool,int256,uint160),bytes)",
+  "afterSwap(address,(address,address,uint24,int24,address),(bool,int256,uint160),int256,bytes)",
+];
+const CALLBACK_NAMES = new Map<string, string>(
+  HOOK_CALLBACKS.map((sig) => [toFunctionSelector(sig), sig.slice(0, sig.indexOf("("))])
+);
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division by zero",
+  0x21: "invalid enum value",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+};
+
+type Formatter = (args: Record<string, unknown>) => string;
+
+/** Integer argument as decoded by viem: uint256 as bigint, smaller widths as number */
+function isInteger(value: unknown): value is bigint | number {
+  return typeof value === "bigint" || (typeof value === "number" && Number.isInteger(value));
+}
+
+const MESSAGES: Record<string, Formatter> = {
+  CircuitBreakerTriggered: ({ impactBps }) =>
+    isInteger(impactBps)
+      ? `Circuit breaker triggered: ${bpsToPercent(impactBps)} of price impact is not explained by the reference pools`
+      : "Circuit breaker triggered: price impact is not explained by the reference pools",
+  PoolNotRegistered: () => "The protected pool is not registered with the hook",
+  OnlyOwner: () => "Only the hook owner can do this",
+  TooManyReferences: () => "Too many reference pools (at most 5)",
+  EmptyReferences: () => "At least one reference pool is required",
+  InvalidAggregationMode: () => "Aggregation mode must be 0 (max) or 1 (median)",
+  PoolNotInitialized: () => "Pool is not initialized",
+  SwapAmountCannotBeZero: () => "Swap amount cannot be zero",
+  PriceLimitAlreadyExceeded: () => "Price limit already exceeded",
+  PriceLimitOutOfBounds: () => "Price limit out of bounds",
+  LPFeeTooLarge: ({ fee }) =>
+    isInteger(fee)
+      ? `LP fee ${feeToPercent(Number(fee))} is above the maximum`
+      : "LP fee is above the maximum",
+  CurrencyNotSettled: () => "Swap left a currency unsettled",
+  DeadlinePassed: () => "Transaction deadline passed",
+  SlippageExceeded: () => "Output is below the minimum (slippage exceeded)",
+  V4TooLittleReceived: ({ minAmountOutReceived, amountReceived }) =>
+    `Received ${String(amountReceived)} but at least ${String(minAmountOutReceived)} was required`,
+  V4TooMuchRequested: ({ maxAmountInRequested, amountRequested }) =>
+    `Swap needs ${String(amountRequested)} input but at most ${String(maxAmountInRequested)} was allowed`,
+  AllowanceExpired: () => "Permit2 allowance for the router has expired; approve again",
+  InsufficientAllowance: () => "Permit2 allowance for the router is too low; approve again",
+  ERC20InsufficientBalance: () => "Insufficient token balance",
+  ERC20InsufficientAllowance: () => "Token allowance for Permit2 is too low; approve first",
+};
+
+function argsRecord(
+  abi: Abi,
+  name: string,
+  values: readonly unknown[] | undefined
+): Record<string, unknown> {
+  const item = abi.find((entry) => entry.type === "error" && entry.name === name);
+  const inputs = item && "inputs" in item ? item.inputs : [];
+  const args: Record<string, unknown> = {};
+  (values ?? []).forEach((value, i) => {
+    args[inputs[i]?.name || String(i)] = value;
+  });
+  return args;
+}
+
+function describe(name: string | null, args: Record<string, unknown>, data: Hex): string {
+  if (name === null) return `Unknown error ${size(data) >= 4 ? slice(data, 0, 4) : data}`;
+  const format = MESSAGES[name];
+  if (format) return format(args);
+  const values = Object.values(args).map(String).join(", ");
+  return `${name}(${values})`;
+}
+
+/** Decode raw revert data, unwrapping PoolManager WrappedError reverts */
+export function decodeRevertData(data: Hex): DecodedRevert {
+  if (size(data) < 4) {
+    return { source: "unknown", name: null, args: {}, data, message: "Reverted without a reason" };
+  }
+
+  // Error(string) and Panic(uint256) are built in
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: [], data });
+    if (errorName === "Error") {
+      return { source: "solidity", name: "Error", args: { reason: args[0] }, data, message: String(args[0]) };
+    }
+    if (errorName === "Panic") {
+      const code = Number(args[0]);
+      return {
+        source: "solidity",
+        name: "Panic",
+        args: { code },
+        data,
+        message: `Panic: ${PANIC_REASONS[code] ?? `code 0x${code.toString(16)}`}`,
+      };
+    }
+  } catch {
+    // Not a built-in error
+  }
+
+  for (const [source, abi] of SOURCES) {
+    let decoded;
+    try {
+      decoded = decodeErrorResult({ abi, data });
+    } catch {
+      continue;
+    }
+    const args = argsRecord(abi, decoded.errorName, decoded.args);
+
+    if (decoded.errorName === "WrappedError") {
+      const target = args.target as Address;
+      const selector = args.selector as Hex;
+      const inner = decodeRevertData(args.reason as Hex);
+      const callback = CALLBACK_NAMES.get(selector);
+      return {
+        ...inner,
+        // A failing hook callback is attributed to the hook even when its error is unknown
+        source: inner.source === "unknown" && callback ? "hook" : inner.source,
+        wrappedBy: { target, selector },
+        message:
+          inner.name === null && callback
+            ? `Hook ${callback} reverted: ${inner.message}`
+            : inner.message,
+      };
+    }
+
+    return {
+      source,
+      name: decoded.errorName,
+      args,
+      data,
+      message: describe(decoded.errorName, args, data),
+    };
+  }
+
+  return { source: "unknown", name: null, args: {}, data, message: describe(null, {}, data) };
+}
+
+function findRevertData(error: BaseError): Hex | undefined {
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError && reverted.raw) {
+    return reverted.raw;
+  }
+  // RPC and wallet errors carry the data as `data` or `data.data`
+  let found: Hex | undefined;
+  error.walk((e) => {
+    const data = (e as { data?: unknown }).data;
+    const candidate =
+      typeof data === "object" && data !== null ? (data as { data?: unknown }).data : data;
+    if (typeof candidate === "string" && isHex(candidate) && size(candidate) >= 4) {
+      found = candidate;
+      return true;
+    }
+    return false;
+  });
+  return found;
+}
+
+/**
+ * Decode the revert behind a viem/wagmi error. Returns null when the error is
+ * not a revert (user rejection, network failure), so callers can fall back to
+ * the error's own message.
+ */
+export function decodeRevert(error: unknown): DecodedRevert | null {
+  if (!(error instanceof BaseError)) return null;
+  const data = findRevertData(error);
+  if (data) return decodeRevertData(data);
+
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError && reverted.reason) {
+    return {
+      source: "solidity",
+      name: "Error",
+      args: { reason: reverted.reason },
+      data: "0x",
+      message: reverted.reason,
+    };
+  }
+  return null;
+}
+
+/** Short message for any error: the decoded revert reason when there is one */
+export function errorMessage(error: unknown): string {
+  const revert = decodeRevert(error);
+  if (revert) return revert.message;
+  if (error instanceof BaseError) return error.shortMessage;
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,147 @@
+import { tradeHeadroom } from "./headroom";
+import {
+  simulateHookDecision,
+  type HookDecision,
+  type ProtectedPoolState,
+} from "./hookDecision";
+import type { PoolConfig } from "./poolConfig";
+import {
+  estimateExactInput,
+  estimateExactOutput,
+  spotShortfallBps,
+  type SwapQuote,
+} from "./quote";
+
+// Splits an order that would land in the elevated or blocked tier into
+// sub-swaps the hook charges at a lower tier. Each sub-swap is sized against
+// the pool price left by the previous one. _afterSwap re-caches every
+// reference price, so reference movement only explains impact for the first
+// sub-swap; later ones see none. Pool liquidity is assumed constant (the
+// current tick range), like the hook's own impact estimate.
+
+export interface PlannedSwap {
+  /** Input for exact-input plans, output for exact-output plans */
+  amount: bigint;
+  decision: HookDecision;
+  quote: SwapQuote;
+}
+
+export interface SplitPlan {
+  zeroForOne: boolean;
+  exactOutput: boolean;
+  steps: PlannedSwap[];
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+  /** Shortfall of the whole plan against the starting spot price, fees included */
+  totalImpactBps: number;
+  /** The same order as a single swap; quote is null when the breaker would block it */
+  single: { decision: HookDecision; quote: SwapQuote | null };
+}
+
+export interface SplitOptions {
+  /** Highest tier a sub-swap may land in */
+  maxTier?: "base" | "elevated";
+  /** Sub-swaps are sized this far below the tier boundary, in bps */
+  marginBps?: number;
+  maxSteps?: number;
+}
+
+export const DEFAULT_MAX_STEPS = 20;
+const DEFAULT_MARGIN_BPS = 100;
+
+function quoteAt(
+  state: ProtectedPoolState,
+  amount: bigint,
+  zeroForOne: boolean,
+  exactOutput: boolean,
+  fee: number
+): SwapQuote | null {
+  return exactOutput
+    ? estimateExactOutput(state, amount, zeroForOne, fee)
+    : estimateExactInput(state, amount, zeroForOne, fee);
+}
+
+/**
+ * Plan `amount` (input, or output when `exactOutput`) as a sequence of
+ * sub-swaps that each stay within `maxTier`. Throws when the pool cannot
+ * absorb the order that way within `maxSteps`.
+ */
+export function planSplitSwap(
+  config: PoolConfig,
+  refPrices: readonly bigint[],
+  cachedRefPrices: readonly bigint[],
+  state: ProtectedPoolState,
+  zeroForOne: boolean,
+  exactOutput: boolean,
+  amount: bigint,
+  options: SplitOptions = {}
+): SplitPlan {
+  const maxTier = options.maxTier ?? "base";
+  const marginBps = BigInt(options.marginBps ?? DEFAULT_MARGIN_BPS);
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  if (amount <= 0n) throw new Error("Amount must be positive");
+
+  const decide = (s: ProtectedPoolState, cached: readonly bigint[], a: bigint) =>
+    simulateHookDecision(config, refPrices, cached, s, {
+      zeroForOne,
+      amountSpecified: exactOutput ? a : -a,
+    });
+
+  const singleDecision = decide(state, cachedRefPrices, amount);
+  const single = {
+    decision: singleDecision,
+    quote:
+      singleDecision.fee === null
+        ? null
+        : quoteAt(state, amount, zeroForOne, exactOutput, singleDecision.fee),
+  };
+
+  const steps: PlannedSwap[] = [];
+  let current = state;
+  let cached = cachedRefPrices;
+  let remaining = amount;
+
+  while (remaining > 0n) {
+    if (steps.length === maxSteps) {
+      throw new Error(`Order needs more than ${maxSteps} sub-swaps`);
+    }
+    const headroom = tradeHeadroom(config, refPrices, cached, current, zeroForOne, exactOutput);
+    const limit = maxTier === "base" ? headroom.maxAtBaseFee : headroom.maxBeforeBreaker;
+    const size =
+      limit === null || limit >= remaining
+        ? remaining
+        : (limit * (10000n - marginBps)) / 10000n;
+    if (size === 0n) {
+      throw new Error(`Every sub-swap would exceed the ${maxTier} fee tier`);
+    }
+
+    const decision = decide(current, cached, size);
+    const quote =
+      decision.fee === null
+        ? null
+        : quoteAt(current, size, zeroForOne, exactOutput, decision.fee);
+    if (!quote?.sqrtPriceAfterX96) {
+      throw new Error("Pool cannot absorb the order");
+    }
+    steps.push({ amount: size, decision, quote });
+
+    remaining -= size;
+    current = { ...current, sqrtPriceX96: quote.sqrtPriceAfterX96 };
+    // _afterSwap caches the references' current prices
+    cached = refPrices;
+  }
+
+  const amountIn = steps.reduce((sum, s) => sum + s.quote.amountIn, 0n);
+  const amountOut = steps.reduce((sum, s) => sum + s.quote.amountOut, 0n);
+  return {
+    zeroForOne,
+    exactOutput,
+    steps,
+    amountIn,
+    amountOut,
+    feeAmount: steps.reduce((sum, s) => sum + s.quote.feeAmount, 0n),
+    totalImpactBps: spotShortfallBps(amountIn, amountOut, state.sqrtPriceX96, zeroForOne),
+    single,
+  };
+}
@@ -0,0 +1,120 @@
+// Port of v4-core SqrtPriceMath on bigint. Intermediate values are checked
+// against the same 256/160-bit bounds the contract enforces.
+
+export const Q96 = 1n << 96n;
+const MAX_UINT160 = (1n << 160n) - 1n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  return product / denominator + (product % denominator === 0n ? 0n : 1n);
+}
+
+function divRoundingUp(x: bigint, y: bigint): bigint {
+  return x / y + (x % y === 0n ? 0n : 1n);
+}
+
+function toUint160(value: bigint): bigint {
+  if (value > MAX_UINT160) throw new Error("SafeCastOverflow");
+  return value;
+}
+
+/** Price after adding or removing `amount` of token0 (rounds up) */
+export function getNextSqrtPriceFromAmount0RoundingUp(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (amount === 0n) return sqrtPX96;
+  const numerator1 = liquidity << 96n;
+  const product = amount * sqrtPX96;
+
+  if (add) {
+    if (product <= MAX_UINT256) {
+      const denominator = numerator1 + product;
+      if (denominator <= MAX_UINT256) {
+        return mulDivRoundingUp(numerator1, sqrtPX96, denominator);
+      }
+    }
+    return divRoundingUp(numerator1, numerator1 / sqrtPX96 + amount);
+  }
+
+  if (product > MAX_UINT256 || numerator1 <= product) throw new Error("PriceOverflow");
+  return toUint160(mulDivRoundingUp(numerator1, sqrtPX96, numerator1 - product));
+}
+
+/** Price after adding or removing `amount` of token1 (rounds down) */
+export function getNextSqrtPriceFromAmount1RoundingDown(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (add) {
+    return toUint160(sqrtPX96 + (amount << 96n) / liquidity);
+  }
+  const quotient = divRoundingUp(amount << 96n, liquidity);
+  if (sqrtPX96 <= quotient) throw new Error("NotEnoughLiquidity");
+  return sqrtPX96 - quotient;
+}
+
+/** Price after swapping `amountIn` into the pool */
+export function getNextSqrtPriceFromInput(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amountIn: bigint,
+  zeroForOne: boolean
+): bigint {
+  if (sqrtPX96 === 0n || liquidity === 0n) throw new Error("InvalidPriceOrLiquidity");
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountIn, true)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountIn, true);
+}
+
+/** Price after taking `amountOut` out of the pool */
+export function getNextSqrtPriceFromOutput(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amountOut: bigint,
+  zeroForOne: boolean
+): bigint {
+  if (sqrtPX96 === 0n || liquidity === 0n) throw new Error("InvalidPriceOrLiquidity");
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountOut, false)
+    : getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountOut, false);
+}
+
+/** Token0 needed to move between two prices at constant liquidity */
+export function getAmount0Delta(
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  const [lower, upper] =
+    sqrtPriceAX96 > sqrtPriceBX96
+      ? [sqrtPriceBX96, sqrtPriceAX96]
+      : [sqrtPriceAX96, sqrtPriceBX96];
+  if (lower === 0n) throw new Error("InvalidPrice");
+
+  const numerator1 = liquidity << 96n;
+  const numerator2 = upper - lower;
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, upper), lower)
+    : (numerator1 * numerator2) / upper / lower;
+}
+
+/** Token1 needed to move between two prices at constant liquidity */
+export function getAmount1Delta(
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  const diff =
+    sqrtPriceAX96 > sqrtPriceBX96
+      ? sqrtPriceAX96 - sqrtPriceBX96
+      : sqrtPriceBX96 - sqrtPriceAX96;
+  return roundUp ? mulDivRoundingUp(liquidity, diff, Q96) : (liquidity * diff) / Q96;
+}
@@ -0,0 +1,184 @@
+import { getAbiItem, type Address, type Hex, type PublicClient } from "viem";
+import { poolManagerAbi } from "./contracts";
+import { fetchInChunks } from "./eventIndexer";
+import { fetchPoolStates } from "./poolSnapshot";
+
+// Protected-pool swaps with the reference prices each one saw, for replaying
+// through the hook decision under other parameters. Built from PoolManager
+// Swap events, or loaded from a JSON export of the same data with bigints as
+// decimal strings.
+
+export const swapEvent = getAbiItem({ abi: poolManagerAbi, name: "Swap" });
+
+export interface HistoricalSwap {
+  blockNumber: bigint;
+  /** Protected pool price and liquidity before the swap */
+  sqrtPriceX96: bigint;
+  liquidity: bigint;
+  zeroForOne: boolean;
+  /** Raw SwapParams.amountSpecified; negative for exact input */
+  amountSpecified: bigint;
+  /** Input paid by the swapper, fee included */
+  amountIn: bigint;
+  /** Reference sqrtPriceX96 when the swap ran, in referencePoolIds order */
+  refPrices: bigint[];
+  /** Known manipulation; unlabelled swaps count as organic */
+  manipulation?: boolean;
+}
+
+export interface SwapHistory {
+  poolId: Hex;
+  referencePoolIds: Hex[];
+  /** lastReferenceSqrtPrices before the first swap */
+  initialRefPrices: bigint[];
+  swaps: HistoricalSwap[];
+}
+
+/**
+ * Protected-pool swaps between `fromBlock` and `toBlock` (default: head).
+ * Pool and reference state is read at the block before each swap's block, so
+ * this needs an archive node for old ranges; later swaps in the same block
+ * start from the previous swap's post-swap price. Amounts come from the
+ * swapper's balance delta and are assumed to be exact-input swaps.
+ */
+export async function fetchSwapHistory(
+  client: PublicClient,
+  poolManager: Address,
+  poolId: Hex,
+  referencePoolIds: Hex[],
+  fromBlock: bigint,
+  toBlock?: bigint,
+  onProgress?: (scannedTo: bigint, head: bigint) => void,
+  signal?: AbortSignal
+): Promise<SwapHistory> {
+  const head = toBlock ?? (await client.getBlockNumber());
+  const logs = await fetchInChunks(
+    fromBlock,
+    head,
+    async (from, to) =>
+      (
+        await client.getLogs({
+          address: poolManager,
+          event: swapEvent,
+          args: { id: poolId },
+          fromBlock: from,
+          toBlock: to,
+        })
+      ).filter((log) => !log.removed),
+    (scannedTo) => onProgress?.(scannedTo, head),
+    signal
+  );
+
+  const ids = [poolId, ...referencePoolIds];
+  const statesBefore = (block: bigint) => fetchPoolStates(client, poolManager, ids, block - 1n);
+  const initial = await statesBefore(fromBlock);
+
+  const swaps: HistoricalSwap[] = [];
+  // Post-swap state of the last swap seen
+  let previous = null as { blockNumber: bigint; sqrtPriceX96: bigint; liquidity: bigint } | null;
+  let refPrices: bigint[] = [];
+
+  for (const log of logs) {
+    const { amount0 = 0n, amount1 = 0n, sqrtPriceX96 = 0n, liquidity = 0n } = log.args;
+    let start: { sqrtPriceX96: bigint; liquidity: bigint };
+    if (previous?.blockNumber === log.blockNumber) {
+      start = previous;
+    } else {
+      const states = await statesBefore(log.blockNumber);
+      start = states.get(poolId)!;
+      refPrices = referencePoolIds.map((id) => states.get(id)!.sqrtPriceX96);
+    }
+    // The side the swapper paid is negative
+    const zeroForOne = amount0 < 0n;
+    const amountIn = zeroForOne ? -amount0 : -amount1;
+    swaps.push({
+      blockNumber: log.blockNumber,
+      sqrtPriceX96: start.sqrtPriceX96,
+      liquidity: start.liquidity,
+      zeroForOne,
+      amountSpecified: -amountIn,
+      amountIn,
+      refPrices,
+    });
+    previous = { blockNumber: log.blockNumber, sqrtPriceX96, liquidity };
+  }
+
+  return {
+    poolId,
+    referencePoolIds,
+    initialRefPrices: referencePoolIds.map((id) => initial.get(id)!.sqrtPriceX96),
+    swaps,
+  };
+}
+
+function readBigInt(value: unknown, field: string): bigint {
+  if (typeof value === "string" && /^-?\d+$/.test(value)) return BigInt(value);
+  if (typeof value === "number" && Number.isSafeInteger(value)) return BigInt(value);
+  throw new Error(`Swap history: "${field}" must be an integer or decimal string`);
+}
+
+function readBigInts(value: unknown, field: string): bigint[] {
+  if (!Array.isArray(value)) throw new Error(`Swap history: "${field}" must be an array`);
+  return value.map((v, i) => readBigInt(v, `${field}[${i}]`));
+}
+
+function readRecord(value: unknown, what: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`${what} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function readPoolId(value: unknown, field: string): Hex {
+  if (typeof value === "string" && /^0x[0-9a-fA-F]{64}$/.test(value)) return value as Hex;
+  throw new Error(`Swap history: "${field}" must be a 32-byte hex pool id`);
+}
+
+/** Parse a JSON export written by serializeSwapHistory */
+export function parseSwapHistory(value: unknown): SwapHistory {
+  const raw = readRecord(value, "Swap history");
+  if (!Array.isArray(raw.referencePoolIds) || !Array.isArray(raw.swaps)) {
+    throw new Error('Swap history: "referencePoolIds" and "swaps" must be arrays');
+  }
+  const poolId = readPoolId(raw.poolId, "poolId");
+  const referencePoolIds = raw.referencePoolIds.map((id: unknown, i) =>
+    readPoolId(id, `referencePoolIds[${i}]`)
+  );
+  const initialRefPrices = readBigInts(raw.initialRefPrices, "initialRefPrices");
+  if (initialRefPrices.length !== referencePoolIds.length) {
+    throw new Error("Swap history: initialRefPrices must have one price per reference");
+  }
+
+  const swaps = raw.swaps.map((entry: unknown, i): HistoricalSwap => {
+    const field = (name: string) => `swaps[${i}].${name}`;
+    const swap = readRecord(entry, `Swap history: "swaps[${i}]"`);
+    if (typeof swap.zeroForOne !== "boolean") {
+      throw new Error(`Swap history: "${field("zeroForOne")}" must be a boolean`);
+    }
+    const refPrices = readBigInts(swap.refPrices, field("refPrices"));
+    if (refPrices.length !== referencePoolIds.length) {
+      throw new Error(`Swap history: "${field("refPrices")}" must have one price per reference`);
+    }
+    return {
+      blockNumber: readBigInt(swap.blockNumber, field("blockNumber")),
+      sqrtPriceX96: readBigInt(swap.sqrtPriceX96, field("sqrtPriceX96")),
+      liquidity: readBigInt(swap.liquidity, field("liquidity")),
+      zeroForOne: swap.zeroForOne,
+      amountSpecified: readBigInt(swap.amountSpecified, field("amountSpecified")),
+      amountIn: readBigInt(swap.amountIn, field("amountIn")),
+      refPrices,
+      ...(swap.manipulation === undefined ? {} : { manipulation: !!swap.manipulation }),
+    };
+  });
+
+  return { poolId, referencePoolIds, initialRefPrices, swaps };
+}
+
+/** JSON export of a history, bigints as decimal strings */
+export function serializeSwapHistory(history: SwapHistory): string {
+  return JSON.stringify(
+    history,
+    (_, value) => (typeof value === "bigint" ? value.toString() : value),
+    2
+  );
+}
@@ -0,0 +1,99 @@
+import { MAX_LP_FEE } from "./poolKey";
+import {
+  getAmount0Delta,
+  getAmount1Delta,
+  getNextSqrtPriceFromInput,
+  getNextSqrtPriceFromOutput,
+} from "./sqrtPriceMath";
+
+// Port of v4-core SwapMath. amountRemaining follows v4's sign convention:
+// negative for exact input, positive for exact output.
+
+const MAX_SWAP_FEE = BigInt(MAX_LP_FEE);
+
+export interface SwapStep {
+  sqrtPriceNextX96: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  return product / denominator + (product % denominator === 0n ? 0n : 1n);
+}
+
+/** SwapMath.getSqrtPriceTarget: the next tick's price, unless the limit comes first */
+export function getSqrtPriceTarget(
+  zeroForOne: boolean,
+  sqrtPriceNextX96: bigint,
+  sqrtPriceLimitX96: bigint
+): bigint {
+  return (zeroForOne ? sqrtPriceNextX96 < sqrtPriceLimitX96 : sqrtPriceNextX96 > sqrtPriceLimitX96)
+    ? sqrtPriceLimitX96
+    : sqrtPriceNextX96;
+}
+
+/** SwapMath.computeSwapStep */
+export function computeSwapStep(
+  sqrtPriceCurrentX96: bigint,
+  sqrtPriceTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: number
+): SwapStep {
+  const fee = BigInt(feePips);
+  const zeroForOne = sqrtPriceCurrentX96 >= sqrtPriceTargetX96;
+  const exactIn = amountRemaining < 0n;
+
+  let sqrtPriceNextX96: bigint;
+  let amountIn: bigint;
+  let amountOut: bigint;
+  let feeAmount: bigint;
+
+  if (exactIn) {
+    const remaining = -amountRemaining;
+    const amountRemainingLessFee = (remaining * (MAX_SWAP_FEE - fee)) / MAX_SWAP_FEE;
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtPriceTargetX96, sqrtPriceCurrentX96, liquidity, true)
+      : getAmount1Delta(sqrtPriceCurrentX96, sqrtPriceTargetX96, liquidity, true);
+    if (amountRemainingLessFee >= amountIn) {
+      sqrtPriceNextX96 = sqrtPriceTargetX96;
+      feeAmount = fee === MAX_SWAP_FEE ? amountIn : mulDivRoundingUp(amountIn, fee, MAX_SWAP_FEE - fee);
+    } else {
+      // Exhaust the remaining amount; what is left over is the fee
+      amountIn = amountRemainingLessFee;
+      sqrtPriceNextX96 = getNextSqrtPriceFromInput(
+        sqrtPriceCurrentX96,
+        liquidity,
+        amountRemainingLessFee,
+        zeroForOne
+      );
+      feeAmount = remaining - amountIn;
+    }
+    amountOut = zeroForOne
+      ? getAmount1Delta(sqrtPriceNextX96, sqrtPriceCurrentX96, liquidity, false)
+      : getAmount0Delta(sqrtPriceCurrentX96, sqrtPriceNextX96, liquidity, false);
+  } else {
+    amountOut = zeroForOne
+      ? getAmount1Delta(sqrtPriceTargetX96, sqrtPriceCurrentX96, liquidity, false)
+      : getAmount0Delta(sqrtPriceCurrentX96, sqrtPriceTargetX96, liquidity, false);
+    if (amountRemaining >= amountOut) {
+      sqrtPriceNextX96 = sqrtPriceTargetX96;
+    } else {
+      amountOut = amountRemaining;
+      sqrtPriceNextX96 = getNextSqrtPriceFromOutput(
+        sqrtPriceCurrentX96,
+        liquidity,
+        amountOut,
+        zeroForOne
+      );
+    }
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtPriceNextX96, sqrtPriceCurrentX96, liquidity, true)
+      : getAmount1Delta(sqrtPriceCurrentX96, sqrtPriceNextX96, liquidity, true);
+    feeAmount = mulDivRoundingUp(amountIn, fee, MAX_SWAP_FEE - fee);
+  }
+
+  return { sqrtPriceNextX96, amountIn, amountOut, feeAmount };
+}
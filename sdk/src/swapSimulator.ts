@@ -0,0 +1,279 @@
+import type { Address, Hex, PublicClient } from "viem";
+import { poolManagerAbi } from "./contracts";
+import { MAX_LP_FEE } from "./poolKey";
+import { computeSwapStep, getSqrtPriceTarget } from "./swapMath";
+import { compress, nextInitializedTickWithinOneWord, position } from "./tickBitmap";
+import {
+  getSqrtPriceAtTick,
+  getTickAtSqrtPrice,
+  MAX_SQRT_PRICE,
+  MAX_TICK,
+  MIN_SQRT_PRICE,
+  MIN_TICK,
+} from "./tickMath";
+import { getTickBitmapStorageSlot, getTickInfoStorageSlot } from "./utils";
+
+// Off-chain replay of v4-core Pool.swap: walks initialized ticks read from
+// PoolManager storage and applies SwapMath.computeSwapStep between them, so
+// swaps that leave the current tick range are priced like the chain does.
+// The protocol fee is assumed to be zero.
+
+export interface TickInfo {
+  liquidityGross: bigint;
+  liquidityNet: bigint;
+}
+
+/** The part of a pool's tick bitmap and ticks mapping read so far */
+export interface TickData {
+  tickSpacing: number;
+  /** tickBitmap words by wordPos; a missing entry means "not loaded yet" */
+  words: Map<number, bigint>;
+  /** ticks[tick] for every initialized tick in the loaded words */
+  ticks: Map<number, TickInfo>;
+}
+
+export interface SwapStartState {
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+}
+
+export interface SwapSimulationParams {
+  zeroForOne: boolean;
+  /** v4 convention: negative for exact input, positive for exact output */
+  amountSpecified: bigint;
+  /** LP fee in hundredths of a bip */
+  fee: number;
+  /** Defaults to the router's MIN_SQRT_PRICE + 1 / MAX_SQRT_PRICE - 1 */
+  sqrtPriceLimitX96?: bigint;
+}
+
+export interface SwapSimulation {
+  /** Paid by the swapper, fee included */
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+  sqrtPriceX96: bigint;
+  tick: number;
+  /** Active liquidity after the swap */
+  liquidity: bigint;
+  /** Initialized ticks crossed, in crossing order */
+  ticksCrossed: number[];
+  /** False when the price limit or the end of liquidity stopped the swap early */
+  complete: boolean;
+}
+
+export type SwapWalk =
+  | { status: "done"; result: SwapSimulation }
+  | { status: "needsWord"; wordPos: number };
+
+const MAX_UINT128 = (1n << 128n) - 1n;
+
+/** Decode the first word of Pool.TickInfo */
+export function parseTickInfo(word: Hex): TickInfo {
+  const value = BigInt(word);
+  return {
+    liquidityGross: value & MAX_UINT128,
+    liquidityNet: BigInt.asIntN(128, value >> 128n),
+  };
+}
+
+/** Ticks whose bit is set in a bitmap word */
+export function initializedTicksInWord(wordPos: number, word: bigint, tickSpacing: number): number[] {
+  const ticks: number[] = [];
+  for (let bit = 0; word !== 0n && bit < 256; bit++) {
+    if ((word >> BigInt(bit)) & 1n) ticks.push((wordPos * 256 + bit) * tickSpacing);
+  }
+  return ticks;
+}
+
+function defaultPriceLimit(zeroForOne: boolean): bigint {
+  return zeroForOne ? MIN_SQRT_PRICE + 1n : MAX_SQRT_PRICE - 1n;
+}
+
+/**
+ * Walk the swap over the loaded tick data. Returns the bitmap word it needs
+ * next when the walk reaches one that has not been loaded; call again once
+ * it is in `data.words`.
+ */
+export function walkSwap(
+  start: SwapStartState,
+  data: TickData,
+  params: SwapSimulationParams
+): SwapWalk {
+  const { zeroForOne, amountSpecified, fee } = params;
+  const sqrtPriceLimitX96 = params.sqrtPriceLimitX96 ?? defaultPriceLimit(zeroForOne);
+  const exactInput = amountSpecified < 0n;
+
+  if (!exactInput && fee >= MAX_LP_FEE) throw new Error("InvalidFeeForExactOut");
+  if (
+    zeroForOne
+      ? sqrtPriceLimitX96 >= start.sqrtPriceX96
+      : sqrtPriceLimitX96 <= start.sqrtPriceX96
+  ) {
+    throw new Error("PriceLimitAlreadyExceeded");
+  }
+  if (sqrtPriceLimitX96 <= MIN_SQRT_PRICE || sqrtPriceLimitX96 >= MAX_SQRT_PRICE) {
+    throw new Error("PriceLimitOutOfBounds");
+  }
+
+  let remaining = amountSpecified;
+  let sqrtPriceX96 = start.sqrtPriceX96;
+  let tick = start.tick;
+  let liquidity = start.liquidity;
+  let amountIn = 0n;
+  let amountOut = 0n;
+  let feeAmount = 0n;
+  const ticksCrossed: number[] = [];
+
+  let missing: number | null = null;
+  const word = (wordPos: number) => {
+    const value = data.words.get(wordPos);
+    if (value === undefined) {
+      missing = wordPos;
+      return 0n;
+    }
+    return value;
+  };
+
+  while (remaining !== 0n && sqrtPriceX96 !== sqrtPriceLimitX96) {
+    const sqrtPriceStartX96 = sqrtPriceX96;
+    const next = nextInitializedTickWithinOneWord(word, tick, data.tickSpacing, zeroForOne);
+    if (missing !== null) return { status: "needsWord", wordPos: missing };
+
+    const tickNext = Math.min(Math.max(next.next, MIN_TICK), MAX_TICK);
+    const sqrtPriceNextX96 = getSqrtPriceAtTick(tickNext);
+    const step = computeSwapStep(
+      sqrtPriceX96,
+      getSqrtPriceTarget(zeroForOne, sqrtPriceNextX96, sqrtPriceLimitX96),
+      liquidity,
+      remaining,
+      fee
+    );
+    sqrtPriceX96 = step.sqrtPriceNextX96;
+
+    if (exactInput) {
+      remaining += step.amountIn + step.feeAmount;
+    } else {
+      remaining -= step.amountOut;
+    }
+    amountIn += step.amountIn + step.feeAmount;
+    amountOut += step.amountOut;
+    feeAmount += step.feeAmount;
+
+    if (sqrtPriceX96 === sqrtPriceNextX96) {
+      if (next.initialized) {
+        const info = data.ticks.get(tickNext);
+        if (!info) throw new Error(`Tick ${tickNext} is initialized but was not loaded`);
+        liquidity += zeroForOne ? -info.liquidityNet : info.liquidityNet;
+        ticksCrossed.push(tickNext);
+      }
+      tick = zeroForOne ? tickNext - 1 : tickNext;
+    } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+      tick = getTickAtSqrtPrice(sqrtPriceX96);
+    }
+  }
+
+  return {
+    status: "done",
+    result: {
+      amountIn,
+      amountOut,
+      feeAmount,
+      sqrtPriceX96,
+      tick,
+      liquidity,
+      ticksCrossed,
+      complete: remaining === 0n,
+    },
+  };
+}
+
+/** Bitmap words fetched per round trip; doubles each time the walk runs past them */
+const INITIAL_WORD_BATCH = 4;
+/** Upper bound on words read for one simulation */
+export const MAX_BITMAP_WORDS = 512;
+
+/**
+ * Read bitmap words and the TickInfo of every tick they mark as initialized,
+ * pinned to `blockNumber`, into `data`.
+ */
+export async function loadBitmapWords(
+  client: PublicClient,
+  poolManager: Address,
+  poolId: Hex,
+  data: TickData,
+  wordPositions: number[],
+  blockNumber?: bigint
+): Promise<void> {
+  const words = await client.readContract({
+    address: poolManager,
+    abi: poolManagerAbi,
+    functionName: "extsload",
+    args: [wordPositions.map((wordPos) => getTickBitmapStorageSlot(poolId, wordPos))],
+    blockNumber,
+  });
+
+  const ticks = wordPositions.flatMap((wordPos, i) =>
+    initializedTicksInWord(wordPos, BigInt(words[i]), data.tickSpacing)
+  );
+  const infos =
+    ticks.length === 0
+      ? []
+      : await client.readContract({
+          address: poolManager,
+          abi: poolManagerAbi,
+          functionName: "extsload",
+          args: [ticks.map((tick) => getTickInfoStorageSlot(poolId, tick))],
+          blockNumber,
+        });
+
+  wordPositions.forEach((wordPos, i) => data.words.set(wordPos, BigInt(words[i])));
+  ticks.forEach((tick, i) => data.ticks.set(tick, parseTickInfo(infos[i])));
+}
+
+/**
+ * Simulate a swap on a pool by reading its tick bitmap from PoolManager
+ * storage as the walk needs it. Pass the same `data` across calls on the
+ * same block to reuse words already read.
+ */
+export async function simulateSwapFromStorage(
+  client: PublicClient,
+  poolManager: Address,
+  poolId: Hex,
+  start: SwapStartState,
+  params: SwapSimulationParams,
+  data: TickData,
+  blockNumber?: bigint
+): Promise<SwapSimulation> {
+  const step = params.zeroForOne ? -1 : 1;
+  // Last word holding a usable tick in the swap's direction
+  const lastWordPos = position(
+    compress(params.zeroForOne ? MIN_TICK : MAX_TICK, data.tickSpacing)
+  ).wordPos;
+  let batch = INITIAL_WORD_BATCH;
+
+  for (;;) {
+    const walk = walkSwap(start, data, params);
+    if (walk.status === "done") return walk.result;
+
+    if (data.words.size >= MAX_BITMAP_WORDS) {
+      throw new Error(`Swap walks past ${MAX_BITMAP_WORDS} tick bitmap words`);
+    }
+    // The missing word, then the words after it the walk is likely to need
+    const wordPositions = [walk.wordPos];
+    for (
+      let wordPos = walk.wordPos + step;
+      wordPositions.length < batch && (wordPos - lastWordPos) * step <= 0;
+      wordPos += step
+    ) {
+      if (!data.words.has(wordPos)) wordPositions.push(wordPos);
+    }
+    await loadBitmapWords(client, poolManager, poolId, data, wordPositions, blockNumber);
+    batch = Math.max(1, Math.min(batch * 2, MAX_BITMAP_WORDS - data.words.size));
+  }
+}
+
+export function emptyTickData(tickSpacing: number): TickData {
+  return { tickSpacing, words: new Map(), ticks: new Map() };
+}
@@ -0,0 +1,142 @@
+import { simulateHookDecision } from "./hookDecision";
+import {
+  AGGREGATION_MAX,
+  AGGREGATION_MEDIAN,
+  type AggregationMode,
+  type PoolConfig,
+} from "./poolConfig";
+import type { SwapHistory } from "./swapHistory";
+
+// Replays a swap history through the hook decision for a grid of parameter
+// settings. Blocked swaps revert, so they neither move the pool nor refresh
+// lastReferenceSqrtPrices; every other swap re-caches the reference prices it
+// saw, like _afterSwap. Pool states are the historical ones, so swaps after a
+// block are replayed as if it had gone through.
+
+export interface TuningSetting {
+  highImpactThresholdBps: number;
+  circuitBreakerBps: number;
+  maxRefMoveBps: number;
+  aggregationMode: AggregationMode;
+}
+
+export type TuningGrid = { [K in keyof TuningSetting]: TuningSetting[K][] };
+
+export const DEFAULT_TUNING_GRID: TuningGrid = {
+  highImpactThresholdBps: [50, 100, 200, 300, 500],
+  circuitBreakerBps: [500, 1000, 2000],
+  maxRefMoveBps: [0, 200, 500, 1000],
+  aggregationMode: [AGGREGATION_MAX, AGGREGATION_MEDIAN],
+};
+
+export interface TokenAmounts {
+  amount0: bigint;
+  amount1: bigint;
+}
+
+export interface ReplayMetrics {
+  swaps: number;
+  base: number;
+  elevated: number;
+  blocked: number;
+  /** Organic swaps charged the elevated fee or blocked */
+  falsePositives: number;
+  /** falsePositives over organic swaps; 0 when there are none */
+  falsePositiveRate: number;
+  /** Labelled manipulations charged the elevated fee or blocked */
+  detected: number;
+  /** detected over labelled manipulations; null when none are labelled */
+  detectionRate: number | null;
+  /** LP fees in each input currency */
+  feeRevenue: TokenAmounts;
+  /** Input of blocked swaps in each currency */
+  blockedVolume: TokenAmounts;
+}
+
+export interface TuningResult {
+  setting: TuningSetting;
+  metrics: ReplayMetrics;
+}
+
+/** Fee taken from an exact input, rounded up like SwapMath */
+export function exactInputFee(amountIn: bigint, fee: number): bigint {
+  return (amountIn * BigInt(fee) + 999_999n) / 1_000_000n;
+}
+
+/** Replay `history` under `config` */
+export function replayHistory(config: PoolConfig, history: SwapHistory): ReplayMetrics {
+  if (history.referencePoolIds.length !== config.referencePoolIds.length) {
+    throw new Error("History and config have different reference counts");
+  }
+  const metrics: ReplayMetrics = {
+    swaps: history.swaps.length,
+    base: 0,
+    elevated: 0,
+    blocked: 0,
+    falsePositives: 0,
+    falsePositiveRate: 0,
+    detected: 0,
+    detectionRate: null,
+    feeRevenue: { amount0: 0n, amount1: 0n },
+    blockedVolume: { amount0: 0n, amount1: 0n },
+  };
+  let cached = history.initialRefPrices;
+  let manipulations = 0;
+
+  for (const swap of history.swaps) {
+    const decision = simulateHookDecision(config, swap.refPrices, cached, swap, swap);
+    const side = swap.zeroForOne ? "amount0" : "amount1";
+    metrics[decision.tier]++;
+
+    const flagged = decision.tier !== "base";
+    if (swap.manipulation) {
+      manipulations++;
+      if (flagged) metrics.detected++;
+    } else if (flagged) {
+      metrics.falsePositives++;
+    }
+
+    if (decision.fee === null) {
+      metrics.blockedVolume[side] += swap.amountIn;
+    } else {
+      metrics.feeRevenue[side] += exactInputFee(swap.amountIn, decision.fee);
+      cached = swap.refPrices;
+    }
+  }
+
+  const organic = metrics.swaps - manipulations;
+  metrics.falsePositiveRate = organic === 0 ? 0 : metrics.falsePositives / organic;
+  metrics.detectionRate = manipulations === 0 ? null : metrics.detected / manipulations;
+  return metrics;
+}
+
+/** Every combination in `grid` the hook would accept (breaker above threshold) */
+export function gridSettings(grid: TuningGrid): TuningSetting[] {
+  const settings: TuningSetting[] = [];
+  for (const highImpactThresholdBps of grid.highImpactThresholdBps) {
+    for (const circuitBreakerBps of grid.circuitBreakerBps) {
+      if (circuitBreakerBps <= highImpactThresholdBps) continue;
+      for (const maxRefMoveBps of grid.maxRefMoveBps) {
+        for (const aggregationMode of grid.aggregationMode) {
+          settings.push({ highImpactThresholdBps, circuitBreakerBps, maxRefMoveBps, aggregationMode });
+        }
+      }
+    }
+  }
+  return settings;
+}
+
+/**
+ * Replay `history` for every setting in `grid`, keeping the references and
+ * fees of `config`. Results are in grid order.
+ */
+export function tuneThresholds(
+  config: PoolConfig,
+  history: SwapHistory,
+  grid: TuningGrid = DEFAULT_TUNING_GRID
+): TuningResult[] {
+  return gridSettings(grid).map((setting) => ({
+    setting,
+    metrics: replayHistory({ ...config, ...setting }, history),
+  }));
+}
@@ -0,0 +1,56 @@
+// Port of v4-core TickBitmap.nextInitializedTickWithinOneWord. Words are the
+// uint256 values of tickBitmap[wordPos]; bit i of word w is compressed tick
+// w * 256 + i.
+
+/** tick / tickSpacing, rounded towards negative infinity */
+export function compress(tick: number, tickSpacing: number): number {
+  return Math.floor(tick / tickSpacing);
+}
+
+/** Bitmap word and bit holding a compressed tick */
+export function position(compressed: number): { wordPos: number; bitPos: number } {
+  return { wordPos: compressed >> 8, bitPos: compressed & 0xff };
+}
+
+function mostSignificantBit(x: bigint): number {
+  return x.toString(2).length - 1;
+}
+
+function leastSignificantBit(x: bigint): number {
+  return mostSignificantBit(x & -x);
+}
+
+/**
+ * Next initialized tick in the same bitmap word as `tick`: at or below it when
+ * `lte`, strictly above it otherwise. When none is initialized the word
+ * boundary is returned with `initialized` false.
+ */
+export function nextInitializedTickWithinOneWord(
+  word: (wordPos: number) => bigint,
+  tick: number,
+  tickSpacing: number,
+  lte: boolean
+): { next: number; initialized: boolean; wordPos: number } {
+  let compressed = compress(tick, tickSpacing);
+
+  if (lte) {
+    const { wordPos, bitPos } = position(compressed);
+    const mask = (1n << BigInt(bitPos)) - 1n + (1n << BigInt(bitPos));
+    const masked = word(wordPos) & mask;
+    const initialized = masked !== 0n;
+    const next = initialized
+      ? (compressed - (bitPos - mostSignificantBit(masked))) * tickSpacing
+      : (compressed - bitPos) * tickSpacing;
+    return { next, initialized, wordPos };
+  }
+
+  compressed += 1;
+  const { wordPos, bitPos } = position(compressed);
+  const mask = ~((1n << BigInt(bitPos)) - 1n) & ((1n << 256n) - 1n);
+  const masked = word(wordPos) & mask;
+  const initialized = masked !== 0n;
+  const next = initialized
+    ? (compressed + (leastSignificantBit(masked) - bitPos)) * tickSpacing
+    : (compressed + (255 - bitPos)) * tickSpacing;
+  return { next, initialized, wordPos };
+}
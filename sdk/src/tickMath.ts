@@ -0,0 +1,69 @@
+// Port of v4-core TickMath. Prices are Q64.96 sqrt(token1/token0) in raw units.
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_PRICE = 4295128739n;
+export const MAX_SQRT_PRICE = 1461446703485210103287273052203988822378723970342n;
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+// sqrt(1.0001^-(2^i)) in Q128.128, for i = 1..19
+const RATIO_CONSTANTS: bigint[] = [
+  0xfff97272373d413259a46990580e213an,
+  0xfff2e50f5f656932ef12357cf3c7fdccn,
+  0xffe5caca7e10e4e61c3624eaa0941cd0n,
+  0xffcb9843d60f6159c9db58835c926644n,
+  0xff973b41fa98c081472e6896dfb254c0n,
+  0xff2ea16466c96a3843ec78b326b52861n,
+  0xfe5dee046a99a2a811c461f1969c3053n,
+  0xfcbe86c7900a88aedcffc83b479aa3a4n,
+  0xf987a7253ac413176f2b074cf7815e54n,
+  0xf3392b0822b70005940c7a398e4b70f3n,
+  0xe7159475a2c29b7443b29c7fa6e889d9n,
+  0xd097f3bdfd2022b8845ad8f792aa5825n,
+  0xa9f746462d870fdf8a65dc1f90e061e5n,
+  0x70d869a156d2a1b890bb3df62baf32f7n,
+  0x31be135f97d08fd981231505542fcfa6n,
+  0x9aa508b5b7a84e1c677de54f3e99bc9n,
+  0x5d6af8dedb81196699c329225ee604n,
+  0x2216e584f5fa1ea926041bedfe98n,
+  0x48a170391f7dc42444e8fa2n,
+];
+
+/** TickMath.getSqrtPriceAtTick */
+export function getSqrtPriceAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} out of range`);
+  }
+  const absTick = Math.abs(tick);
+
+  let ratio =
+    (absTick & 0x1) !== 0
+      ? 0xfffcb933bd6fad37aa2d162d1a594001n
+      : 0x100000000000000000000000000000000n;
+  for (let i = 0; i < RATIO_CONSTANTS.length; i++) {
+    if ((absTick & (1 << (i + 1))) !== 0) {
+      ratio = (ratio * RATIO_CONSTANTS[i]) >> 128n;
+    }
+  }
+
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  // Round up when downcasting from Q128.128 to Q64.96
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/** TickMath.getTickAtSqrtPrice: the greatest tick whose sqrt price is <= sqrtPriceX96 */
+export function getTickAtSqrtPrice(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_PRICE || sqrtPriceX96 >= MAX_SQRT_PRICE) {
+    throw new Error(`sqrtPriceX96 ${sqrtPriceX96} out of range`);
+  }
+  let lo = MIN_TICK;
+  let hi = MAX_TICK - 1;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi + 1) / 2);
+    if (getSqrtPriceAtTick(mid) <= sqrtPriceX96) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
@@ -1,21 +1,23 @@
-import { keccak256, encodePacked, type Hex } from "viem";
-
-const Q96 = BigInt(2) ** BigInt(96);
-
-/** Convert sqrtPriceX96 to a human-readable price (token1/token0) */
-export function sqrtPriceToPrice(sqrtPriceX96: bigint): number {
-  if (sqrtPriceX96 === 0n) return 0;
-  // price = (sqrtPrice / 2^96)^2
-  const priceNum = Number(sqrtPriceX96 * sqrtPriceX96) / Number(Q96 * Q96);
-  return priceNum;
+import { keccak256, encodePacked, encodeAbiParameters, type Hex } from "viem";
+import {
+  formatSignificant,
+  priceFromSqrtPriceX96,
+  priceToNumber,
+  type Price,
+} from "./price";
+
+/** Convert sqrtPriceX96 to a human-readable price (token1/token0), adjusted for token decimals */
+export function sqrtPriceToPrice(
+  sqrtPriceX96: bigint,
+  decimals0 = 18,
+  decimals1 = 18
+): number {
+  return priceToNumber(priceFromSqrtPriceX96(sqrtPriceX96, decimals0, decimals1));
 }
 
-/** Format price to readable string */
-export function formatPrice(price: number): string {
-  if (price === 0) return "0";
-  if (price >= 1000) return price.toFixed(0);
-  if (price >= 1) return price.toFixed(4);
-  return price.toFixed(6);
+/** Format an exact price to a readable string */
+export function formatPrice(price: Price, significantDigits = 6): string {
+  return formatSignificant(price, significantDigits);
 }
 
 /** Format bps as percentage string */
@@ -76,26 +78,70 @@ export function getLiquidityStorageSlot(poolId: Hex): Hex {
   return ("0x" + (slot0Num + 3n).toString(16).padStart(64, "0")) as Hex;
 }
 
+function stateSlotOffset(poolId: Hex, offset: bigint): Hex {
+  return ("0x" +
+    (BigInt(getSlot0StorageSlot(poolId)) + offset).toString(16).padStart(64, "0")) as Hex;
+}
+
+/** Storage slot of ticks[tick] (TickInfo's first word: liquidityGross | liquidityNet << 128) */
+export function getTickInfoStorageSlot(poolId: Hex, tick: number): Hex {
+  // Pool.State.ticks mapping is at +4: keccak256(abi.encode(int24 tick, ticksSlot))
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "int24" }, { type: "bytes32" }],
+      [tick, stateSlotOffset(poolId, 4n)]
+    )
+  );
+}
+
+/** Storage slot of tickBitmap[wordPos] */
+export function getTickBitmapStorageSlot(poolId: Hex, wordPos: number): Hex {
+  // Pool.State.tickBitmap mapping is at +5: keccak256(abi.encode(int16 wordPos, bitmapSlot))
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "int16" }, { type: "bytes32" }],
+      [wordPos, stateSlotOffset(poolId, 5n)]
+    )
+  );
+}
+
 /** Estimate swap price impact in bps using sqrtPrice-based AMM math.
- *  Matches the Solidity _estimateSwapImpactBps logic. */
+ *  Matches the Solidity _estimateSwapImpactBps logic: `amount` is the input
+ *  amount, or with `exactOutput` the output amount (the hook's
+ *  amountSpecified < 0 branch). */
 export function estimateSwapImpactBps(
-  amountIn: bigint,
+  amount: bigint,
   liquidity: bigint,
   sqrtPriceX96: bigint,
-  zeroForOne: boolean
+  zeroForOne: boolean,
+  exactOutput = false
 ): number {
-  if (liquidity === 0n || sqrtPriceX96 === 0n || amountIn === 0n) return 0;
+  // The hook treats an empty or uninitialized pool as maximum impact
+  if (liquidity === 0n || sqrtPriceX96 === 0n) return 10000;
 
   const L = liquidity;
   const sqrtP = sqrtPriceX96;
   let newSqrtP: bigint;
 
   if (zeroForOne) {
-    if (amountIn >= L) return 10000;
-    newSqrtP = (sqrtP * L) / (L + amountIn);
+    if (exactOutput) {
+      // Exact output of token1: sqrtP decreases roughly by amountOut / L
+      const delta = (amount << 96n) / L;
+      if (delta >= sqrtP) return 10000;
+      newSqrtP = sqrtP - delta;
+    } else {
+      if (amount >= L) return 10000;
+      newSqrtP = (sqrtP * L) / (L + amount);
+    }
   } else {
-    const delta = (amountIn << 96n) / L;
-    newSqrtP = sqrtP + delta;
+    if (exactOutput) {
+      // Exact output of token0: sqrtP increases to deliver amountOut
+      if (amount >= L) return 10000;
+      newSqrtP = (sqrtP * L) / (L - amount);
+    } else {
+      const delta = (amount << 96n) / L;
+      newSqrtP = sqrtP + delta;
+    }
   }
 
   const diff = newSqrtP > sqrtP ? newSqrtP - sqrtP : sqrtP - newSqrtP;
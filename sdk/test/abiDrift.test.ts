@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { Abi, AbiParameter } from "viem";
+import { hookAbi } from "../src/contracts";
+import { crossPoolOracleHookAbi } from "../src/generated/crossPoolOracleHookAbi";
+
+type Entry = Abi[number];
+
+function normalizeParams(params: readonly AbiParameter[] | undefined): unknown[] {
+  return (params ?? []).map((param) => ({
+    name: param.name ?? "",
+    type: param.type,
+    indexed: "indexed" in param ? !!param.indexed : undefined,
+    components:
+      "components" in param ? normalizeParams(param.components) : undefined,
+  }));
+}
+
+/** The fields that affect encoding, decoding and decoded arg names */
+function normalize(entry: Entry) {
+  return {
+    type: entry.type,
+    name: "name" in entry ? entry.name : undefined,
+    inputs: normalizeParams("inputs" in entry ? entry.inputs : undefined),
+    outputs: normalizeParams("outputs" in entry ? entry.outputs : undefined),
+    stateMutability: "stateMutability" in entry ? entry.stateMutability : undefined,
+    anonymous: entry.type === "event" ? !!entry.anonymous : undefined,
+  };
+}
+
+function key(entry: Entry): string {
+  const types = (params: readonly AbiParameter[]) =>
+    params.map((p) => p.type).join(",");
+  return `${entry.type} ${"name" in entry ? entry.name : ""}(${
+    "inputs" in entry ? types(entry.inputs) : ""
+  })`;
+}
+
+const generated = new Map(
+  (crossPoolOracleHookAbi as Abi).map((entry) => [key(entry), entry])
+);
+
+describe("hookAbi", () => {
+  it.each((hookAbi as Abi).map((entry) => [key(entry), entry] as const))(
+    "%s matches the compiled artifact",
+    (id, entry) => {
+      const compiled = generated.get(id);
+      expect(compiled, `${id} is not in the compiled ABI`).toBeDefined();
+      expect(normalize(entry)).toEqual(normalize(compiled!));
+    }
+  );
+
+  it("covers every event, error and view function of the hook", () => {
+    const handWritten = new Set((hookAbi as Abi).map(key));
+    const missing = Array.from(generated.values())
+      .filter(
+        (entry) =>
+          entry.type === "event" ||
+          entry.type === "error" ||
+          (entry.type === "function" &&
+            (entry.stateMutability === "view" || entry.stateMutability === "pure"))
+      )
+      .map(key)
+      .filter((id) => !handWritten.has(id));
+    expect(missing).toEqual([]);
+  });
+});
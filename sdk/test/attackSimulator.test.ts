@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import type { Hex } from "viem";
+import {
+  ATTACK_SCENARIOS,
+  attackScorecard,
+  runAttack,
+  type AttackMarket,
+  type AttackParams,
+} from "../src/attackSimulator";
+import { AGGREGATION_MAX, AGGREGATION_MEDIAN } from "../src/poolConfig";
+
+const Q96 = 1n << 96n;
+const E18 = 10n ** 18n;
+const L = 1_000_000n * E18;
+
+const market: AttackMarket = {
+  protectedPool: { sqrtPriceX96: Q96, liquidity: L },
+  references: [0, 1, 2].map(() => ({ sqrtPriceX96: Q96, liquidity: L, fee: 3000 })),
+  config: {
+    referencePoolIds: [1, 2, 3].map((i) => `0x${String(i).repeat(64)}` as Hex),
+    referenceZeroForOne: [true, true, true],
+    baseFee: 3000,
+    highImpactFee: 10000,
+    highImpactThresholdBps: 200,
+    circuitBreakerBps: 1000,
+    maxRefMoveBps: 0,
+    aggregationMode: AGGREGATION_MAX,
+  },
+};
+
+const params: AttackParams = {
+  pushBps: 800,
+  victimAmountIn: 20_000n * E18,
+  victimSlippageBps: 100,
+  steps: 1,
+  pushedReferences: 2,
+};
+
+/** Every reference rose ~20 bps since the hook last cached them */
+const drifted: AttackMarket = {
+  ...market,
+  cachedReferencePrices: market.references.map((ref) => (ref.sqrtPriceX96 * 10000n) / 10010n),
+};
+
+function withConfig(m: AttackMarket, change: Partial<AttackMarket["config"]>): AttackMarket {
+  return { ...m, config: { ...m.config, ...change } };
+}
+
+describe("runAttack", () => {
+  it("catches a one-swap pump but not one split under the threshold", () => {
+    const single = runAttack(market, "pumpAndDump", params);
+    expect(single.detected).toBe(true);
+    expect(single.legs[0].tier).toBe("elevated");
+
+    const split = runAttack(market, "pumpAndDump", { ...params, steps: 8 });
+    expect(split.detected).toBe(false);
+    expect(split.profit).toBeGreaterThan(0n);
+    expect(split.profit).toBeGreaterThan(single.profit);
+  });
+
+  it("loses about the fees paid when there is no victim", () => {
+    const outcome = runAttack(market, "pumpAndDump", { ...params, victimAmountIn: 0n });
+    expect(outcome.cost).toBeGreaterThan(0n);
+    expect(-outcome.profit).toBeGreaterThanOrEqual(outcome.cost);
+    expect(-outcome.profit - outcome.cost).toBeLessThan(outcome.cost / 1000n);
+  });
+
+  it("hides a pump behind one pushed reference unless maxRefMoveBps caps it", () => {
+    const uncapped = runAttack(market, "singleReferencePush", params);
+    expect(uncapped.detected).toBe(false);
+    expect(uncapped.legs.map((leg) => leg.pool)).toEqual([0, "protected", "protected", 0, "protected"]);
+
+    const capped = runAttack(withConfig(market, { maxRefMoveBps: 200 }), "singleReferencePush", params);
+    expect(capped.detected).toBe(true);
+    expect(capped.profit).toBeLessThan(uncapped.profit);
+  });
+
+  it("needs a majority of references to get past median aggregation", () => {
+    // The other references drifted up a little, so they count as aligned moves
+    const median = withConfig(drifted, { aggregationMode: AGGREGATION_MEDIAN });
+    expect(runAttack(median, "singleReferencePush", params).detected).toBe(true);
+    expect(runAttack(drifted, "singleReferencePush", params).detected).toBe(false);
+
+    const coordinated = runAttack(median, "coordinatedPush", params);
+    expect(coordinated.detected).toBe(false);
+    expect(coordinated.cost).toBeGreaterThan(runAttack(drifted, "singleReferencePush", params).cost);
+  });
+
+  it("sandwiches the victim only as far as their slippage tolerance allows", () => {
+    const loose = runAttack(market, "sandwich", params);
+    const victim = loose.legs.find((leg) => leg.actor === "victim")!;
+    expect(victim.executed).toBe(true);
+    expect(loose.profit).toBeGreaterThan(0n);
+
+    const tight = runAttack(market, "sandwich", { ...params, victimSlippageBps: 20 });
+    expect(tight.legs[0].amountIn).toBeLessThan(loose.legs[0].amountIn);
+  });
+
+  it("rejects a market whose references do not match the config", () => {
+    expect(() =>
+      runAttack({ ...market, references: market.references.slice(1) }, "sandwich", params)
+    ).toThrow("different reference counts");
+  });
+});
+
+describe("attackScorecard", () => {
+  it("runs every scenario for each aggregation mode and cap", () => {
+    const rows = attackScorecard(drifted, params, [0, 500]);
+    expect(rows.map((r) => [r.aggregationMode, r.maxRefMoveBps])).toEqual([
+      [AGGREGATION_MAX, 0],
+      [AGGREGATION_MAX, 500],
+      [AGGREGATION_MEDIAN, 0],
+      [AGGREGATION_MEDIAN, 500],
+    ]);
+    for (const row of rows) {
+      expect(row.outcomes.map((o) => o.scenario)).toEqual(ATTACK_SCENARIOS);
+    }
+    const singlePush = rows.map((r) => r.outcomes[1].detected);
+    expect(singlePush).toEqual([false, true, true, true]);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import type { Hex } from "viem";
+import {
+  parseEventStreamCsv,
+  parseEventStreamJson,
+  runBacktest,
+  type StreamEvent,
+} from "../src/backtest";
+import { AGGREGATION_MAX, type PoolConfig } from "../src/poolConfig";
+
+const Q96 = 1n << 96n;
+const L = 10n ** 24n;
+const PROTECTED = `0x${"11".repeat(32)}` as Hex;
+const REF = `0x${"aa".repeat(32)}` as Hex;
+// Reference price up 500 bps (sqrt-price terms, like the hook; truncates to 499)
+const MOVED = Q96 + Q96 / 40n;
+
+const config: PoolConfig = {
+  referencePoolIds: [REF],
+  referenceZeroForOne: [true],
+  baseFee: 3000,
+  highImpactFee: 10000,
+  highImpactThresholdBps: 200,
+  circuitBreakerBps: 1000,
+  maxRefMoveBps: 0,
+  aggregationMode: AGGREGATION_MAX,
+};
+
+function event(
+  type: StreamEvent["type"],
+  blockNumber: bigint,
+  poolId: Hex,
+  sqrtPriceX96: bigint,
+  amount0 = 0n,
+  amount1 = 0n
+): StreamEvent {
+  return { type, blockNumber, logIndex: 0, poolId, sqrtPriceX96, liquidity: L, amount0, amount1 };
+}
+
+/** Protected swap whose input moves the pool by `impactBps` per the hook's estimate */
+function protectedSwap(blockNumber: bigint, impactBps: bigint, zeroForOne: boolean) {
+  const amountIn = (impactBps * L) / 20000n;
+  return zeroForOne
+    ? event("swap", blockNumber, PROTECTED, Q96, -amountIn, amountIn)
+    : event("swap", blockNumber, PROTECTED, Q96, amountIn, -amountIn);
+}
+
+const fee = (amount: bigint, pips: bigint) => (amount * pips + 999_999n) / 1_000_000n;
+
+const stream = [
+  event("initialize", 1n, REF, Q96),
+  { ...event("initialize", 1n, PROTECTED, Q96), logIndex: 1 },
+  event("swap", 2n, REF, MOVED),
+  // Explained by the reference rising
+  protectedSwap(3n, 400n, false),
+  // Unexplained
+  protectedSwap(4n, 800n, true),
+  // The reference falls back ~487 bps; 1600 bps of impact still trips the breaker
+  event("swap", 5n, REF, Q96),
+  protectedSwap(6n, 1600n, true),
+  // The trip left the cache at MOVED, so the fall still explains this one
+  protectedSwap(7n, 400n, true),
+];
+
+describe("runBacktest", () => {
+  it("tracks lastReferenceSqrtPrices through initialize, swaps and breaker trips", () => {
+    // Arrival order does not matter
+    const report = runBacktest(config, PROTECTED, [...stream].reverse());
+
+    expect(report.swaps.map((s) => s.decision.tier)).toEqual(["base", "elevated", "blocked", "base"]);
+    expect(report.swaps.map((s) => s.referenceMovesBps[0])).toEqual([499, 0, 487, 487]);
+    expect([report.base, report.elevated, report.breakerTrips]).toEqual([2, 1, 1]);
+    expect(report.lastReferenceSqrtPrices).toEqual([Q96]);
+  });
+
+  it("reports fees per swap, extra LP revenue and blocked volume", () => {
+    const report = runBacktest(config, PROTECTED, stream);
+    const amounts = report.swaps.map((s) => s.amountIn);
+
+    expect(report.swaps.map((s) => s.feeAmount)).toEqual([
+      fee(amounts[0], 3000n),
+      fee(amounts[1], 10000n),
+      0n,
+      fee(amounts[3], 3000n),
+    ]);
+    expect(report.feeRevenue).toEqual({
+      amount0: fee(amounts[1], 10000n) + fee(amounts[3], 3000n),
+      amount1: fee(amounts[0], 3000n),
+    });
+    expect(report.extraLpRevenue).toEqual({
+      amount0: fee(amounts[1], 10000n) - fee(amounts[1], 3000n),
+      amount1: 0n,
+    });
+    expect(report.blockedVolume).toEqual({ amount0: amounts[2], amount1: 0n });
+  });
+
+  it("starts from zero cached prices unless seeded, with snapshots for pool state", () => {
+    const midHistory = [
+      event("snapshot", 1n, PROTECTED, Q96),
+      event("swap", 2n, REF, MOVED),
+      protectedSwap(3n, 400n, false),
+    ];
+    // A zero cached price reads as no reference movement
+    const unseeded = runBacktest(config, PROTECTED, midHistory);
+    expect(unseeded.swaps[0].referenceMovesBps).toEqual([0]);
+    expect(unseeded.swaps[0].decision.tier).toBe("elevated");
+
+    const seeded = runBacktest(config, PROTECTED, midHistory, [Q96]);
+    expect(seeded.swaps[0].decision.tier).toBe("base");
+  });
+});
+
+describe("event stream parsing", () => {
+  it("reads the same events from CSV and JSON", () => {
+    const csv = [
+      "type,blockNumber,logIndex,poolId,sqrtPriceX96,liquidity,amount0,amount1,amountSpecified",
+      `initialize,1,0,${REF},${Q96},${L},,,`,
+      `swap,3,2,${PROTECTED},${Q96},${L},-5,4,5`,
+    ].join("\n");
+    const json = [
+      { type: "initialize", blockNumber: 1, poolId: REF, sqrtPriceX96: Q96.toString(), liquidity: L.toString() },
+      {
+        type: "swap",
+        blockNumber: "3",
+        logIndex: 2,
+        poolId: PROTECTED,
+        sqrtPriceX96: Q96.toString(),
+        liquidity: L.toString(),
+        amount0: -5,
+        amount1: 4,
+        amountSpecified: 5,
+      },
+    ];
+    expect(parseEventStreamCsv(csv)).toEqual(parseEventStreamJson(json));
+    expect(parseEventStreamCsv(csv)[1]).toMatchObject({ amount0: -5n, amountSpecified: 5n });
+  });
+
+  it("rejects malformed rows", () => {
+    expect(() => parseEventStreamCsv("type,blockNumber,poolId\nswap,1,0x")).toThrow(
+      'CSV header is missing "sqrtPriceX96"'
+    );
+    expect(() =>
+      parseEventStreamCsv(`type,blockNumber,poolId,sqrtPriceX96\nswap,1,${REF},1`)
+    ).toThrow('CSV line 2: missing or invalid "amount0"');
+    expect(() => parseEventStreamJson([{ type: "mint" }])).toThrow('Event 0: missing or invalid "type"');
+    expect(() => parseEventStreamJson([null])).toThrow("Event 0 must be an object");
+    expect(() => parseEventStreamJson([["swap"]])).toThrow("Event 0 must be an object");
+  });
+});
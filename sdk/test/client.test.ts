@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Hex, PublicClient, WalletClient } from "viem";
+import sepoliaDeployment from "../../deployments/sepolia.json";
+import { CrossPoolOracleClient } from "../src/client";
+import { parseDeployment } from "../src/deployment";
+import type { PoolConfigResult } from "../src/poolConfig";
+import { estimateExactInput } from "../src/quote";
+import { registrationCall, type Registration } from "../src/registration";
+import { getLiquidityStorageSlot, getSlot0StorageSlot } from "../src/utils";
+
+const sepolia = parseDeployment(sepoliaDeployment);
+const PROTECTED = sepolia.protectedPool.id;
+const REFERENCE = sepolia.referencePools[0].id;
+const Q96 = 1n << 96n;
+const E18 = 10n ** 18n;
+
+const CONFIG: PoolConfigResult = [[REFERENCE], [true], 3000, 10000, 200n, 1000n, 10000n, 1];
+
+interface Call {
+  functionName: string;
+  args: readonly unknown[];
+}
+
+/** Client answering the hook's getters and extsload from fixed state */
+function fakeClient(config: PoolConfigResult | null) {
+  const storage = new Map<Hex, Hex>();
+  for (const id of [PROTECTED, REFERENCE]) {
+    storage.set(getSlot0StorageSlot(id), `0x${Q96.toString(16)}`);
+    storage.set(getLiquidityStorageSlot(id), `0x${(1000n * E18).toString(16)}`);
+  }
+  const answer = ({ functionName, args }: Call) => {
+    switch (functionName) {
+      case "getPoolConfig":
+        return config ?? [[], [], 0, 0, 0n, 0n, 0n, 0];
+      case "extsload":
+        return (args[0] as Hex[]).map((slot) => storage.get(slot) ?? "0x0");
+      case "lastReferenceSqrtPrices":
+        return Q96;
+      default:
+        throw new Error(`Unexpected call ${functionName}`);
+    }
+  };
+  return {
+    getBlockNumber: async () => 100n,
+    readContract: async (call: Call) => answer(call),
+    multicall: async ({ contracts }: { contracts: Call[] }) => contracts.map(answer),
+  } as unknown as PublicClient;
+}
+
+describe("CrossPoolOracleClient.previewSwap", () => {
+  const client = CrossPoolOracleClient.fromDeployment(fakeClient(CONFIG), sepolia);
+
+  it("quotes a small swap at the base fee", async () => {
+    const preview = await client.previewSwap(PROTECTED, { zeroForOne: true, amount: E18 });
+    expect(preview.blockNumber).toBe(100n);
+    expect(preview.decision.tier).toBe("base");
+    expect(preview.decision.fee).toBe(3000);
+
+    const snapshot = await client.getSnapshot(PROTECTED);
+    expect(preview.quote).toEqual(estimateExactInput(snapshot.protectedPool, E18, true, 3000));
+  });
+
+  it("has no quote when the circuit breaker blocks the swap", async () => {
+    const preview = await client.previewSwap(PROTECTED, { zeroForOne: true, amount: 100n * E18 });
+    expect(preview.decision.tier).toBe("blocked");
+    expect(preview.quote).toBeNull();
+  });
+
+  it("rejects pools the hook does not protect", async () => {
+    const unregistered = CrossPoolOracleClient.fromDeployment(fakeClient(null), sepolia);
+    await expect(
+      unregistered.previewSwap(PROTECTED, { zeroForOne: true, amount: E18 })
+    ).rejects.toThrow("is not registered with the hook");
+  });
+});
+
+describe("CrossPoolOracleClient.register", () => {
+  const client = CrossPoolOracleClient.fromDeployment(fakeClient(CONFIG), sepolia);
+  const registration: Registration = {
+    protectedPoolKey: sepolia.protectedPool.key,
+    references: [{ key: sepolia.referencePools[0].key, zeroForOne: true }],
+    baseFee: 3000,
+    highImpactFee: 10000,
+    highImpactThresholdBps: 200,
+    circuitBreakerBps: 1000,
+    maxRefMoveBps: 10000,
+    aggregationMode: 1,
+  };
+
+  function fakeWallet() {
+    const writeContract = vi.fn(async () => "0xabc" as Hex);
+    const wallet = {
+      account: { address: sepolia.addresses.hook, type: "json-rpc" },
+      chain: undefined,
+      writeContract,
+    } as unknown as WalletClient;
+    return { wallet, writeContract };
+  }
+
+  it("sends the registration call to the hook", async () => {
+    const { wallet, writeContract } = fakeWallet();
+    await expect(client.register(wallet, registration)).resolves.toBe("0xabc");
+    expect(writeContract).toHaveBeenCalledWith(
+      expect.objectContaining({ address: sepolia.addresses.hook, ...registrationCall(registration) })
+    );
+  });
+
+  it("does not send an invalid registration", async () => {
+    const { wallet, writeContract } = fakeWallet();
+    await expect(client.register(wallet, { ...registration, references: [] })).rejects.toThrow(
+      "Invalid registration: At least one reference pool is required"
+    );
+    expect(writeContract).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import type { Hex, PublicClient } from "viem";
+import {
+  emptyIndexerState,
+  MIN_CHUNK_SIZE,
+  REORG_WINDOW,
+  syncHookEvents,
+  type IndexerSource,
+} from "../src/eventIndexer";
+
+const HOOK = "0x9c981cdc56335664F21448cA4f40c54390B7D0C0";
+const POOL = `0x${"11".repeat(32)}` as Hex;
+const OTHER_POOL = `0x${"22".repeat(32)}` as Hex;
+const source: IndexerSource = { hook: HOOK, poolId: POOL, startBlock: 100n };
+
+interface FakeLog {
+  blockNumber: bigint;
+  blockHash?: Hex;
+  logIndex?: number;
+  poolId?: Hex;
+  eventName?: "DynamicFeeApplied" | "CircuitBreakerHit";
+}
+
+/** In-memory chain answering getBlockNumber and getLogs, optionally capping the range */
+function fakeClient(chain: { head: bigint; logs: FakeLog[] }, maxRange?: bigint) {
+  const calls: [bigint, bigint][] = [];
+  const client = {
+    getBlockNumber: async () => chain.head,
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+      calls.push([fromBlock, toBlock]);
+      if (maxRange !== undefined && toBlock - fromBlock + 1n > maxRange) {
+        throw new Error("block range too large");
+      }
+      return chain.logs
+        .filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+        .map((log) => ({
+          eventName: log.eventName ?? "DynamicFeeApplied",
+          args: { poolId: log.poolId ?? POOL, fee: 3000, impactBps: 120n, refPriceChangeBps: 7n },
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash ?? `0x${log.blockNumber.toString(16).padStart(64, "0")}`,
+          transactionHash: `0x${"ab".repeat(31)}${(log.logIndex ?? 0).toString(16).padStart(2, "0")}`,
+          logIndex: log.logIndex ?? 0,
+          removed: false,
+        }));
+    },
+  };
+  return { client: client as unknown as PublicClient, calls };
+}
+
+describe("syncHookEvents", () => {
+  it("backfills from the start block in chunks and keeps only the protected pool", async () => {
+    const { client, calls } = fakeClient({
+      head: 12_000n,
+      logs: [
+        { blockNumber: 50n },
+        { blockNumber: 150n },
+        { blockNumber: 7_000n, eventName: "CircuitBreakerHit" },
+        { blockNumber: 7_001n, poolId: OTHER_POOL },
+      ],
+    });
+
+    const state = await syncHookEvents(client, source, emptyIndexerState());
+
+    expect(calls[0][0]).toBe(100n);
+    expect(calls.at(-1)![1]).toBe(12_000n);
+    expect(state.syncedBlock).toBe(12_000n);
+    expect(state.events.map((e) => [e.blockNumber, e.type])).toEqual([
+      [150n, "fee"],
+      [7_000n, "breaker"],
+    ]);
+    expect(state.events[1].refPriceChangeBps).toBe(7n);
+  });
+
+  it("halves the chunk size until the RPC accepts the range", async () => {
+    const { client } = fakeClient({ head: 2_000n, logs: [{ blockNumber: 1_999n }] }, 1_000n);
+    const progress: bigint[] = [];
+
+    const state = await syncHookEvents(client, source, emptyIndexerState(), (s) =>
+      progress.push(s.syncedBlock!)
+    );
+
+    expect(state.chunkSize).toBeLessThanOrEqual(1_000n);
+    expect(state.events).toHaveLength(1);
+    expect(progress.at(-1)).toBe(2_000n);
+  });
+
+  it("throws once the range cannot shrink further", async () => {
+    const { client } = fakeClient({ head: 2_000n, logs: [] }, MIN_CHUNK_SIZE / 2n);
+    await expect(syncHookEvents(client, source, emptyIndexerState())).rejects.toThrow(
+      "block range too large"
+    );
+  });
+
+  it("replaces logs inside the reorg window with the canonical chain's", async () => {
+    const chain: { head: bigint; logs: FakeLog[] } = {
+      head: 1_000n,
+      logs: [
+        { blockNumber: 500n },
+        { blockNumber: 990n, blockHash: `0x${"aa".repeat(32)}` as Hex },
+      ],
+    };
+    const { client, calls } = fakeClient(chain);
+    const first = await syncHookEvents(client, source, emptyIndexerState());
+    expect(first.events).toHaveLength(2);
+
+    // Block 990 is reorged out; the replacement chain has a log at 995 instead
+    chain.head = 1_010n;
+    chain.logs = [{ blockNumber: 500n }, { blockNumber: 995n, logIndex: 1 }];
+    calls.length = 0;
+    const second = await syncHookEvents(client, source, first);
+
+    expect(calls[0][0]).toBe(1_001n - REORG_WINDOW);
+    expect(second.events.map((e) => e.blockNumber)).toEqual([500n, 995n]);
+  });
+
+  it("starts over when the head moves back below the synced block", async () => {
+    const chain: { head: bigint; logs: FakeLog[] } = {
+      head: 5_000n,
+      logs: [{ blockNumber: 200n }, { blockNumber: 4_000n }],
+    };
+    const { client, calls } = fakeClient(chain);
+    const first = await syncHookEvents(client, source, emptyIndexerState());
+    expect(first.syncedBlock).toBe(5_000n);
+
+    // A restarted node: a new chain far below the old head
+    chain.head = 300n;
+    chain.logs = [{ blockNumber: 250n }];
+    calls.length = 0;
+    const progress: (bigint | null)[] = [];
+    const second = await syncHookEvents(client, source, first, (s) => progress.push(s.syncedBlock));
+
+    expect(calls[0][0]).toBe(source.startBlock);
+    expect(progress).toEqual([null, 300n]);
+    expect(second.syncedBlock).toBe(300n);
+    expect(second.events.map((e) => e.blockNumber)).toEqual([250n]);
+  });
+
+  it("keeps older events when the head is one block behind the synced block", async () => {
+    const chain: { head: bigint; logs: FakeLog[] } = {
+      head: 1_000n,
+      logs: [{ blockNumber: 500n }, { blockNumber: 990n }],
+    };
+    const { client, calls } = fakeClient(chain);
+    const first = await syncHookEvents(client, source, emptyIndexerState());
+
+    // Another node behind the same RPC endpoint
+    chain.head = 999n;
+    calls.length = 0;
+    const progress: (bigint | null)[] = [];
+    const second = await syncHookEvents(client, source, first, (s) => progress.push(s.syncedBlock));
+
+    expect(calls[0][0]).toBe(1_001n - REORG_WINDOW);
+    expect(progress).not.toContain(null);
+    expect(second.syncedBlock).toBe(999n);
+    expect(second.events.map((e) => e.blockNumber)).toEqual([500n, 990n]);
+  });
+
+  it("forgets a reset chain even when it is still before the start block", async () => {
+    const { client } = fakeClient({ head: 5_000n, logs: [{ blockNumber: 4_000n }] });
+    const first = await syncHookEvents(client, source, emptyIndexerState());
+
+    const { client: restarted } = fakeClient({ head: 50n, logs: [] });
+    expect(await syncHookEvents(restarted, source, first)).toMatchObject({
+      events: [],
+      syncedBlock: null,
+    });
+  });
+
+  it("does nothing while the head is before the start block", async () => {
+    const { client, calls } = fakeClient({ head: 50n, logs: [] });
+    const state = emptyIndexerState();
+    expect(await syncHookEvents(client, source, state)).toBe(state);
+    expect(calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import type { Hex } from "viem";
+import { tradeHeadroom } from "../src/headroom";
+import { simulateHookDecision } from "../src/hookDecision";
+import { AGGREGATION_MAX, type PoolConfig } from "../src/poolConfig";
+
+const Q96 = 1n << 96n;
+
+const config: PoolConfig = {
+  referencePoolIds: [`0x${"aa".repeat(32)}` as Hex],
+  referenceZeroForOne: [true],
+  baseFee: 3000,
+  highImpactFee: 10000,
+  highImpactThresholdBps: 200,
+  circuitBreakerBps: 1000,
+  maxRefMoveBps: 0,
+  aggregationMode: AGGREGATION_MAX,
+};
+const state = { sqrtPriceX96: Q96, liquidity: 10n ** 21n };
+
+function tierAt(
+  amount: bigint,
+  zeroForOne: boolean,
+  exactOutput: boolean,
+  refPrices: bigint[] = [Q96],
+  cached: bigint[] = [Q96],
+  cfg = config
+) {
+  return simulateHookDecision(cfg, refPrices, cached, state, {
+    zeroForOne,
+    amountSpecified: exactOutput ? amount : -amount,
+  }).tier;
+}
+
+describe("tradeHeadroom", () => {
+  it("returns the exact tier boundaries in every direction and mode", () => {
+    fc.assert(
+      fc.property(fc.boolean(), fc.boolean(), (zeroForOne, exactOutput) => {
+        const h = tradeHeadroom(config, [Q96], [Q96], state, zeroForOne, exactOutput);
+        expect(tierAt(h.maxAtBaseFee!, zeroForOne, exactOutput)).toBe("base");
+        expect(tierAt(h.maxAtBaseFee! + 1n, zeroForOne, exactOutput)).toBe("elevated");
+        expect(tierAt(h.maxBeforeBreaker!, zeroForOne, exactOutput)).toBe("elevated");
+        expect(tierAt(h.maxBeforeBreaker! + 1n, zeroForOne, exactOutput)).toBe("blocked");
+      })
+    );
+  });
+
+  it("grows by the aligned reference movement", () => {
+    // Reference price fell 3%: explains up to ~600 bps of impact on zeroForOne swaps
+    const moved = (Q96 * 97n) / 100n;
+    const still = tradeHeadroom(config, [Q96], [Q96], state, true, false);
+    const after = tradeHeadroom(config, [moved], [Q96], state, true, false);
+
+    expect(after.refPriceChangeBps).toBe(600);
+    expect(after.maxAtBaseFee! > still.maxAtBaseFee!).toBe(true);
+    expect(tierAt(after.maxAtBaseFee! + 1n, true, false, [moved], [Q96])).toBe("elevated");
+    // The same movement is not aligned with the opposite direction
+    expect(tradeHeadroom(config, [moved], [Q96], state, false, false)).toEqual({
+      ...tradeHeadroom(config, [Q96], [Q96], state, false, false),
+      refPriceChangeBps: 0,
+    });
+  });
+
+  it("returns null when reference movement explains the largest possible impact", () => {
+    const cfg = { ...config, circuitBreakerBps: 10000 };
+    // Reference price doubled (capped impact is 10000 bps)
+    const h = tradeHeadroom(cfg, [Q96 * 2n], [Q96], state, false, true);
+    expect(h.maxBeforeBreaker).toBeNull();
+    expect(h.maxAtBaseFee).toBeNull();
+  });
+
+  it("returns zero when even the smallest swap leaves the tier", () => {
+    const h = tradeHeadroom({ ...config, highImpactThresholdBps: 0 }, [Q96], [Q96], state, true, false);
+    expect(h.maxAtBaseFee).toBe(0n);
+    expect(h.maxBeforeBreaker! > 0n).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import vectors from "../../test/vectors/hook-math.json";
+import {
+  estimateSwapImpactBps,
+  getLiquidityStorageSlot,
+  getSlot0StorageSlot,
+  parseSlot0,
+  priceChangeBps,
+} from "../src/utils";
+import { hookSwapImpactBps, simulateHookDecision } from "../src/hookDecision";
+import type { AggregationMode } from "../src/poolConfig";
+import type { Hex } from "viem";
+
+// Golden vectors shared with test/HookMathVectors.t.sol, which asserts the same
+// expectations against the compiled hook.
+
+describe("_estimateSwapImpactBps vectors", () => {
+  it.each(vectors.impact.map((v, i) => [i, v] as const))("impact[%i]", (_, v) => {
+    const params = { zeroForOne: v.zeroForOne, amountSpecified: BigInt(v.amountSpecified) };
+    const state = { sqrtPriceX96: BigInt(v.sqrtPriceX96), liquidity: BigInt(v.liquidity) };
+    expect(Number(hookSwapImpactBps(params, state))).toBe(v.expectedBps);
+
+    // estimateSwapImpactBps takes the amount's magnitude and whether it is exact output
+    const exactOutput = params.amountSpecified < 0n;
+    const amount = exactOutput ? -params.amountSpecified : params.amountSpecified;
+    expect(
+      estimateSwapImpactBps(amount, state.liquidity, state.sqrtPriceX96, v.zeroForOne, exactOutput)
+    ).toBe(v.expectedBps);
+  });
+});
+
+describe("_calculatePriceChangeBps vectors", () => {
+  it.each(vectors.priceChange.map((v, i) => [i, v] as const))("priceChange[%i]", (_, v) => {
+    expect(priceChangeBps(BigInt(v.oldSqrtPriceX96), BigInt(v.newSqrtPriceX96))).toBe(v.expectedBps);
+  });
+});
+
+describe("PoolManager storage layout vectors", () => {
+  it.each(vectors.slot0.map((v, i) => [i, v] as const))("slot0[%i]", (_, v) => {
+    const poolId = v.poolId as Hex;
+    expect(getSlot0StorageSlot(poolId)).toBe(v.slot0Slot);
+    expect(getLiquidityStorageSlot(poolId)).toBe(v.liquiditySlot);
+    expect(parseSlot0(v.word as Hex)).toEqual({
+      sqrtPriceX96: BigInt(v.sqrtPriceX96),
+      tick: v.tick,
+      protocolFee: v.protocolFee,
+      lpFee: v.lpFee,
+    });
+  });
+});
+
+describe("_beforeSwap decision vectors", () => {
+  it.each(vectors.decisions.map((v) => [v.name, v] as const))("%s", (_, v) => {
+    const decision = simulateHookDecision(
+      {
+        referencePoolIds: v.referenceZeroForOne.map(() => "0x" as Hex),
+        referenceZeroForOne: v.referenceZeroForOne,
+        baseFee: v.baseFee,
+        highImpactFee: v.highImpactFee,
+        highImpactThresholdBps: v.highImpactThresholdBps,
+        circuitBreakerBps: v.circuitBreakerBps,
+        maxRefMoveBps: v.maxRefMoveBps,
+        aggregationMode: v.aggregationMode as AggregationMode,
+      },
+      v.refSqrtPrices.map(BigInt),
+      v.cachedRefSqrtPrices.map(BigInt),
+      { sqrtPriceX96: BigInt(v.sqrtPriceX96), liquidity: BigInt(v.liquidity) },
+      { zeroForOne: v.zeroForOne, amountSpecified: BigInt(v.amountSpecified) }
+    );
+
+    expect(decision.unexplainedImpactBps).toBe(v.expectedUnexplainedImpactBps);
+    expect(decision.fee).toBe(v.expectedBlocked ? null : v.expectedFee);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { Address } from "viem";
+import sepoliaDeployment from "../../deployments/sepolia.json";
+import {
+  assertValidPoolKey,
+  CROSS_POOL_HOOK_PERMISSIONS,
+  DYNAMIC_FEE_FLAG,
+  HOOK_FLAGS,
+  hookAddressFlags,
+  permissionsToFlags,
+  validatePoolKey,
+  ZERO_ADDRESS,
+  type PoolKey,
+} from "../src/poolKey";
+
+const HOOK = sepoliaDeployment.contracts.hook as Address;
+const PROTECTED = sepoliaDeployment.pools.protected as PoolKey;
+const REFERENCE = sepoliaDeployment.pools.references[0] as PoolKey;
+
+/** Same high bytes as HOOK with `flags` in the low 14 bits */
+function hookWithFlags(flags: number): Address {
+  const base = BigInt(HOOK) & ~((1n << 14n) - 1n);
+  return `0x${(base | BigInt(flags)).toString(16).padStart(40, "0")}` as Address;
+}
+
+describe("hook permission flags", () => {
+  it("match the deployed hook's address", () => {
+    const expected = HOOK_FLAGS.afterInitialize | HOOK_FLAGS.beforeSwap | HOOK_FLAGS.afterSwap;
+    expect(permissionsToFlags(CROSS_POOL_HOOK_PERMISSIONS)).toBe(expected);
+    expect(hookAddressFlags(HOOK)).toBe(expected);
+  });
+});
+
+describe("validatePoolKey", () => {
+  it("accepts the deployment's keys", () => {
+    expect(validatePoolKey(PROTECTED, HOOK)).toEqual([]);
+    expect(validatePoolKey(REFERENCE, HOOK)).toEqual([]);
+  });
+
+  it("rejects a hook address whose flags do not match getHookPermissions", () => {
+    const wrong = hookWithFlags(HOOK_FLAGS.beforeSwap | HOOK_FLAGS.afterSwap);
+    expect(validatePoolKey({ ...PROTECTED, hooks: wrong }, wrong)).toEqual([
+      "hook address flags 0xc0 do not match getHookPermissions (0x10c0)",
+    ]);
+  });
+
+  it("rejects an unsorted currency pair", () => {
+    const unsorted = { ...REFERENCE, currency0: REFERENCE.currency1, currency1: REFERENCE.currency0 };
+    expect(validatePoolKey(unsorted)).toEqual(["currency0 must be strictly less than currency1"]);
+    expect(validatePoolKey({ ...REFERENCE, currency1: REFERENCE.currency0 })).toEqual([
+      "currency0 must be strictly less than currency1",
+    ]);
+  });
+
+  it.each([0, 32768, 1.5])("rejects tickSpacing %s", (tickSpacing) => {
+    expect(validatePoolKey({ ...REFERENCE, tickSpacing })).toEqual([
+      `tickSpacing ${tickSpacing} outside [1, 32767]`,
+    ]);
+  });
+
+  it("rejects a fee above MAX_LP_FEE and a negative fee", () => {
+    expect(validatePoolKey({ ...REFERENCE, fee: 1_000_001 })).toEqual([
+      "fee 1000001 exceeds MAX_LP_FEE (1000000)",
+    ]);
+    expect(validatePoolKey({ ...REFERENCE, fee: -1 })).toEqual(["fee -1 is negative"]);
+  });
+
+  it("requires the dynamic-fee flag for any hooked pool", () => {
+    const problem = `fee must be the dynamic-fee flag (${DYNAMIC_FEE_FLAG}) for pools with a hook`;
+    expect(validatePoolKey({ ...PROTECTED, fee: 3000 }, HOOK)).toEqual([problem]);
+    // Another hook, not the one being configured
+    const other = hookWithFlags(HOOK_FLAGS.beforeSwap);
+    expect(validatePoolKey({ ...REFERENCE, hooks: other }, HOOK)).toEqual([problem]);
+    expect(validatePoolKey({ ...REFERENCE, hooks: other, fee: DYNAMIC_FEE_FLAG }, HOOK)).toEqual([]);
+    expect(validatePoolKey({ ...REFERENCE, hooks: ZERO_ADDRESS, fee: 3000 })).toEqual([]);
+    // A hook with no permission flags gets the same single problem
+    const flagless = hookWithFlags(0);
+    expect(validatePoolKey({ ...REFERENCE, hooks: flagless, fee: 3000 })).toEqual([problem]);
+    expect(validatePoolKey({ ...REFERENCE, hooks: flagless, fee: DYNAMIC_FEE_FLAG })).toEqual([]);
+  });
+});
+
+describe("assertValidPoolKey", () => {
+  it("names the key and lists every problem", () => {
+    expect(() =>
+      assertValidPoolKey({ ...PROTECTED, fee: 3000, tickSpacing: 0 }, "pools.protected", HOOK)
+    ).toThrow(
+      "Invalid pool key pools.protected: tickSpacing 0 outside [1, 32767]; " +
+        `fee must be the dynamic-fee flag (${DYNAMIC_FEE_FLAG}) for pools with a hook`
+    );
+  });
+});
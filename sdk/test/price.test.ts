@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import {
+  formatSignificant,
+  formatUnitsSignificant,
+  invertPrice,
+  priceFromSqrtPriceX96,
+  priceFromTick,
+  priceToNumber,
+  tickFromPrice,
+} from "../src/price";
+import { getSqrtPriceAtTick, MAX_TICK, MIN_TICK } from "../src/tickMath";
+
+const Q96 = 1n << 96n;
+
+describe("priceFromSqrtPriceX96", () => {
+  it("applies token decimals (USDC 6 / WETH 18 at 3000 USDC per WETH)", () => {
+    // token0 = USDC, token1 = WETH: 1 USDC = 1/3000 WETH
+    const tick = tickFromPrice({ numerator: 1n, denominator: 3000n }, 6, 18);
+    const price = priceFromSqrtPriceX96(getSqrtPriceAtTick(tick), 6, 18);
+
+    expect(priceToNumber(invertPrice(price))).toBeCloseTo(3000, -1);
+    expect(priceToNumber(price)).toBeLessThan(1);
+  });
+
+  it("is 1 at tick 0 for equal decimals", () => {
+    expect(formatSignificant(priceFromSqrtPriceX96(Q96))).toBe("1");
+  });
+});
+
+describe("tickFromPrice", () => {
+  it("inverts priceFromTick", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: MIN_TICK, max: MAX_TICK - 1 }),
+        fc.integer({ min: 0, max: 24 }),
+        fc.integer({ min: 0, max: 24 }),
+        (tick, d0, d1) => {
+          expect(tickFromPrice(priceFromTick(tick, d0, d1), d0, d1)).toBe(tick);
+        }
+      )
+    );
+  });
+});
+
+describe("formatSignificant", () => {
+  it.each([
+    [1n, 1n, "1"],
+    [3n, 2n, "1.5"],
+    [2n, 3n, "0.666667"],
+    [123456789n, 1n, "123456789"],
+    [12345678n, 1000n, "12345.7"],
+    [9999995n, 1000000n, "10"],
+    [123n, 10n ** 20n, "1.23e-18"],
+    [0n, 1n, "0"],
+  ])("%s/%s -> %s", (numerator, denominator, expected) => {
+    expect(formatSignificant({ numerator, denominator })).toBe(expected);
+  });
+
+  it("formats wei amounts with token decimals", () => {
+    expect(formatUnitsSignificant(1234567890000000000n, 18)).toBe("1.23457");
+    expect(formatUnitsSignificant(2500000n, 6)).toBe("2.5");
+  });
+});
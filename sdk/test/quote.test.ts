@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import {
+  decodeBalanceDelta,
+  estimateExactInput,
+  estimateExactOutput,
+  maximumAmountIn,
+  minimumAmountOut,
+  quoteFromDelta,
+} from "../src/quote";
+import { getSqrtPriceAtTick } from "../src/tickMath";
+
+const Q96 = 1n << 96n;
+const L = 10n ** 21n;
+
+function encodeDelta(amount0: bigint, amount1: bigint): bigint {
+  return (amount0 << 128n) | BigInt.asUintN(128, amount1);
+}
+
+describe("decodeBalanceDelta", () => {
+  it("round-trips signed int128 halves", () => {
+    fc.assert(
+      fc.property(
+        fc.bigInt({ min: -(1n << 127n), max: (1n << 127n) - 1n }),
+        fc.bigInt({ min: -(1n << 127n), max: (1n << 127n) - 1n }),
+        (amount0, amount1) => {
+          expect(decodeBalanceDelta(encodeDelta(amount0, amount1))).toEqual({ amount0, amount1 });
+        }
+      )
+    );
+  });
+});
+
+describe("estimateExactInput", () => {
+  it("charges the fee on input and loses a little to the curve", () => {
+    const quote = estimateExactInput({ sqrtPriceX96: Q96, liquidity: L }, 10n ** 18n, true, 3000)!;
+    expect(quote.feeAmount).toBe(3n * 10n ** 15n);
+    // 0.997 in at price 1, minus ~0.1% curve impact
+    expect(quote.amountOut).toBeLessThan(997n * 10n ** 15n);
+    expect(quote.amountOut).toBeGreaterThan(995n * 10n ** 15n);
+    expect(quote.ammImpactBps).toBe(9);
+    expect(quote.totalImpactBps).toBe(39);
+    expect(quote.sqrtPriceAfterX96! < Q96).toBe(true);
+  });
+
+  it("never returns more than the spot value and grows with input", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: -50000, max: 50000 }),
+        fc.bigInt({ min: 1n, max: 10n ** 20n }),
+        fc.boolean(),
+        fc.integer({ min: 0, max: 100000 }),
+        (tick, amountIn, zeroForOne, fee) => {
+          const state = { sqrtPriceX96: getSqrtPriceAtTick(tick), liquidity: L };
+          const small = estimateExactInput(state, amountIn, zeroForOne, fee)!;
+          const large = estimateExactInput(state, amountIn * 2n, zeroForOne, fee)!;
+          expect(small.totalImpactBps).toBeGreaterThanOrEqual(small.ammImpactBps);
+          expect(large.amountOut >= small.amountOut).toBe(true);
+        }
+      )
+    );
+  });
+
+  it("returns null without liquidity", () => {
+    expect(estimateExactInput({ sqrtPriceX96: Q96, liquidity: 0n }, 1n, true, 0)).toBeNull();
+  });
+});
+
+describe("estimateExactOutput", () => {
+  it("asks for at least enough input to buy the output back", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: -50000, max: 50000 }),
+        fc.bigInt({ min: 1n, max: 10n ** 19n }),
+        fc.boolean(),
+        fc.integer({ min: 0, max: 100000 }),
+        (tick, amountOut, zeroForOne, fee) => {
+          const state = { sqrtPriceX96: getSqrtPriceAtTick(tick), liquidity: L };
+          const exactOut = estimateExactOutput(state, amountOut, zeroForOne, fee);
+          if (!exactOut) return;
+          expect(exactOut.amountOut).toBe(amountOut);
+          const exactIn = estimateExactInput(state, exactOut.amountIn, zeroForOne, fee)!;
+          expect(exactIn.amountOut >= amountOut).toBe(true);
+        }
+      )
+    );
+  });
+
+  it("rejects a 100% fee like InvalidFeeForExactOut", () => {
+    expect(estimateExactOutput({ sqrtPriceX96: Q96, liquidity: L }, 1n, true, 1_000_000)).toBeNull();
+  });
+});
+
+describe("quoteFromDelta", () => {
+  it("reads paid and received amounts for either direction", () => {
+    const oneForZero = quoteFromDelta(encodeDelta(990n, -1000n), false, 3000, Q96);
+    expect(oneForZero).toMatchObject({ source: "simulation", amountIn: 1000n, amountOut: 990n });
+
+    const zeroForOne = quoteFromDelta(encodeDelta(-1000n, 990n), true, 3000, Q96);
+    expect(zeroForOne.amountOut).toBe(990n);
+  });
+});
+
+describe("maximumAmountIn", () => {
+  it("applies the tolerance in bps, rounding up", () => {
+    expect(maximumAmountIn(10_000n, 50)).toBe(10_050n);
+    expect(maximumAmountIn(1n, 1)).toBe(2n);
+    expect(maximumAmountIn(999n, 0)).toBe(999n);
+  });
+});
+
+describe("minimumAmountOut", () => {
+  it("applies the tolerance in bps, rounding down", () => {
+    expect(minimumAmountOut(10_000n, 50)).toBe(9_950n);
+    expect(minimumAmountOut(999n, 0)).toBe(999n);
+    expect(minimumAmountOut(1n, 1)).toBe(0n);
+  });
+});
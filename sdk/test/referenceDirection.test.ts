@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import type { Address } from "viem";
+import sepoliaDeployment from "../../deployments/sepolia.json";
+import { parseDeployment } from "../src/deployment";
+import { isAlignedMovement } from "../src/hookDecision";
+import { ZERO_ADDRESS, type PoolKey } from "../src/poolKey";
+import {
+  checkReferenceDirection,
+  detectReferenceDirection,
+} from "../src/referenceDirection";
+
+// Sorted: A < B < W < Z
+const A = "0x1000000000000000000000000000000000000001" as Address;
+const B = "0x1500000000000000000000000000000000000015" as Address;
+const W = "0x2000000000000000000000000000000000000002" as Address;
+const Z = "0x3000000000000000000000000000000000000003" as Address;
+
+function key(currency0: Address, currency1: Address): PoolKey {
+  return { currency0, currency1, fee: 3000, tickSpacing: 60, hooks: ZERO_ADDRESS };
+}
+
+describe("detectReferenceDirection", () => {
+  it("matches the flag the Sepolia deployment registered", () => {
+    const sepolia = parseDeployment(sepoliaDeployment);
+    const detected = detectReferenceDirection(
+      sepolia.protectedPool.key,
+      sepolia.referencePools[0].key
+    );
+    expect(detected.sharedCurrency).toBe(sepolia.protectedPool.key.currency1);
+    expect(detected.zeroForOne).toBe(true);
+    expect(detected.warnings).toEqual([]);
+  });
+
+  it("is true when the shared currency is on the same side of both keys", () => {
+    expect(detectReferenceDirection(key(A, W), key(B, W)).zeroForOne).toBe(true);
+    expect(detectReferenceDirection(key(B, Z), key(W, Z)).zeroForOne).toBe(true);
+    expect(detectReferenceDirection(key(A, W), key(W, Z)).zeroForOne).toBe(false);
+    expect(detectReferenceDirection(key(W, Z), key(A, W)).zeroForOne).toBe(false);
+  });
+
+  it("warns about inverted ordering, unrelated pools and the same pair", () => {
+    const inverted = detectReferenceDirection(key(A, W), key(W, Z));
+    expect(inverted.sharedCurrency).toBe(W);
+    expect(inverted.warnings[0]).toMatch(/^Inverted/);
+
+    const unrelated = detectReferenceDirection(key(A, B), key(W, Z));
+    expect(unrelated).toMatchObject({ sharedCurrency: null, zeroForOne: null });
+    expect(unrelated.warnings).toHaveLength(1);
+
+    const samePair = detectReferenceDirection(key(A, W), { ...key(A, W), fee: 500 });
+    expect(samePair.zeroForOne).toBe(true);
+    expect(samePair.warnings).toHaveLength(1);
+  });
+
+  it("treats a market move in the shared currency as aligned with the hook", () => {
+    // W falls against everything: the protected price (W per A) rises like a
+    // oneForZero swap would push it
+    const protectedKey = key(A, W);
+
+    // B/W (W per B) rises with it
+    const sameSide = detectReferenceDirection(protectedKey, key(B, W)).zeroForOne!;
+    expect(isAlignedMovement(100n, 110n, false, sameSide)).toBe(true);
+
+    // W/Z (Z per W) falls instead
+    const opposite = detectReferenceDirection(protectedKey, key(W, Z)).zeroForOne!;
+    expect(isAlignedMovement(110n, 100n, false, opposite)).toBe(true);
+    expect(isAlignedMovement(100n, 110n, false, opposite)).toBe(false);
+  });
+});
+
+describe("checkReferenceDirection", () => {
+  it("flags a configured direction that contradicts the ordering", () => {
+    expect(checkReferenceDirection(key(A, W), key(B, W), true)).toBeNull();
+    expect(checkReferenceDirection(key(A, W), key(B, W), false)).toBe(
+      "referenceZeroForOne is false but the currency ordering implies true"
+    );
+    // Nothing to check against without a shared currency
+    expect(checkReferenceDirection(key(A, B), key(W, Z), false)).toBeNull();
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+import type { Address, Hex, PublicClient } from "viem";
+import { MAX_REFERENCES } from "../src/poolConfig";
+import type { PoolState } from "../src/poolSnapshot";
+import { toPoolId, ZERO_ADDRESS, type PoolKey } from "../src/poolKey";
+import {
+  discoverReferences,
+  manipulationCost,
+  parseInitializeFixture,
+  recommendReferences,
+  scanInitializedPools,
+  type InitializedPool,
+} from "../src/referenceDiscovery";
+import { estimateSwapImpactBps, getLiquidityStorageSlot, getSlot0StorageSlot } from "../src/utils";
+
+const POOL_MANAGER = "0x0000000000000000000000000000000000000001" as Address;
+const HOOK = "0x9c981cdc56335664F21448cA4f40c54390B7D0C0" as Address;
+// Sorted: A < B < C < W < Z
+const A = "0x1000000000000000000000000000000000000001" as Address;
+const B = "0x1500000000000000000000000000000000000015" as Address;
+const C = "0x1800000000000000000000000000000000000018" as Address;
+const W = "0x2000000000000000000000000000000000000002" as Address;
+const Z = "0x3000000000000000000000000000000000000003" as Address;
+const Q96 = 1n << 96n;
+const E18 = 10n ** 18n;
+
+function key(currency0: Address, currency1: Address, fee = 3000): PoolKey {
+  return { currency0, currency1, fee, tickSpacing: 60, hooks: ZERO_ADDRESS };
+}
+
+function pool(k: PoolKey): InitializedPool {
+  return { id: toPoolId(k), key: k, blockNumber: null };
+}
+
+const PROTECTED: PoolKey = { ...key(A, W), fee: 0x800000, hooks: HOOK };
+
+/** Client answering extsload from slot0 and liquidity per pool */
+function storageClient(pools: { key: PoolKey; liquidity: bigint; sqrtPriceX96?: bigint }[]) {
+  const storage = new Map<Hex, Hex>();
+  for (const p of pools) {
+    const id = toPoolId(p.key);
+    storage.set(getSlot0StorageSlot(id), `0x${(p.sqrtPriceX96 ?? Q96).toString(16)}`);
+    storage.set(getLiquidityStorageSlot(id), `0x${p.liquidity.toString(16)}`);
+  }
+  return {
+    readContract: async ({ args }: { args: [Hex[]] }) =>
+      args[0].map((slot) => storage.get(slot) ?? "0x0"),
+  } as unknown as PublicClient;
+}
+
+function state(liquidity: bigint, sqrtPriceX96 = Q96): PoolState {
+  return { id: "0x", sqrtPriceX96, tick: 0, protocolFee: 0, lpFee: 0, liquidity };
+}
+
+describe("manipulationCost", () => {
+  it("is the smallest input that reaches the target impact", () => {
+    const s = state(1000n * E18, 2n * Q96);
+    for (const sharedIsCurrency0 of [true, false]) {
+      const cost = manipulationCost(s, sharedIsCurrency0, 500)!;
+      const impact = (amount: bigint) =>
+        estimateSwapImpactBps(amount, s.liquidity, s.sqrtPriceX96, sharedIsCurrency0);
+      expect(impact(cost)).toBeGreaterThanOrEqual(500);
+      expect(impact(cost - 1n)).toBeLessThan(500);
+    }
+  });
+
+  it("grows with liquidity and is zero for an empty pool", () => {
+    const shallow = manipulationCost(state(E18), false, 1000)!;
+    const deep = manipulationCost(state(100n * E18), false, 1000)!;
+    expect(Number(deep) / Number(shallow)).toBeCloseTo(100, 1);
+    expect(manipulationCost(state(0n), false, 1000)).toBe(0n);
+  });
+});
+
+describe("discoverReferences", () => {
+  const samePlain = key(B, W);
+  const inverted = key(W, Z);
+  const samePair = key(A, W, 500);
+  const empty = key(C, W);
+  const unrelated = key(B, Z);
+  const client = storageClient([
+    { key: samePlain, liquidity: 50n * E18 },
+    { key: inverted, liquidity: 500n * E18 },
+    { key: samePair, liquidity: 5n * E18 },
+    { key: empty, liquidity: 0n },
+    { key: unrelated, liquidity: 10_000n * E18 },
+  ]);
+  const pools = [PROTECTED, samePlain, inverted, samePair, empty, unrelated, samePlain].map(pool);
+
+  it("keeps pools sharing a currency and ranks them by manipulation cost", async () => {
+    const candidates = await discoverReferences(client, POOL_MANAGER, PROTECTED, pools);
+
+    expect(candidates.map((c) => c.pool.key)).toEqual([inverted, samePlain, samePair, empty]);
+    expect(candidates.map((c) => c.zeroForOne)).toEqual([false, true, true, true]);
+    expect(candidates.every((c) => c.sharedCurrency === W)).toBe(true);
+    expect(candidates[0].warnings[0]).toMatch(/^Inverted/);
+    expect(candidates[3].warnings).toContain("No liquidity in range");
+    expect(candidates[3].manipulationCost).toBe(0n);
+    // At price 1 both sides hold the same virtual reserve
+    expect(candidates[1].depth).toBe(50n * E18);
+  });
+
+  it("recommends liquid candidates in the Registration.references shape", async () => {
+    const candidates = await discoverReferences(client, POOL_MANAGER, PROTECTED, pools);
+    expect(recommendReferences(candidates)).toEqual([
+      { key: inverted, zeroForOne: false },
+      { key: samePlain, zeroForOne: true },
+      { key: samePair, zeroForOne: true },
+    ]);
+    expect(recommendReferences(candidates, 1)).toHaveLength(1);
+  });
+
+  it("caps the recommendation at MAX_REFERENCES", async () => {
+    const keys = Array.from({ length: MAX_REFERENCES + 2 }, (_, i) => key(B, W, 100 * (i + 1)));
+    const many = storageClient(keys.map((k, i) => ({ key: k, liquidity: BigInt(i + 1) * E18 })));
+    const candidates = await discoverReferences(many, POOL_MANAGER, PROTECTED, keys.map(pool));
+    const recommended = recommendReferences(candidates);
+    expect(recommended).toHaveLength(MAX_REFERENCES);
+    expect(recommended[0].key).toEqual(keys[keys.length - 1]);
+  });
+});
+
+describe("discoverReferences across both protected currencies", () => {
+  // One A is worth four W at the protected pool's price
+  const sharesW = key(B, W);
+  const sharesA = key(A, Z);
+  const pools = [sharesW, sharesA].map(pool);
+  const liquidity = [
+    { key: sharesW, liquidity: 100n * E18 },
+    { key: sharesA, liquidity: 50n * E18 },
+  ];
+
+  it("ranks costs in the protected pool's currency1", async () => {
+    const client = storageClient([
+      { key: PROTECTED, liquidity: E18, sqrtPriceX96: 2n * Q96 },
+      ...liquidity,
+    ]);
+    const candidates = await discoverReferences(client, POOL_MANAGER, PROTECTED, pools);
+
+    expect(candidates.map((c) => c.sharedCurrency)).toEqual([A, W]);
+    const [inA, inW] = candidates;
+    // Cheaper in its own unit, but each A costs four W
+    expect(inA.manipulationCost!).toBeLessThan(inW.manipulationCost!);
+    expect(inA.ranking.manipulationCost).toBe(inA.manipulationCost! * 4n);
+    expect(inA.ranking.depth).toBe(200n * E18);
+    expect(inW.ranking).toEqual({ depth: inW.depth, manipulationCost: inW.manipulationCost });
+    expect(recommendReferences(candidates, 1)).toEqual([{ key: sharesA, zeroForOne: true }]);
+  });
+
+  it("prices the protected pool's currency0 from a same-pair pool before it is initialized", async () => {
+    const samePair = key(A, W, 500);
+    const client = storageClient([
+      ...liquidity,
+      { key: samePair, liquidity: E18, sqrtPriceX96: 2n * Q96 },
+    ]);
+    const candidates = await discoverReferences(client, POOL_MANAGER, PROTECTED, [
+      ...pools,
+      pool(samePair),
+    ]);
+    const inA = candidates.find((c) => c.sharedCurrency === A)!;
+    expect(inA.ranking.manipulationCost).toBe(inA.manipulationCost! * 4n);
+  });
+
+  it("refuses to rank both sides without a price", async () => {
+    const client = storageClient(liquidity);
+    await expect(discoverReferences(client, POOL_MANAGER, PROTECTED, pools)).rejects.toThrow(
+      "Cannot rank candidates sharing either currency"
+    );
+  });
+});
+
+describe("scanInitializedPools", () => {
+  it("reads Initialize logs in chunks, halving the range when the RPC refuses", async () => {
+    const calls: [bigint, bigint][] = [];
+    const logs = [
+      { blockNumber: 120n, key: key(B, W) },
+      { blockNumber: 4_000n, key: key(W, Z) },
+    ];
+    const client = {
+      getBlockNumber: async () => 5_000n,
+      getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+        calls.push([fromBlock, toBlock]);
+        if (toBlock - fromBlock + 1n > 2_000n) throw new Error("block range too large");
+        return logs
+          .filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+          .map((log) => ({
+            args: { id: toPoolId(log.key), ...log.key, sqrtPriceX96: Q96, tick: 0 },
+            blockNumber: log.blockNumber,
+            removed: false,
+          }));
+      },
+    } as unknown as PublicClient;
+
+    const scanned = await scanInitializedPools(client, POOL_MANAGER, 100n);
+    expect(scanned).toEqual(logs.map((log) => ({ ...pool(log.key), blockNumber: log.blockNumber })));
+    expect(calls[calls.length - 1][1]).toBe(5_000n);
+    expect(calls.filter(([from, to]) => to - from + 1n <= 2_000n).length).toBeGreaterThan(1);
+  });
+});
+
+describe("parseInitializeFixture", () => {
+  it("derives pool ids from the keys", () => {
+    const [parsed] = parseInitializeFixture([{ ...key(B, W), blockNumber: 7 }]);
+    expect(parsed).toEqual({ id: toPoolId(key(B, W)), key: key(B, W), blockNumber: 7n });
+  });
+
+  it("rejects malformed entries", () => {
+    expect(() => parseInitializeFixture({})).toThrow("array");
+    expect(() => parseInitializeFixture([{ ...key(B, W), hooks: "0x12" }])).toThrow(
+      'Fixture entry 0: missing or invalid "hooks"'
+    );
+    expect(() => parseInitializeFixture([{ ...key(B, W), fee: "3000" }])).toThrow('"fee"');
+    expect(() => parseInitializeFixture([{ ...key(B, W), blockNumber: 1.5 }])).toThrow(
+      '"blockNumber"'
+    );
+    expect(() => parseInitializeFixture([null])).toThrow("Fixture entry 0 must be a pool key object");
+  });
+});
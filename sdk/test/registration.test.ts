@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import sepoliaDeployment from "../../deployments/sepolia.json";
+import { parseDeployment } from "../src/deployment";
+import { toPoolId } from "../src/poolKey";
+import {
+  diffPoolConfig,
+  registrationCall,
+  registrationConfig,
+  validateRegistration,
+  type Registration,
+} from "../src/registration";
+
+const sepolia = parseDeployment(sepoliaDeployment);
+const hook = sepolia.addresses.hook;
+
+// The registration DeployCrossPoolOracle.s.sol makes
+const registration: Registration = {
+  protectedPoolKey: sepolia.protectedPool.key,
+  references: [{ key: sepolia.referencePools[0].key, zeroForOne: true }],
+  baseFee: 3000,
+  highImpactFee: 10000,
+  highImpactThresholdBps: 200,
+  circuitBreakerBps: 1000,
+  maxRefMoveBps: 10000,
+  aggregationMode: 1,
+};
+
+describe("validateRegistration", () => {
+  it("accepts the deployment script's registration", () => {
+    expect(validateRegistration(registration, hook)).toEqual([]);
+  });
+
+  it.each([
+    ["no references", { references: [] }, "At least one reference pool is required"],
+    [
+      "six references",
+      { references: Array(6).fill(registration.references[0]) },
+      "At most 5 reference pools",
+    ],
+    ["fee above 100%", { baseFee: 1_000_001 }, "baseFee must be an integer from 0 to 1000000 (hundredths of a bip)"],
+    ["high fee below base fee", { highImpactFee: 2000 }, "highImpactFee is below baseFee"],
+    ["zero threshold", { highImpactThresholdBps: 0 }, "highImpactThresholdBps must be an integer from 1 to 10000"],
+    ["breaker at the threshold", { circuitBreakerBps: 200 }, "circuitBreakerBps must be above highImpactThresholdBps"],
+    ["unreachable breaker", { circuitBreakerBps: 20000 }, "circuitBreakerBps must be an integer from 1 to 10000"],
+    ["fractional bps", { maxRefMoveBps: 1.5 }, "maxRefMoveBps must be an integer from 0 (uncapped) to 10000"],
+    ["unknown aggregation mode", { aggregationMode: 2 }, "aggregationMode must be 0 (max) or 1 (median)"],
+    [
+      "protected pool as its own reference",
+      { references: [{ key: sepolia.protectedPool.key, zeroForOne: true }] },
+      "Reference #1 is the protected pool",
+    ],
+  ] as [string, Partial<Registration>, string][])("rejects %s", (_, change, problem) => {
+    expect(validateRegistration({ ...registration, ...change }, hook)).toContain(problem);
+  });
+
+  it("requires the protected pool to use the hook with a dynamic fee", () => {
+    const problems = validateRegistration(
+      { ...registration, protectedPoolKey: { ...sepolia.protectedPool.key, fee: 3000 } },
+      hook
+    );
+    expect(problems.some((p) => p.startsWith("Protected pool: fee must be the dynamic-fee flag"))).toBe(
+      true
+    );
+  });
+});
+
+describe("diffPoolConfig", () => {
+  const config = registrationConfig(registration);
+
+  it("lists every field for an unregistered pool", () => {
+    const changes = diffPoolConfig(null, config);
+    expect(changes.map((c) => c.field)).toEqual([
+      "Reference #1",
+      "Reference #1 direction",
+      "baseFee",
+      "highImpactFee",
+      "highImpactThresholdBps",
+      "circuitBreakerBps",
+      "maxRefMoveBps",
+      "aggregationMode",
+    ]);
+    expect(changes.every((c) => c.from === null)).toBe(true);
+  });
+
+  it("shows only what changes, including removed references", () => {
+    const current = {
+      ...config,
+      referencePoolIds: [...config.referencePoolIds, toPoolId(sepolia.protectedPool.key)],
+      referenceZeroForOne: [true, false],
+      circuitBreakerBps: 1500,
+    };
+    expect(diffPoolConfig(current, config)).toEqual([
+      { field: "circuitBreakerBps", from: "15.00%", to: "10.00%" },
+      { field: "Reference #2", from: current.referencePoolIds[1], to: null },
+      { field: "Reference #2 direction", from: "oneForZero", to: null },
+    ]);
+    expect(diffPoolConfig(config, config)).toEqual([]);
+  });
+});
+
+describe("registrationCall", () => {
+  it("uses registerPool for one reference and registerPoolMultiRef for more", () => {
+    const single = registrationCall(registration);
+    expect(single.functionName).toBe("registerPool");
+    expect(single.args.slice(1)).toEqual([
+      sepolia.referencePools[0].id, true, 3000, 10000, 200n, 1000n, 10000n, 1,
+    ]);
+
+    const multi = registrationCall({
+      ...registration,
+      references: [...registration.references, { key: sepolia.referencePools[0].key, zeroForOne: false }],
+    });
+    expect(multi.functionName).toBe("registerPoolMultiRef");
+    expect(multi.args[2]).toEqual([true, false]);
+  });
+});
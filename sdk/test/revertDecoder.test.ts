@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  encodeAbiParameters,
+  encodeErrorResult,
+  toFunctionSelector,
+  type Hex,
+} from "viem";
+import {
+  hookAbi,
+  permit2ErrorsAbi,
+  poolManagerErrorsAbi,
+  swapRouterAbi,
+} from "../src/contracts";
+import { decodeRevert, decodeRevertData, errorMessage } from "../src/revertDecoder";
+
+const HOOK = "0x9c981cdc56335664F21448cA4f40c54390B7D0C0";
+const BEFORE_SWAP = toFunctionSelector(
+  "beforeSwap(address,(address,address,uint24,int24,address),(bool,int256,uint160),bytes)"
+);
+const HOOK_CALL_FAILED = encodeErrorResult({
+  abi: poolManagerErrorsAbi,
+  errorName: "HookCallFailed",
+});
+
+function wrap(reason: Hex): Hex {
+  return encodeErrorResult({
+    abi: poolManagerErrorsAbi,
+    errorName: "WrappedError",
+    args: [HOOK, BEFORE_SWAP, reason, HOOK_CALL_FAILED],
+  });
+}
+
+const breaker = encodeErrorResult({
+  abi: hookAbi,
+  errorName: "CircuitBreakerTriggered",
+  args: [1234n],
+});
+
+describe("decodeRevertData", () => {
+  it("decodes hook errors with their arguments", () => {
+    const decoded = decodeRevertData(breaker);
+    expect(decoded.source).toBe("hook");
+    expect(decoded.name).toBe("CircuitBreakerTriggered");
+    expect(decoded.args).toEqual({ impactBps: 1234n });
+    expect(decoded.message).toContain("12.34%");
+    expect(decoded.wrappedBy).toBeUndefined();
+  });
+
+  it("unwraps WrappedError down to the hook's error", () => {
+    const decoded = decodeRevertData(wrap(breaker));
+    expect(decoded.name).toBe("CircuitBreakerTriggered");
+    expect(decoded.args.impactBps).toBe(1234n);
+    expect(decoded.data).toBe(breaker);
+    expect(decoded.wrappedBy).toEqual({ target: HOOK, selector: BEFORE_SWAP });
+  });
+
+  it("unwraps nested WrappedError reverts", () => {
+    const decoded = decodeRevertData(wrap(wrap(breaker)));
+    expect(decoded.name).toBe("CircuitBreakerTriggered");
+  });
+
+  it("attributes an unknown error inside a hook callback to the hook", () => {
+    const decoded = decodeRevertData(wrap("0xdeadbeef"));
+    expect(decoded.source).toBe("hook");
+    expect(decoded.name).toBeNull();
+    expect(decoded.message).toBe("Hook beforeSwap reverted: Unknown error 0xdeadbeef");
+  });
+
+  it("decodes Permit2 errors", () => {
+    const decoded = decodeRevertData(
+      encodeErrorResult({ abi: permit2ErrorsAbi, errorName: "AllowanceExpired", args: [5n] })
+    );
+    expect(decoded).toMatchObject({ source: "permit2", name: "AllowanceExpired", args: { deadline: 5n } });
+  });
+
+  it("decodes Error(string) and Panic(uint256)", () => {
+    const error = ("0x08c379a0" +
+      encodeAbiParameters([{ type: "string" }], ["TRANSFER_FROM_FAILED"]).slice(2)) as Hex;
+    expect(decodeRevertData(error)).toMatchObject({
+      source: "solidity",
+      name: "Error",
+      message: "TRANSFER_FROM_FAILED",
+    });
+
+    const panic = ("0x4e487b71" + encodeAbiParameters([{ type: "uint256" }], [0x11n]).slice(2)) as Hex;
+    expect(decodeRevertData(panic).message).toBe("Panic: arithmetic overflow or underflow");
+  });
+
+  it("reports empty revert data", () => {
+    expect(decodeRevertData("0x")).toMatchObject({ name: null, message: "Reverted without a reason" });
+  });
+});
+
+describe("decodeRevert", () => {
+  it("reads the raw data of a contract revert decoded against another ABI", () => {
+    const reverted = new ContractFunctionRevertedError({
+      abi: swapRouterAbi,
+      data: wrap(breaker),
+      functionName: "swapExactTokensForTokens",
+    });
+    const error = new BaseError("Execution reverted", { cause: reverted });
+    expect(decodeRevert(error)?.args.impactBps).toBe(1234n);
+  });
+
+  it("reads revert data from RPC errors", () => {
+    const rpc = Object.assign(new BaseError("execution reverted"), { data: { data: breaker } });
+    expect(decodeRevert(new BaseError("failed", { cause: rpc }))?.name).toBe(
+      "CircuitBreakerTriggered"
+    );
+  });
+
+  it("returns null for errors that are not reverts", () => {
+    const rejected = new BaseError("User rejected the request.");
+    expect(decodeRevert(rejected)).toBeNull();
+    expect(decodeRevert(new Error("boom"))).toBeNull();
+    expect(errorMessage(rejected)).toBe("User rejected the request.");
+  });
+});
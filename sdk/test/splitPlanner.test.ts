@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { Hex } from "viem";
+import { planSplitSwap } from "../src/splitPlanner";
+import { AGGREGATION_MAX, type PoolConfig } from "../src/poolConfig";
+
+const Q96 = 1n << 96n;
+const E18 = 10n ** 18n;
+
+const config: PoolConfig = {
+  referencePoolIds: [`0x${"aa".repeat(32)}` as Hex],
+  referenceZeroForOne: [true],
+  baseFee: 3000,
+  highImpactFee: 10000,
+  highImpactThresholdBps: 200,
+  circuitBreakerBps: 1000,
+  maxRefMoveBps: 0,
+  aggregationMode: AGGREGATION_MAX,
+};
+const state = { sqrtPriceX96: Q96, liquidity: 10n ** 21n };
+
+describe("planSplitSwap", () => {
+  it("splits a blocked order into base-fee sub-swaps that add up to it", () => {
+    // ~1100 bps of impact as one swap: above the 10% breaker
+    const amount = 55n * E18;
+    const plan = planSplitSwap(config, [Q96], [Q96], state, true, false, amount);
+
+    expect(plan.single.decision.tier).toBe("blocked");
+    expect(plan.single.quote).toBeNull();
+    expect(plan.steps.length).toBeGreaterThan(1);
+    expect(plan.steps.every((s) => s.decision.tier === "base")).toBe(true);
+    expect(plan.steps.reduce((sum, s) => sum + s.amount, 0n)).toBe(amount);
+    expect(plan.amountIn).toBe(amount);
+  });
+
+  it("is cheaper than paying the elevated fee in one shot", () => {
+    const amount = 15n * E18;
+    const plan = planSplitSwap(config, [Q96], [Q96], state, false, false, amount);
+
+    expect(plan.single.decision.tier).toBe("elevated");
+    expect(plan.amountOut > plan.single.quote!.amountOut).toBe(true);
+    expect(plan.totalImpactBps).toBeLessThan(plan.single.quote!.totalImpactBps);
+  });
+
+  it("uses the reference movement for the first sub-swap only", () => {
+    // References fell 3% since the last swap: explains 600 bps of zeroForOne impact
+    const moved = (Q96 * 97n) / 100n;
+    const plan = planSplitSwap(config, [moved], [Q96], state, true, false, 55n * E18);
+
+    expect(plan.steps[0].decision.refPriceChangeBps).toBe(600);
+    expect(plan.steps.slice(1).every((s) => s.decision.refPriceChangeBps === 0)).toBe(true);
+    expect(plan.steps[0].amount > plan.steps[1].amount).toBe(true);
+  });
+
+  it("splits exact-output orders by output", () => {
+    const amount = 30n * E18;
+    const plan = planSplitSwap(config, [Q96], [Q96], state, true, true, amount);
+    expect(plan.amountOut).toBe(amount);
+    expect(plan.steps.every((s) => s.decision.tier === "base")).toBe(true);
+  });
+
+  it("returns a single step when the order already fits", () => {
+    const plan = planSplitSwap(config, [Q96], [Q96], state, true, false, E18);
+    expect(plan.steps).toHaveLength(1);
+    expect(plan.steps[0].quote).toEqual(plan.single.quote);
+  });
+
+  it("throws when the order needs too many sub-swaps", () => {
+    expect(() =>
+      planSplitSwap(config, [Q96], [Q96], state, true, false, 55n * E18, { maxSteps: 2 })
+    ).toThrow("more than 2 sub-swaps");
+    expect(() =>
+      planSplitSwap({ ...config, highImpactThresholdBps: 0 }, [Q96], [Q96], state, true, false, E18)
+    ).toThrow("exceed the base fee tier");
+  });
+});
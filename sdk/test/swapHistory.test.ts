@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { Hex, PublicClient } from "viem";
+import {
+  fetchSwapHistory,
+  parseSwapHistory,
+  serializeSwapHistory,
+  type SwapHistory,
+} from "../src/swapHistory";
+import { getLiquidityStorageSlot, getSlot0StorageSlot } from "../src/utils";
+
+const POOL_MANAGER = "0x0000000000000000000000000000000000000001";
+const POOL = `0x${"11".repeat(32)}` as Hex;
+const REF = `0x${"aa".repeat(32)}` as Hex;
+const Q96 = 1n << 96n;
+
+const history: SwapHistory = {
+  poolId: POOL,
+  referencePoolIds: [REF],
+  initialRefPrices: [Q96],
+  swaps: [
+    {
+      blockNumber: 12n,
+      sqrtPriceX96: Q96,
+      liquidity: 10n ** 21n,
+      zeroForOne: true,
+      amountSpecified: -(10n ** 18n),
+      amountIn: 10n ** 18n,
+      refPrices: [Q96 + 1n],
+      manipulation: true,
+    },
+  ],
+};
+
+describe("swap history JSON", () => {
+  it("round-trips bigints as decimal strings", () => {
+    const json = serializeSwapHistory(history);
+    expect(JSON.parse(json).swaps[0].amountSpecified).toBe("-1000000000000000000");
+    expect(parseSwapHistory(JSON.parse(json))).toEqual(history);
+  });
+
+  it("rejects malformed exports", () => {
+    const raw = JSON.parse(serializeSwapHistory(history));
+    expect(() => parseSwapHistory({ ...raw, initialRefPrices: [] })).toThrow("one price per reference");
+    expect(() => parseSwapHistory({ ...raw, poolId: "0x11" })).toThrow(
+      '"poolId" must be a 32-byte hex pool id'
+    );
+    expect(() => parseSwapHistory({ ...raw, referencePoolIds: [42] })).toThrow(
+      '"referencePoolIds[0]"'
+    );
+    expect(() => parseSwapHistory({ ...raw, swaps: [null] })).toThrow('"swaps[0]" must be an object');
+    raw.swaps[0].amountIn = "1e18";
+    expect(() => parseSwapHistory(raw)).toThrow('"swaps[0].amountIn"');
+  });
+});
+
+describe("fetchSwapHistory", () => {
+  it("reads state before each block and chains swaps within a block", async () => {
+    // Pool and reference state at the end of each block
+    const chain = new Map<bigint, { pool: bigint; ref: bigint }>([
+      [99n, { pool: Q96, ref: Q96 }],
+      [100n, { pool: Q96 - 10n, ref: Q96 + 5n }],
+      [104n, { pool: Q96 + 50n, ref: Q96 + 7n }],
+    ]);
+    const reads: bigint[] = [];
+    const client = {
+      getBlockNumber: async () => 110n,
+      getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) =>
+        [
+          { blockNumber: 101n, args: { amount0: -100n, amount1: 90n, sqrtPriceX96: Q96 - 20n, liquidity: 7n } },
+          { blockNumber: 101n, args: { amount0: 40n, amount1: -50n, sqrtPriceX96: Q96 - 15n, liquidity: 7n } },
+          { blockNumber: 105n, args: { amount0: -1n, amount1: 1n, sqrtPriceX96: Q96, liquidity: 8n } },
+        ]
+          .filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+          .map((log) => ({ ...log, removed: false })),
+      readContract: async ({ args, blockNumber }: { args: [Hex[]]; blockNumber: bigint }) => {
+        reads.push(blockNumber);
+        const state = chain.get(blockNumber)!;
+        const words = new Map<Hex, bigint>([
+          [getSlot0StorageSlot(POOL), state.pool],
+          [getLiquidityStorageSlot(POOL), 5n],
+          [getSlot0StorageSlot(REF), state.ref],
+          [getLiquidityStorageSlot(REF), 1n],
+        ]);
+        return args[0].map((slot) => `0x${(words.get(slot) ?? 0n).toString(16)}`);
+      },
+    } as unknown as PublicClient;
+
+    const result = await fetchSwapHistory(client, POOL_MANAGER, POOL, [REF], 100n);
+
+    expect(reads).toEqual([99n, 100n, 104n]);
+    expect(result.initialRefPrices).toEqual([Q96]);
+    expect(result.swaps.map((s) => [s.zeroForOne, s.amountIn, s.amountSpecified])).toEqual([
+      [true, 100n, -100n],
+      [false, 50n, -50n],
+      [true, 1n, -1n],
+    ]);
+    expect(result.swaps.map((s) => [s.sqrtPriceX96, s.liquidity, s.refPrices[0]])).toEqual([
+      [Q96 - 10n, 5n, Q96 + 5n],
+      // Second swap in block 101 starts where the first ended
+      [Q96 - 20n, 7n, Q96 + 5n],
+      [Q96 + 50n, 5n, Q96 + 7n],
+    ]);
+  });
+});
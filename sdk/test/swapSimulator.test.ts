@@ -0,0 +1,246 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import type { Hex, PublicClient } from "viem";
+import { estimateExactInput, quoteFromSimulation } from "../src/quote";
+import { computeSwapStep } from "../src/swapMath";
+import {
+  emptyTickData,
+  simulateSwapFromStorage,
+  walkSwap,
+  type SwapStartState,
+  type TickData,
+} from "../src/swapSimulator";
+import { nextInitializedTickWithinOneWord, position } from "../src/tickBitmap";
+import { getSqrtPriceAtTick } from "../src/tickMath";
+import { getTickBitmapStorageSlot, getTickInfoStorageSlot } from "../src/utils";
+
+const POOL = `0x${"11".repeat(32)}` as Hex;
+const SPACING = 60;
+const L = 10n ** 21n;
+const E18 = 10n ** 18n;
+
+interface Position {
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+}
+
+/** Tick bitmap and ticks mapping as the PoolManager would store them */
+function tickDataFor(positions: Position[], tickSpacing = SPACING): TickData {
+  const data = emptyTickData(tickSpacing);
+  const addTick = (tick: number, net: bigint, gross: bigint) => {
+    const info = data.ticks.get(tick) ?? { liquidityGross: 0n, liquidityNet: 0n };
+    data.ticks.set(tick, {
+      liquidityGross: info.liquidityGross + gross,
+      liquidityNet: info.liquidityNet + net,
+    });
+    const { wordPos, bitPos } = position(tick / tickSpacing);
+    data.words.set(wordPos, (data.words.get(wordPos) ?? 0n) | (1n << BigInt(bitPos)));
+  };
+  for (const { tickLower, tickUpper, liquidity } of positions) {
+    addTick(tickLower, liquidity, liquidity);
+    addTick(tickUpper, -liquidity, liquidity);
+  }
+  return data;
+}
+
+/** Every word in the swap's path loaded, empty unless a position set a bit */
+function fullyLoaded(data: TickData): TickData {
+  for (let wordPos = -60; wordPos <= 60; wordPos++) {
+    if (!data.words.has(wordPos)) data.words.set(wordPos, 0n);
+  }
+  return data;
+}
+
+function startAt(tick: number, positions: Position[]): SwapStartState {
+  const liquidity = positions
+    .filter((p) => p.tickLower <= tick && tick < p.tickUpper)
+    .reduce((sum, p) => sum + p.liquidity, 0n);
+  return { sqrtPriceX96: getSqrtPriceAtTick(tick), tick, liquidity };
+}
+
+function done(walk: ReturnType<typeof walkSwap>) {
+  if (walk.status !== "done") throw new Error(`walk needs word ${walk.wordPos}`);
+  return walk.result;
+}
+
+const NARROW: Position[] = [
+  { tickLower: -600, tickUpper: 600, liquidity: L },
+  { tickLower: -60000, tickUpper: 60000, liquidity: L / 10n },
+];
+
+describe("nextInitializedTickWithinOneWord", () => {
+  it("matches a linear scan of the bitmap", () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.integer({ min: -1024, max: 1023 }), { maxLength: 20 }),
+        fc.integer({ min: -1024 * SPACING, max: 1023 * SPACING }),
+        fc.boolean(),
+        (compressed, tick, lte) => {
+          const set = new Set(compressed);
+          const words = new Map<number, bigint>();
+          for (const c of compressed) {
+            const { wordPos, bitPos } = position(c);
+            words.set(wordPos, (words.get(wordPos) ?? 0n) | (1n << BigInt(bitPos)));
+          }
+          const { next, initialized } = nextInitializedTickWithinOneWord(
+            (w) => words.get(w) ?? 0n,
+            tick,
+            SPACING,
+            lte
+          );
+
+          let c = Math.floor(tick / SPACING);
+          if (!lte) c += 1;
+          const wordPos = position(c).wordPos;
+          while (!set.has(c) && position(c + (lte ? -1 : 1)).wordPos === wordPos) {
+            c += lte ? -1 : 1;
+          }
+          expect(next).toBe(c * SPACING);
+          expect(initialized).toBe(set.has(c));
+        }
+      )
+    );
+  });
+});
+
+describe("computeSwapStep", () => {
+  it("spends the whole exact input when the target is not reached", () => {
+    const step = computeSwapStep(getSqrtPriceAtTick(0), getSqrtPriceAtTick(-6000), L, -E18, 3000);
+    expect(step.amountIn + step.feeAmount).toBe(E18);
+    expect(step.sqrtPriceNextX96 > getSqrtPriceAtTick(-6000)).toBe(true);
+  });
+});
+
+describe("walkSwap", () => {
+  it("agrees with the single-range estimate while no tick is crossed", () => {
+    const start = startAt(0, NARROW);
+    const result = done(
+      walkSwap(start, fullyLoaded(tickDataFor(NARROW)), {
+        zeroForOne: true,
+        amountSpecified: -E18,
+        fee: 3000,
+      })
+    );
+    const estimate = estimateExactInput(start, E18, true, 3000)!;
+
+    expect(result.ticksCrossed).toEqual([]);
+    expect(result.complete).toBe(true);
+    expect(quoteFromSimulation(result, true, 3000, start.sqrtPriceX96)).toEqual({
+      ...estimate,
+      source: "tickWalk",
+    });
+  });
+
+  it("drops liquidity when crossing out of a narrow range and prices the rest worse", () => {
+    const start = startAt(0, NARROW);
+    const amount = 100n * E18;
+    const result = done(
+      walkSwap(start, fullyLoaded(tickDataFor(NARROW)), {
+        zeroForOne: true,
+        amountSpecified: -amount,
+        fee: 3000,
+      })
+    );
+    const estimate = estimateExactInput(start, amount, true, 3000)!;
+
+    expect(result.ticksCrossed).toEqual([-600]);
+    expect(result.liquidity).toBe(L / 10n);
+    expect(result.tick).toBeLessThan(-600);
+    expect(result.amountIn).toBe(amount);
+    expect(result.amountOut).toBeLessThan(estimate.amountOut);
+    expect(result.sqrtPriceX96 < estimate.sqrtPriceAfterX96!).toBe(true);
+  });
+
+  it("delivers exactly the requested output across ticks", () => {
+    const start = startAt(0, NARROW);
+    const result = done(
+      walkSwap(start, fullyLoaded(tickDataFor(NARROW)), {
+        zeroForOne: false,
+        amountSpecified: 50n * E18,
+        fee: 10000,
+      })
+    );
+    expect(result.complete).toBe(true);
+    expect(result.amountOut).toBe(50n * E18);
+    expect(result.ticksCrossed).toEqual([600]);
+    expect(result.feeAmount).toBeGreaterThan(0n);
+  });
+
+  it("stops incomplete when liquidity runs out", () => {
+    const positions = [{ tickLower: -600, tickUpper: 600, liquidity: L }];
+    const result = done(
+      walkSwap(startAt(0, positions), fullyLoaded(tickDataFor(positions)), {
+        zeroForOne: true,
+        amountSpecified: -(10n ** 30n),
+        fee: 3000,
+        sqrtPriceLimitX96: getSqrtPriceAtTick(-3000),
+      })
+    );
+    expect(result.complete).toBe(false);
+    expect(result.liquidity).toBe(0n);
+    expect(result.ticksCrossed).toEqual([-600]);
+    expect(result.sqrtPriceX96).toBe(getSqrtPriceAtTick(-3000));
+  });
+
+  it("asks for the next bitmap word when it has not been loaded", () => {
+    const walk = walkSwap(startAt(0, NARROW), emptyTickData(SPACING), {
+      zeroForOne: false,
+      amountSpecified: -E18,
+      fee: 3000,
+    });
+    expect(walk).toEqual({ status: "needsWord", wordPos: 0 });
+  });
+
+  it("rejects a price limit on the wrong side of the current price", () => {
+    expect(() =>
+      walkSwap(startAt(0, NARROW), tickDataFor(NARROW), {
+        zeroForOne: true,
+        amountSpecified: -E18,
+        fee: 3000,
+        sqrtPriceLimitX96: getSqrtPriceAtTick(60),
+      })
+    ).toThrow("PriceLimitAlreadyExceeded");
+  });
+});
+
+describe("simulateSwapFromStorage", () => {
+  it("reads bitmap words and ticks via extsload and matches the full walk", async () => {
+    const positions: Position[] = [
+      ...NARROW,
+      // Far enough away to sit in another bitmap word
+      { tickLower: -30000, tickUpper: -19980, liquidity: L },
+    ];
+    const reference = tickDataFor(positions);
+    const storage = new Map<Hex, Hex>();
+    for (const [wordPos, word] of reference.words) {
+      storage.set(getTickBitmapStorageSlot(POOL, wordPos), `0x${word.toString(16)}`);
+    }
+    for (const [tick, info] of reference.ticks) {
+      const value = (BigInt.asUintN(128, info.liquidityNet) << 128n) | info.liquidityGross;
+      storage.set(getTickInfoStorageSlot(POOL, tick), `0x${value.toString(16)}`);
+    }
+    const reads: number[] = [];
+    const client = {
+      readContract: async ({ args }: { args: [Hex[]] }) => {
+        reads.push(args[0].length);
+        return args[0].map((slot) => storage.get(slot) ?? "0x0");
+      },
+    } as unknown as PublicClient;
+
+    const start = startAt(0, positions);
+    const params = { zeroForOne: true, amountSpecified: -1000n * E18, fee: 3000 };
+    const result = await simulateSwapFromStorage(
+      client,
+      "0x0000000000000000000000000000000000000001",
+      POOL,
+      start,
+      params,
+      emptyTickData(SPACING)
+    );
+
+    expect(result).toEqual(done(walkSwap(start, fullyLoaded(tickDataFor(positions)), params)));
+    expect(result.ticksCrossed).toEqual([-600, -19980]);
+    expect(reads.length).toBeGreaterThan(1);
+  });
+});
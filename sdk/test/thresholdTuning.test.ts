@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import type { Hex } from "viem";
+import { AGGREGATION_MAX, AGGREGATION_MEDIAN, type PoolConfig } from "../src/poolConfig";
+import type { HistoricalSwap, SwapHistory } from "../src/swapHistory";
+import {
+  gridSettings,
+  replayHistory,
+  tuneThresholds,
+  type TuningGrid,
+} from "../src/thresholdTuning";
+
+const Q96 = 1n << 96n;
+const L = 10n ** 24n;
+const REF = `0x${"aa".repeat(32)}` as Hex;
+// Reference price up 500 bps (sqrt-price terms, like the hook)
+const MOVED = Q96 + Q96 / 40n;
+
+const config: PoolConfig = {
+  referencePoolIds: [REF],
+  referenceZeroForOne: [true],
+  baseFee: 3000,
+  highImpactFee: 10000,
+  highImpactThresholdBps: 200,
+  circuitBreakerBps: 1000,
+  maxRefMoveBps: 0,
+  aggregationMode: AGGREGATION_MAX,
+};
+
+/** Router exact-input swap moving the protected pool by about `impactBps` */
+function swap(
+  impactBps: bigint,
+  zeroForOne: boolean,
+  refPrice: bigint,
+  manipulation?: boolean
+): HistoricalSwap {
+  const amountIn = (impactBps * L) / 20000n;
+  return {
+    blockNumber: 1n,
+    sqrtPriceX96: Q96,
+    liquidity: L,
+    zeroForOne,
+    amountSpecified: -amountIn,
+    amountIn,
+    refPrices: [refPrice],
+    ...(manipulation === undefined ? {} : { manipulation }),
+  };
+}
+
+function history(swaps: HistoricalSwap[]): SwapHistory {
+  return { poolId: `0x${"11".repeat(32)}`, referencePoolIds: [REF], initialRefPrices: [Q96], swaps };
+}
+
+const fee = (amount: bigint, pips: bigint) => (amount * pips + 999_999n) / 1_000_000n;
+
+describe("replayHistory", () => {
+  // Small organic swap, a large one explained by the reference rising, then an
+  // unexplained manipulation
+  const swaps = [
+    swap(20n, true, Q96),
+    swap(400n, false, MOVED),
+    swap(800n, true, MOVED, true),
+  ];
+
+  it("counts tiers, false positives, detections and fees per currency", () => {
+    const metrics = replayHistory(config, history(swaps));
+
+    expect(metrics).toMatchObject({
+      swaps: 3,
+      base: 2,
+      elevated: 1,
+      blocked: 0,
+      falsePositives: 0,
+      falsePositiveRate: 0,
+      detected: 1,
+      detectionRate: 1,
+    });
+    expect(metrics.feeRevenue).toEqual({
+      amount0: fee(swaps[0].amountIn, 3000n) + fee(swaps[2].amountIn, 10000n),
+      amount1: fee(swaps[1].amountIn, 3000n),
+    });
+    expect(metrics.blockedVolume).toEqual({ amount0: 0n, amount1: 0n });
+  });
+
+  it("reports blocked volume and a null detection rate without labels", () => {
+    const strict = { ...config, highImpactThresholdBps: 10, circuitBreakerBps: 300 };
+    const metrics = replayHistory(strict, history(swaps.map((s) => ({ ...s, manipulation: undefined }))));
+
+    expect(metrics).toMatchObject({ elevated: 1, blocked: 1, falsePositives: 2, detectionRate: null });
+    expect(metrics.falsePositiveRate).toBeCloseTo(2 / 3);
+    expect(metrics.blockedVolume).toEqual({ amount0: swaps[2].amountIn, amount1: 0n });
+  });
+
+  it("keeps the cached reference prices when a swap is blocked", () => {
+    // The manipulation goes first; the organic swap after it is explained by
+    // the reference move only if the manipulation did not refresh the cache
+    const replay = [swap(800n, true, MOVED, true), swap(400n, false, MOVED)];
+
+    const blocking = replayHistory({ ...config, circuitBreakerBps: 500 }, history(replay));
+    expect([blocking.blocked, blocking.falsePositives]).toEqual([1, 0]);
+
+    const charging = replayHistory(config, history(replay));
+    expect([charging.elevated, charging.falsePositives]).toEqual([2, 1]);
+  });
+
+  it("rejects a history for a different reference set", () => {
+    expect(() => replayHistory({ ...config, referencePoolIds: [] }, history([]))).toThrow(
+      "different reference counts"
+    );
+  });
+});
+
+describe("tuneThresholds", () => {
+  it("replays every accepted grid combination in order", () => {
+    const grid: TuningGrid = {
+      highImpactThresholdBps: [100, 600],
+      circuitBreakerBps: [500, 1000],
+      maxRefMoveBps: [0],
+      aggregationMode: [AGGREGATION_MAX, AGGREGATION_MEDIAN],
+    };
+    expect(gridSettings(grid)).toHaveLength(6);
+
+    const results = tuneThresholds(config, history([swap(400n, true, Q96)]), grid);
+    expect(results.map((r) => [r.setting.highImpactThresholdBps, r.setting.circuitBreakerBps])).toEqual([
+      [100, 500], [100, 500], [100, 1000], [100, 1000], [600, 1000], [600, 1000],
+    ]);
+    expect(results.map((r) => r.metrics.falsePositives)).toEqual([1, 1, 1, 1, 0, 0]);
+  });
+
+  it("caps the reference move with maxRefMoveBps", () => {
+    const explained = history([swap(400n, false, MOVED)]);
+    const [uncapped, capped] = tuneThresholds(config, explained, {
+      highImpactThresholdBps: [200],
+      circuitBreakerBps: [1000],
+      maxRefMoveBps: [0, 100],
+      aggregationMode: [AGGREGATION_MAX],
+    });
+    expect(uncapped.metrics.base).toBe(1);
+    expect(capped.metrics.elevated).toBe(1);
+  });
+});
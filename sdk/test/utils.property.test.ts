@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import type { Hex } from "viem";
+import { estimateSwapImpactBps, parseSlot0, priceChangeBps } from "../src/utils";
+import { hookSwapImpactBps, simulateHookDecision } from "../src/hookDecision";
+
+const MIN_TICK = -887272;
+const MAX_TICK = 887272;
+const MIN_SQRT_PRICE = 4295128739n;
+const MAX_SQRT_PRICE = 1461446703485210103287273052203988822378723970342n;
+
+const sqrtPrice = fc.bigInt({ min: MIN_SQRT_PRICE, max: MAX_SQRT_PRICE });
+const liquidity = fc.bigInt({ min: 1n, max: (1n << 128n) - 1n });
+const amount = fc.bigInt({ min: 0n, max: (1n << 127n) - 1n });
+
+function packSlot0(sqrtPriceX96: bigint, tick: number, protocolFee: number, lpFee: number): Hex {
+  const word =
+    sqrtPriceX96 |
+    (BigInt.asUintN(24, BigInt(tick)) << 160n) |
+    (BigInt(protocolFee) << 184n) |
+    (BigInt(lpFee) << 208n);
+  return ("0x" + word.toString(16).padStart(64, "0")) as Hex;
+}
+
+describe("parseSlot0", () => {
+  it("round-trips packed fields, sign-extending negative ticks", () => {
+    fc.assert(
+      fc.property(
+        fc.bigInt({ min: 0n, max: (1n << 160n) - 1n }),
+        fc.integer({ min: MIN_TICK, max: MAX_TICK }),
+        fc.integer({ min: 0, max: (1 << 24) - 1 }),
+        fc.integer({ min: 0, max: (1 << 24) - 1 }),
+        (sqrtPriceX96, tick, protocolFee, lpFee) => {
+          expect(parseSlot0(packSlot0(sqrtPriceX96, tick, protocolFee, lpFee))).toEqual({
+            sqrtPriceX96,
+            tick,
+            protocolFee,
+            lpFee,
+          });
+        }
+      )
+    );
+  });
+});
+
+describe("estimateSwapImpactBps", () => {
+  it("stays within [0, 10000] bps", () => {
+    fc.assert(
+      fc.property(amount, liquidity, sqrtPrice, fc.boolean(), (a, L, p, z) => {
+        const bps = estimateSwapImpactBps(a, L, p, z);
+        expect(bps).toBeGreaterThanOrEqual(0);
+        expect(bps).toBeLessThanOrEqual(10000);
+      })
+    );
+  });
+
+  it("caps zeroForOne swaps with amountIn >= liquidity", () => {
+    fc.assert(
+      fc.property(liquidity, sqrtPrice, fc.bigInt({ min: 0n, max: 1n << 64n }), (L, p, extra) => {
+        expect(estimateSwapImpactBps(L + extra, L, p, true)).toBe(10000);
+      })
+    );
+  });
+
+  it("treats a zero price or empty pool as maximum impact", () => {
+    fc.assert(
+      fc.property(amount, liquidity, sqrtPrice, fc.boolean(), (a, L, p, z) => {
+        expect(estimateSwapImpactBps(a, L, 0n, z)).toBe(10000);
+        expect(estimateSwapImpactBps(a, 0n, p, z)).toBe(10000);
+      })
+    );
+  });
+
+  it("is non-decreasing in amount", () => {
+    fc.assert(
+      fc.property(amount, amount, liquidity, sqrtPrice, fc.boolean(), (a, b, L, p, z) => {
+        const [lo, hi] = a < b ? [a, b] : [b, a];
+        expect(estimateSwapImpactBps(lo, L, p, z)).toBeLessThanOrEqual(
+          estimateSwapImpactBps(hi, L, p, z)
+        );
+      })
+    );
+  });
+
+  it("agrees with the hook port for positive amountSpecified", () => {
+    fc.assert(
+      fc.property(amount, liquidity, sqrtPrice, fc.boolean(), (a, L, p, z) => {
+        expect(estimateSwapImpactBps(a, L, p, z)).toBe(
+          Number(hookSwapImpactBps({ zeroForOne: z, amountSpecified: a }, { sqrtPriceX96: p, liquidity: L }))
+        );
+      })
+    );
+  });
+
+  it("agrees with the hook port for exact output (negative amountSpecified)", () => {
+    fc.assert(
+      fc.property(amount, liquidity, sqrtPrice, fc.boolean(), (a, L, p, z) => {
+        expect(estimateSwapImpactBps(a, L, p, z, true)).toBe(
+          Number(hookSwapImpactBps({ zeroForOne: z, amountSpecified: -a }, { sqrtPriceX96: p, liquidity: L }))
+        );
+      })
+    );
+  });
+});
+
+describe("priceChangeBps", () => {
+  it("is zero for an unset old price or an unchanged price", () => {
+    fc.assert(
+      fc.property(sqrtPrice, (p) => {
+        expect(priceChangeBps(0n, p)).toBe(0);
+        expect(priceChangeBps(p, p)).toBe(0);
+      })
+    );
+  });
+});
+
+describe("simulateHookDecision", () => {
+  const config = {
+    referencePoolIds: ["0x" as Hex],
+    referenceZeroForOne: [true],
+    baseFee: 3000,
+    highImpactFee: 10000,
+    highImpactThresholdBps: 200,
+    circuitBreakerBps: 1000,
+    maxRefMoveBps: 0,
+    aggregationMode: 1 as const,
+  };
+
+  it("never reports more unexplained impact than swap impact", () => {
+    fc.assert(
+      fc.property(sqrtPrice, sqrtPrice, sqrtPrice, liquidity, amount, fc.boolean(), (live, cached, p, L, a, z) => {
+        const d = simulateHookDecision(config, [live], [cached], { sqrtPriceX96: p, liquidity: L }, {
+          zeroForOne: z,
+          amountSpecified: -a,
+        });
+        expect(d.unexplainedImpactBps).toBeLessThanOrEqual(d.swapImpactBps);
+        expect(d.fee === null).toBe(d.unexplainedImpactBps >= config.circuitBreakerBps);
+      })
+    );
+  });
+
+  it("explains nothing when references have not moved", () => {
+    fc.assert(
+      fc.property(sqrtPrice, sqrtPrice, liquidity, amount, fc.boolean(), (ref, p, L, a, z) => {
+        const d = simulateHookDecision(config, [ref], [ref], { sqrtPriceX96: p, liquidity: L }, {
+          zeroForOne: z,
+          amountSpecified: a,
+        });
+        expect(d.refPriceChangeBps).toBe(0);
+        expect(d.unexplainedImpactBps).toBe(d.swapImpactBps);
+      })
+    );
+  });
+});
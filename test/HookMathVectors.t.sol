@@ -0,0 +1,184 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {Test} from "forge-std/Test.sol";
+
+import {IHooks} from "@uniswap/v4-core/src/interfaces/IHooks.sol";
+import {Hooks} from "@uniswap/v4-core/src/libraries/Hooks.sol";
+import {IPoolManager, SwapParams} from "@uniswap/v4-core/src/interfaces/IPoolManager.sol";
+import {PoolKey} from "@uniswap/v4-core/src/types/PoolKey.sol";
+import {PoolId, PoolIdLibrary} from "@uniswap/v4-core/src/types/PoolId.sol";
+import {Currency} from "@uniswap/v4-core/src/types/Currency.sol";
+import {StateLibrary} from "@uniswap/v4-core/src/libraries/StateLibrary.sol";
+import {LPFeeLibrary} from "@uniswap/v4-core/src/libraries/LPFeeLibrary.sol";
+
+import {CrossPoolOracleHook} from "../src/CrossPoolOracleHook.sol";
+import {CrossPoolOracleHookHarness} from "./utils/CrossPoolOracleHookHarness.sol";
+import {MockExtsload} from "./utils/mocks/MockExtsload.sol";
+
+/// @notice Checks the hook against the golden vectors in test/vectors/hook-math.json.
+/// The SDK test suite (sdk/test) asserts the same vectors against the
+/// TypeScript mirror, so a contract change that the SDK does not follow
+/// fails one side or the other.
+contract HookMathVectorsTest is Test {
+    using PoolIdLibrary for PoolKey;
+
+    string json;
+    MockExtsload manager;
+    CrossPoolOracleHookHarness hook;
+    PoolKey key;
+
+    function setUp() public {
+        json = vm.readFile(string.concat(vm.projectRoot(), "/test/vectors/hook-math.json"));
+        manager = new MockExtsload();
+
+        address flags = address(
+            uint160(
+                Hooks.AFTER_INITIALIZE_FLAG | Hooks.BEFORE_SWAP_FLAG | Hooks.AFTER_SWAP_FLAG
+            ) ^ (0x4444 << 144)
+        );
+        bytes memory constructorArgs = abi.encode(address(manager), address(this));
+        deployCodeTo("CrossPoolOracleHookHarness.sol:CrossPoolOracleHookHarness", constructorArgs, flags);
+        hook = CrossPoolOracleHookHarness(flags);
+
+        key = PoolKey(
+            Currency.wrap(address(0x1000)),
+            Currency.wrap(address(0x2000)),
+            LPFeeLibrary.DYNAMIC_FEE_FLAG,
+            60,
+            IHooks(address(hook))
+        );
+    }
+
+    // ============ Test: Swap impact estimation ============
+
+    function test_Vectors_EstimateSwapImpactBps() public {
+        for (uint256 i = 0; _exists("impact", i); i++) {
+            _setPoolState(key.toId(), 0, uint128(_uint("impact", i, "liquidity")));
+
+            SwapParams memory params = SwapParams({
+                zeroForOne: vm.parseJsonBool(json, _path("impact", i, "zeroForOne")),
+                amountSpecified: vm.parseJsonInt(json, _path("impact", i, "amountSpecified")),
+                sqrtPriceLimitX96: 0
+            });
+            uint160 sqrtPrice = uint160(_uint("impact", i, "sqrtPriceX96"));
+
+            assertEq(
+                hook.exposedEstimateSwapImpactBps(params, sqrtPrice, key),
+                _uint("impact", i, "expectedBps"),
+                _path("impact", i, "expectedBps")
+            );
+        }
+    }
+
+    // ============ Test: Reference price change ============
+
+    function test_Vectors_PriceChangeBps() public view {
+        for (uint256 i = 0; _exists("priceChange", i); i++) {
+            assertEq(
+                hook.exposedCalculatePriceChangeBps(
+                    uint160(_uint("priceChange", i, "oldSqrtPriceX96")),
+                    uint160(_uint("priceChange", i, "newSqrtPriceX96"))
+                ),
+                _uint("priceChange", i, "expectedBps"),
+                _path("priceChange", i, "expectedBps")
+            );
+        }
+    }
+
+    // ============ Test: PoolManager storage layout ============
+
+    function test_Vectors_Slot0Layout() public {
+        for (uint256 i = 0; _exists("slot0", i); i++) {
+            PoolId poolId = PoolId.wrap(vm.parseJsonBytes32(json, _path("slot0", i, "poolId")));
+            bytes32 stateSlot = StateLibrary._getPoolStateSlot(poolId);
+
+            assertEq(stateSlot, vm.parseJsonBytes32(json, _path("slot0", i, "slot0Slot")));
+            assertEq(
+                bytes32(uint256(stateSlot) + StateLibrary.LIQUIDITY_OFFSET),
+                vm.parseJsonBytes32(json, _path("slot0", i, "liquiditySlot"))
+            );
+
+            manager.setSlot(stateSlot, vm.parseJsonBytes32(json, _path("slot0", i, "word")));
+            (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee) =
+                StateLibrary.getSlot0(IPoolManager(address(manager)), poolId);
+
+            assertEq(sqrtPriceX96, _uint("slot0", i, "sqrtPriceX96"));
+            assertEq(int256(tick), vm.parseJsonInt(json, _path("slot0", i, "tick")));
+            assertEq(protocolFee, _uint("slot0", i, "protocolFee"));
+            assertEq(lpFee, _uint("slot0", i, "lpFee"));
+        }
+    }
+
+    // ============ Test: Full _beforeSwap decision ============
+
+    function test_Vectors_BeforeSwapDecision() public {
+        PoolId poolId = key.toId();
+
+        for (uint256 i = 0; _exists("decisions", i); i++) {
+            bool[] memory dirs = vm.parseJsonBoolArray(json, _path("decisions", i, "referenceZeroForOne"));
+            string[] memory live = vm.parseJsonStringArray(json, _path("decisions", i, "refSqrtPrices"));
+            string[] memory cached = vm.parseJsonStringArray(json, _path("decisions", i, "cachedRefSqrtPrices"));
+
+            PoolId[] memory refs = new PoolId[](dirs.length);
+            for (uint256 j = 0; j < dirs.length; j++) {
+                refs[j] = PoolId.wrap(keccak256(abi.encode("reference", j)));
+                _setPoolState(refs[j], uint160(vm.parseUint(live[j])), 0);
+                hook.setLastReferenceSqrtPrice(poolId, j, uint160(vm.parseUint(cached[j])));
+            }
+
+            hook.registerPoolMultiRef(
+                key,
+                refs,
+                dirs,
+                uint24(_uint("decisions", i, "baseFee")),
+                uint24(_uint("decisions", i, "highImpactFee")),
+                _uint("decisions", i, "highImpactThresholdBps"),
+                _uint("decisions", i, "circuitBreakerBps"),
+                _uint("decisions", i, "maxRefMoveBps"),
+                uint8(_uint("decisions", i, "aggregationMode"))
+            );
+            _setPoolState(
+                poolId, uint160(_uint("decisions", i, "sqrtPriceX96")), uint128(_uint("decisions", i, "liquidity"))
+            );
+
+            SwapParams memory params = SwapParams({
+                zeroForOne: vm.parseJsonBool(json, _path("decisions", i, "zeroForOne")),
+                amountSpecified: vm.parseJsonInt(json, _path("decisions", i, "amountSpecified")),
+                sqrtPriceLimitX96: 0
+            });
+            uint256 unexplained = _uint("decisions", i, "expectedUnexplainedImpactBps");
+
+            if (vm.parseJsonBool(json, _path("decisions", i, "expectedBlocked"))) {
+                vm.expectRevert(abi.encodeWithSelector(CrossPoolOracleHook.CircuitBreakerTriggered.selector, unexplained));
+                hook.exposedBeforeSwap(key, params, "");
+            } else {
+                uint24 expectedFee = uint24(_uint("decisions", i, "expectedFee"));
+                vm.expectEmit(true, false, false, true, address(hook));
+                emit CrossPoolOracleHook.DynamicFeeApplied(poolId, expectedFee, unexplained);
+                (,, uint24 fee) = hook.exposedBeforeSwap(key, params, "");
+                assertEq(fee, expectedFee | LPFeeLibrary.OVERRIDE_FEE_FLAG, _path("decisions", i, "expectedFee"));
+            }
+        }
+    }
+
+    // ============ Helpers ============
+
+    function _setPoolState(PoolId poolId, uint160 sqrtPriceX96, uint128 liquidity) internal {
+        bytes32 stateSlot = StateLibrary._getPoolStateSlot(poolId);
+        manager.setSlot(stateSlot, bytes32(uint256(sqrtPriceX96)));
+        manager.setSlot(bytes32(uint256(stateSlot) + StateLibrary.LIQUIDITY_OFFSET), bytes32(uint256(liquidity)));
+    }
+
+    function _path(string memory section, uint256 i, string memory field) internal pure returns (string memory) {
+        return string.concat(".", section, "[", vm.toString(i), "].", field);
+    }
+
+    function _exists(string memory section, uint256 i) internal view returns (bool) {
+        return vm.keyExistsJson(json, string.concat(".", section, "[", vm.toString(i), "]"));
+    }
+
+    function _uint(string memory section, uint256 i, string memory field) internal view returns (uint256) {
+        return vm.parseJsonUint(json, _path(section, i, field));
+    }
+}
@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+import {IPoolManager, SwapParams} from "@uniswap/v4-core/src/interfaces/IPoolManager.sol";
+import {PoolKey} from "@uniswap/v4-core/src/types/PoolKey.sol";
+import {PoolId} from "@uniswap/v4-core/src/types/PoolId.sol";
+import {BeforeSwapDelta} from "@uniswap/v4-core/src/types/BeforeSwapDelta.sol";
+
+import {CrossPoolOracleHook} from "../../src/CrossPoolOracleHook.sol";
+
+/// @notice Exposes the hook's internal math so it can be checked against the
+/// frontend's TypeScript mirror in test/vectors.
+contract CrossPoolOracleHookHarness is CrossPoolOracleHook {
+    constructor(IPoolManager _poolManager, address _owner) CrossPoolOracleHook(_poolManager, _owner) {}
+
+    function exposedCalculatePriceChangeBps(uint160 oldSqrtPrice, uint160 newSqrtPrice)
+        external
+        pure
+        returns (uint256)
+    {
+        return _calculatePriceChangeBps(oldSqrtPrice, newSqrtPrice);
+    }
+
+    function exposedEstimateSwapImpactBps(SwapParams calldata params, uint160 currentSqrtPrice, PoolKey calldata key)
+        external
+        view
+        returns (uint256)
+    {
+        return _estimateSwapImpactBps(params, currentSqrtPrice, key);
+    }
+
+    function exposedBeforeSwap(PoolKey calldata key, SwapParams calldata params, bytes calldata hookData)
+        external
+        returns (bytes4, BeforeSwapDelta, uint24)
+    {
+        return _beforeSwap(msg.sender, key, params, hookData);
+    }
+
+    function setLastReferenceSqrtPrice(PoolId poolId, uint256 index, uint160 sqrtPriceX96) external {
+        lastReferenceSqrtPrices[poolId][index] = sqrtPriceX96;
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.26;
+
+/// @notice Stands in for the PoolManager's storage reads so StateLibrary getters
+/// return arbitrary pool states without initializing real pools.
+contract MockExtsload {
+    mapping(bytes32 => bytes32) public slots;
+
+    function setSlot(bytes32 slot, bytes32 value) external {
+        slots[slot] = value;
+    }
+
+    function extsload(bytes32 slot) external view returns (bytes32) {
+        return slots[slot];
+    }
+}